@@ -1,24 +1,35 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { EnhancedNeo4jService } from "@/lib/enhanced-neo4j-service"
+import { WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
 
 export async function POST(request: NextRequest) {
   try {
-    console.log("Clearing all graph data...")
+    const body = await request.json().catch(() => ({}))
+    const workspace = normalizeWorkspaceName(body.workspace)
 
-    const neo4jService = new EnhancedNeo4jService()
+    console.log(`Clearing graph data for workspace "${workspace}"...`)
 
-    // Clear all nodes and relationships
-    await neo4jService.clearAllData()
+    const graphStore = createGraphStore(workspace)
+    try {
+      // Clear nodes and relationships of the active workspace only
+      await graphStore.clearAllData()
+    } finally {
+      await graphStore.close()
+    }
 
     console.log("Graph data cleared successfully!")
-    await neo4jService.close()
 
     return NextResponse.json({
       success: true,
-      message: "Graph data cleared successfully",
+      workspace,
+      message: `Graph data cleared for workspace "${workspace}"`,
     })
   } catch (error) {
     console.error("Error clearing graph data:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
     return NextResponse.json(
       {
         error: "Failed to clear graph data",
@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Lists the documents that mention an entity, with offsets and the surrounding sentence
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const workspace = normalizeWorkspaceName(request.nextUrl.searchParams.get("workspace"))
+    const entityId = decodeURIComponent(params.id)
+
+    if (!/^\d+$/.test(entityId)) {
+      return NextResponse.json({ error: "Invalid entity id" }, { status: 400 })
+    }
+
+    const graphStore = createGraphStore(workspace)
+    try {
+      const mentions = await graphStore.getEntityMentions(entityId)
+      return NextResponse.json({ success: true, workspace, entityId, mentions })
+    } finally {
+      await graphStore.close()
+    }
+  } catch (error) {
+    console.error("Error loading entity mentions:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to load entity mentions",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
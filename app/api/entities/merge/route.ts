@@ -0,0 +1,58 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { EntityMergeError, WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
+import { recomputeInference } from "@/lib/inference"
+import { loadOntology } from "@/lib/ontology"
+
+// Merges entities into a surviving node and returns the updated graph
+export async function POST(request: NextRequest) {
+  try {
+    const { survivorId, mergedIds, workspace: requestedWorkspace } = await request.json()
+
+    const isId = (id: unknown) => typeof id === "string" && /^\d+$/.test(id)
+    if (!isId(survivorId) || !Array.isArray(mergedIds) || mergedIds.length === 0 || !mergedIds.every(isId)) {
+      return NextResponse.json(
+        { error: "survivorId and a non-empty mergedIds array of entity ids are required" },
+        { status: 400 },
+      )
+    }
+
+    const workspace = normalizeWorkspaceName(requestedWorkspace)
+
+    const graphStore = createGraphStore(workspace)
+    try {
+      const merge = await graphStore.mergeEntities(survivorId, mergedIds)
+      // Premises now meet at the survivor, and inferred relationships moved with the merged nodes
+      const inference = await recomputeInference(graphStore, await loadOntology(graphStore))
+      const graphData = await graphStore.getAllEntitiesAndRelationships()
+
+      return NextResponse.json({
+        success: true,
+        workspace,
+        ...merge,
+        inferredRelationships: inference.inferred,
+        entities: graphData.entities,
+        relationships: graphData.relationships,
+      })
+    } finally {
+      await graphStore.close()
+    }
+  } catch (error) {
+    console.error("Error merging entities:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    if (error instanceof EntityMergeError) {
+      return NextResponse.json({ error: "Cannot merge entities", details: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to merge entities",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
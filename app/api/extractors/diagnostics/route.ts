@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { listLLMCalls } from "@/lib/llm-diagnostics"
+
+// Recent LLM extraction calls in this server process, most recent first
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, calls: listLLMCalls() })
+  } catch (error) {
+    console.error("Error listing extraction diagnostics:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to list extraction diagnostics",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { defaultPipelineSpec, extractorRegistry } from "@/lib/extractors"
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      defaultPipeline: defaultPipelineSpec(),
+      extractors: extractorRegistry.list().map((extractor) => ({
+        name: extractor.name,
+        description: extractor.description,
+        available: extractor.isAvailable(),
+      })),
+    })
+  } catch (error) {
+    console.error("Error listing extractors:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to list extractors",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
+import { normalizeDate } from "@/lib/temporal"
+
+export async function GET(request: NextRequest) {
+  try {
+    const workspace = normalizeWorkspaceName(request.nextUrl.searchParams.get("workspace"))
+
+    // ?asOf=2005-06-01 (or 2005, June 2005) shows the relationships that held on that date
+    const rawAsOf = request.nextUrl.searchParams.get("asOf")
+    const asOf = rawAsOf ? normalizeDate(rawAsOf, "start") : null
+    if (rawAsOf && !asOf) {
+      return NextResponse.json(
+        { error: "Invalid asOf date", details: `"${rawAsOf}" is not a date; use YYYY-MM-DD` },
+        { status: 400 },
+      )
+    }
+
+    const graphStore = createGraphStore(workspace)
+    try {
+      const graphData = await graphStore.getAllEntitiesAndRelationships(asOf ? { asOf } : {})
+
+      return NextResponse.json({
+        success: true,
+        workspace,
+        asOf,
+        entities: graphData.entities,
+        relationships: graphData.relationships,
+      })
+    } finally {
+      await graphStore.close()
+    }
+  } catch (error) {
+    console.error("Error loading graph data:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to load graph data",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
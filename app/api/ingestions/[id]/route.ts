@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { IngestionUndoError, WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
+import { recomputeInference } from "@/lib/inference"
+import { loadOntology } from "@/lib/ontology"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Undoes an ingestion run: removes what only it contributed and returns the updated graph
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const workspace = normalizeWorkspaceName(request.nextUrl.searchParams.get("workspace"))
+    const runId = decodeURIComponent(params.id)
+
+    const graphStore = createGraphStore(workspace)
+    try {
+      const undo = await graphStore.undoIngestionRun(runId)
+      // Inferred relationships may have lost a premise
+      const inference = await recomputeInference(graphStore, await loadOntology(graphStore))
+      const graphData = await graphStore.getAllEntitiesAndRelationships()
+
+      return NextResponse.json({
+        success: true,
+        workspace,
+        ...undo,
+        inferredRelationships: inference.inferred,
+        entities: graphData.entities,
+        relationships: graphData.relationships,
+      })
+    } finally {
+      await graphStore.close()
+    }
+  } catch (error) {
+    console.error("Error undoing ingestion:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    if (error instanceof IngestionUndoError) {
+      return NextResponse.json({ error: "Cannot undo ingestion", details: error.message }, { status: 409 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to undo ingestion",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
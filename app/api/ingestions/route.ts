@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
+
+export async function GET(request: NextRequest) {
+  try {
+    const workspace = normalizeWorkspaceName(request.nextUrl.searchParams.get("workspace"))
+
+    const graphStore = createGraphStore(workspace)
+    try {
+      const ingestions = await graphStore.listIngestionRuns()
+      return NextResponse.json({ success: true, workspace, ingestions })
+    } finally {
+      await graphStore.close()
+    }
+  } catch (error) {
+    console.error("Error listing ingestions:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to list ingestions",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { EntityMergeError, WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// Dismisses a suggestion without merging
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const workspace = normalizeWorkspaceName(request.nextUrl.searchParams.get("workspace"))
+    const id = decodeURIComponent(params.id)
+
+    const graphStore = createGraphStore(workspace)
+    try {
+      await graphStore.dismissMergeSuggestion(id)
+    } finally {
+      await graphStore.close()
+    }
+
+    return NextResponse.json({ success: true, message: `Merge suggestion ${id} dismissed` })
+  } catch (error) {
+    console.error("Error dismissing merge suggestion:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    if (error instanceof EntityMergeError) {
+      return NextResponse.json({ error: "Merge suggestion not found", details: error.message }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to dismiss merge suggestion",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
+
+export async function GET(request: NextRequest) {
+  try {
+    const workspace = normalizeWorkspaceName(request.nextUrl.searchParams.get("workspace"))
+
+    const graphStore = createGraphStore(workspace)
+    try {
+      const suggestions = await graphStore.listMergeSuggestions()
+      return NextResponse.json({ success: true, workspace, suggestions })
+    } finally {
+      await graphStore.close()
+    }
+  } catch (error) {
+    console.error("Error listing merge suggestions:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to list merge suggestions",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,161 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
+import { recomputeInference } from "@/lib/inference"
+import {
+  DEFAULT_ONTOLOGY,
+  OntologyError,
+  colorOf,
+  parseOntology,
+  serializeOntology,
+  type Ontology,
+  type OntologyFormat,
+} from "@/lib/ontology"
+
+const parseFormat = (format: unknown): OntologyFormat => (format === "yaml" ? "yaml" : "json")
+
+// Colors resolved through the type hierarchy, so clients need not walk parents themselves
+const typeColors = (ontology: Ontology) =>
+  Object.fromEntries(ontology.entityTypes.map((type) => [type.name, colorOf(ontology, type.name)]))
+
+// The workspace's ontology; custom is false when it uses the default. document is the ontology serialized as
+// ?format=json (default) or yaml, ready for editing, and colors maps every entity type to its display color.
+export async function GET(request: NextRequest) {
+  try {
+    const workspace = normalizeWorkspaceName(request.nextUrl.searchParams.get("workspace"))
+    const format = parseFormat(request.nextUrl.searchParams.get("format"))
+
+    const graphStore = createGraphStore(workspace)
+    try {
+      const stored = await graphStore.getOntology()
+      const ontology = stored ?? DEFAULT_ONTOLOGY
+      return NextResponse.json({
+        success: true,
+        workspace,
+        custom: stored !== null,
+        ontology,
+        colors: typeColors(ontology),
+        format,
+        document: serializeOntology(ontology, format),
+      })
+    } finally {
+      await graphStore.close()
+    }
+  } catch (error) {
+    console.error("Error loading ontology:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to load ontology",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Body: { workspace, document, format: "json" | "yaml" } with the ontology as text, or { workspace, ontology }.
+// Responds with the graph after inferred relationships were derived under the new rules.
+export async function PUT(request: NextRequest) {
+  try {
+    const { workspace: requestedWorkspace, document, format, ontology: submitted } = await request.json()
+    const workspace = normalizeWorkspaceName(requestedWorkspace)
+
+    if (typeof document !== "string" && (typeof submitted !== "object" || submitted === null)) {
+      return NextResponse.json({ error: "An ontology document or object is required" }, { status: 400 })
+    }
+
+    const ontology = parseOntology(typeof document === "string" ? document : submitted, parseFormat(format))
+
+    const graphStore = createGraphStore(workspace)
+    let inference, graphData
+    try {
+      await graphStore.saveOntology(ontology)
+      // The rules may have changed, so inferred relationships are derived again
+      inference = await recomputeInference(graphStore, ontology)
+      graphData = await graphStore.getAllEntitiesAndRelationships()
+    } finally {
+      await graphStore.close()
+    }
+
+    console.log(
+      `Ontology saved for workspace "${workspace}": ` +
+        `${ontology.entityTypes.length} entity types, ${ontology.relationshipTypes.length} relationship types`,
+    )
+
+    return NextResponse.json({
+      success: true,
+      workspace,
+      custom: true,
+      ontology,
+      colors: typeColors(ontology),
+      inferredRelationships: inference.inferred,
+      entities: graphData.entities,
+      relationships: graphData.relationships,
+    })
+  } catch (error) {
+    console.error("Error saving ontology:", error)
+
+    if (error instanceof OntologyError) {
+      return NextResponse.json({ error: "Invalid ontology", details: error.message }, { status: 400 })
+    }
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to save ontology",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Goes back to the default ontology; nodes and relationships already in the graph are kept, inferred ones are
+// derived again
+export async function DELETE(request: NextRequest) {
+  try {
+    const workspace = normalizeWorkspaceName(request.nextUrl.searchParams.get("workspace"))
+
+    const graphStore = createGraphStore(workspace)
+    let inference, graphData
+    try {
+      await graphStore.saveOntology(null)
+      inference = await recomputeInference(graphStore, DEFAULT_ONTOLOGY)
+      graphData = await graphStore.getAllEntitiesAndRelationships()
+    } finally {
+      await graphStore.close()
+    }
+
+    return NextResponse.json({
+      success: true,
+      workspace,
+      custom: false,
+      ontology: DEFAULT_ONTOLOGY,
+      colors: typeColors(DEFAULT_ONTOLOGY),
+      inferredRelationships: inference.inferred,
+      entities: graphData.entities,
+      relationships: graphData.relationships,
+    })
+  } catch (error) {
+    console.error("Error resetting ontology:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to reset ontology",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -1,8 +1,19 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { EnhancedFileProcessor } from "@/lib/enhanced-file-processor"
-import { SimplePDFExtractor } from "@/lib/simple-pdf-extractor"
-import { HybridNLPProcessor } from "@/lib/hybrid-nlp-processor"
-import { EnhancedNeo4jService } from "@/lib/enhanced-neo4j-service"
+import { SimplePDFExtractor, PDFExtractionError } from "@/lib/simple-pdf-extractor"
+import { PageProvenance } from "@/lib/page-provenance"
+import { UnknownExtractorError, extractorRegistry } from "@/lib/extractors"
+import { validateExtractionTypes } from "@/lib/type-labels"
+import { loadOntology } from "@/lib/ontology"
+import { runInference } from "@/lib/inference"
+import { countViolations, enforceDomainRange } from "@/lib/relation-constraints"
+import { liftLiterals } from "@/lib/literals"
+import { normalizeRelationships } from "@/lib/relationship-normalization"
+import { partitionByPolarity } from "@/lib/factuality"
+import { afterCommit, buildGraphBatch } from "@/lib/graph-ingestion"
+import { describeDocument, findMentions } from "@/lib/document-provenance"
+import { resolveExtraction, toMergeSuggestions } from "@/lib/entity-resolution"
+import { IngestionError, WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,6 +22,10 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData()
     const file = formData.get("file") as File
     const clearBefore = formData.get("clearBefore") === "true"
+    const workspace = normalizeWorkspaceName(formData.get("workspace"))
+    const extractor = formData.get("extractor")
+    // A registered extractor name or pipeline spec; defaults to EXTRACTOR_PIPELINE
+    const pipeline = extractorRegistry.pipeline(typeof extractor === "string" && extractor ? extractor : undefined)
 
     if (!file) {
       console.error("No file provided in request")
@@ -19,33 +34,37 @@ export async function POST(request: NextRequest) {
 
     console.log(`Processing file: ${file.name}, size: ${file.size} bytes`)
     console.log(`Clear before processing: ${clearBefore}`)
+    console.log(`Workspace: ${workspace}`)
+    console.log(`Extractor pipeline: ${pipeline.spec}`)
 
     const fileProcessor = new EnhancedFileProcessor()
-    const nlpProcessor = new HybridNLPProcessor()
-    const neo4jService = new EnhancedNeo4jService()
+    const graphStore = createGraphStore(workspace)
 
     try {
-      // Clear previous data only if requested
-      if (clearBefore) {
-        console.log("Clearing previous graph data...")
-        await neo4jService.clearAllData()
-      }
+      await graphStore.createWorkspace(workspace)
+      const ontology = await loadOntology(graphStore)
 
       // Extract text based on file type
-      let rawText = ""
+      let cleanText = ""
+      let provenance: PageProvenance | null = null
       const fileExtension = file.name.split(".").pop()?.toLowerCase()
 
       if (fileExtension === "pdf") {
         console.log("Using specialized PDF extractor...")
-        rawText = await SimplePDFExtractor.extractText(file)
+        const pdf = await SimplePDFExtractor.extractPages(file)
+        console.log(`Raw text length: ${pdf.text.length} characters across ${pdf.numPages} pages`)
+
+        provenance = new PageProvenance(
+          pdf.pages.map((page) => ({ pageNumber: page.pageNumber, text: fileProcessor.preprocessText(page.text) })),
+        )
+        cleanText = provenance.text
       } else {
         console.log("Using standard file processor...")
-        rawText = await fileProcessor.extractTextFromFile(file)
+        const rawText = await fileProcessor.extractTextFromFile(file)
+        console.log(`Raw text length: ${rawText.length} characters`)
+        cleanText = fileProcessor.preprocessText(rawText)
       }
 
-      console.log(`Raw text length: ${rawText.length} characters`)
-
-      const cleanText = fileProcessor.preprocessText(rawText)
       console.log(`Clean text length: ${cleanText.length} characters`)
       console.log(`Extracted content: "${cleanText.substring(0, 200)}..."`)
 
@@ -53,82 +72,99 @@ export async function POST(request: NextRequest) {
         throw new Error("No text content extracted from file")
       }
 
-      // Process text with hybrid NLP
+      // Extract entities and relationships with the selected extractor pipeline
       console.log("Starting NLP processing...")
-      const { entities, relationships } = await nlpProcessor.extractEntitiesAndRelationships(cleanText)
+      const extraction = await pipeline.extract(cleanText, ontology)
+      const processingMethod = extraction.extractor
+
+      // Denied relationships ("does not own") are reported back, never written as edges
+      const { asserted, negated } = partitionByPolarity(extraction.relationships)
+      const negatedRelationships = negated.map(({ source, type, target, context }) => ({
+        source,
+        type,
+        target,
+        context,
+      }))
+
+      // Synonyms, inverse directions and free-form verbs are mapped onto the ontology's relationship types
+      const normalized = normalizeRelationships({ entities: extraction.entities, relationships: asserted }, ontology)
+      const normalizedTypes = normalized.normalizations
+
+      // Only ontology types reach Cypher; the rest are reported back to the caller
+      const validated = validateExtractionTypes(
+        { entities: extraction.entities, relationships: normalized.relationships },
+        ontology,
+      )
+      const rejectedTypes = validated.rejectedTypes
 
-      console.log(`NLP extracted ${entities.length} entities and ${relationships.length} relationships`)
+      // Amounts, percentages, dates and qualities become typed properties of what they describe, not nodes
+      const described = liftLiterals(validated, ontology)
 
-      const processedEntities = []
-      const processedRelationships = []
-
-      // Process entities
-      console.log("Processing entities...")
-      for (const entity of entities) {
-        try {
-          console.log(`Creating entity: ${entity.label} (${entity.type})`)
-          const newEntity = await neo4jService.createEntityWithMerge(entity)
-          processedEntities.push(newEntity)
-        } catch (error) {
-          console.error(`Error processing entity ${entity.label}:`, error)
-        }
-      }
+      // Relationships whose endpoints do not fit the type's domain/range are repaired, down-weighted or dropped
+      const constrained = enforceDomainRange(described, ontology)
+      const constraintViolations = constrained.violations
+      const violationCounts = countViolations(constraintViolations)
+
+      // Fold duplicates into existing nodes before writing; borderline matches are queued for review
+      const resolution = await resolveExtraction(
+        graphStore,
+        { entities: constrained.entities, relationships: constrained.relationships },
+        { includeExisting: !clearBefore, ontology },
+      )
+
+      // Attach page numbers so every fact can be cited back to where it appeared
+      const entities = provenance ? provenance.annotateEntities(resolution.entities) : resolution.entities
+      const relationships = provenance
+        ? provenance.annotateRelationships(resolution.relationships)
+        : resolution.relationships
+
+      console.log(`NLP extracted ${entities.length} entities and ${relationships.length} relationships`)
 
-      // Process relationships
-      console.log("Processing relationships...")
-      for (const relationship of relationships) {
-        try {
-          const sourceEntity = processedEntities.find(
-            (e) => e.label.toLowerCase() === relationship.source.toLowerCase(),
-          )
-          const targetEntity = processedEntities.find(
-            (e) => e.label.toLowerCase() === relationship.target.toLowerCase(),
-          )
-
-          if (sourceEntity && targetEntity) {
-            console.log(
-              `Creating relationship: ${relationship.source} -[${relationship.type}]-> ${relationship.target}`,
-            )
-            const newRelationship = await neo4jService.createRelationshipWithValidation(
-              sourceEntity.label,
-              targetEntity.label,
-              sourceEntity.type,
-              targetEntity.type,
-              relationship.type,
-              {
-                ...relationship.properties,
-                confidence: relationship.confidence,
-                context: relationship.context,
-                source_file: file.name,
-              },
-            )
-
-            if (newRelationship) {
-              processedRelationships.push(newRelationship)
-            }
-          } else {
-            console.warn(
-              `Cannot create relationship: entities not found - ${relationship.source} or ${relationship.target}`,
-            )
-          }
-        } catch (error) {
-          console.error(`Error processing relationship:`, error)
-        }
+      // Clear (if requested) and write everything as one ingestion run that either commits or rolls back.
+      // Mention offsets refer to the cleaned text the extractor saw; the hash covers the uploaded bytes.
+      console.log("Writing entities and relationships...")
+      const batch = {
+        ...buildGraphBatch(entities, relationships, { source_file: file.name }),
+        document: describeDocument(file.name, await file.arrayBuffer(), processingMethod),
+        mentions: findMentions(cleanText, entities, provenance ? (offset) => provenance!.pageAt(offset) : undefined),
       }
+      const written = await graphStore.ingest(batch, { source: file.name, clearBefore })
+      const processedEntities = written.entities
+      const processedRelationships = written.relationships
+      // The run has committed; failures from here on are reported as warnings next to its runId
+      const warnings: string[] = []
+      const pendingSuggestions = toMergeSuggestions(resolution.suggestions, processedEntities)
+      const mergeSuggestions = await afterCommit(
+        warnings,
+        "Saving merge suggestions",
+        async () => {
+          await graphStore.addMergeSuggestions(pendingSuggestions, written.run.id)
+          return pendingSuggestions
+        },
+        [],
+      )
+      // Derive what the new relationships imply, e.g. WORKS_AT from CEO_OF
+      const inference = await afterCommit(
+        warnings,
+        "Inference",
+        () => runInference(graphStore, ontology, processedRelationships),
+        { inferred: 0, rules: 0 },
+      )
 
       // Get final graph data
       console.log("Retrieving final graph data...")
-      const graphData = await neo4jService.getAllEntitiesAndRelationships()
+      const graphData = await graphStore.getAllEntitiesAndRelationships()
 
       console.log("File processing completed successfully!")
       console.log(
         `Final result: ${graphData.entities.length} entities, ${graphData.relationships.length} relationships`,
       )
 
-      await neo4jService.close()
-
       return NextResponse.json({
         success: true,
+        workspace,
+        runId: written.run.id,
+        document: written.document,
         entitiesCount: processedEntities.length,
         relationshipsCount: processedRelationships.length,
         entities: graphData.entities,
@@ -137,17 +173,71 @@ export async function POST(request: NextRequest) {
           name: file.name,
           size: file.size,
           textLength: cleanText.length,
+          pages: provenance ? provenance.pageCount : undefined,
           extractedText: cleanText.substring(0, 100) + "...", // Show first 100 chars for debugging
         },
-        processingMethod: entities.length > 0 ? "gemini" : "local",
+        processingMethod,
+        // Per-call LLM outcomes (attempts, repairs, dropped items); empty for the offline extractors
+        extractionDiagnostics: extraction.diagnostics,
+        normalizedTypes,
+        rejectedTypes,
+        constraintViolations,
+        negatedRelationships,
+        mergedEntities: resolution.merges,
+        warnings,
+        statistics: {
+          extractedEntities: extraction.entities.length,
+          extractedRelationships: extraction.relationships.length,
+          normalizedRelationships: normalizedTypes.filter((n) => !n.fallback).reduce((sum, n) => sum + n.count, 0),
+          relatedToFallbacks: normalizedTypes.filter((n) => n.fallback).reduce((sum, n) => sum + n.count, 0),
+          rejectedTypes: rejectedTypes.length,
+          rejectedRelationships: violationCounts.rejected,
+          negatedRelationships: negated.length,
+          literalAttributes: described.lifted,
+          repairedRelationships: violationCounts.reversed + violationCounts.retyped + violationCounts.endpointTyped,
+          downWeightedRelationships: violationCounts.downWeighted,
+          inferredRelationships: inference.inferred,
+          mergedEntities: resolution.merges.length,
+          mergeSuggestions: mergeSuggestions.length,
+          resolvedReferences: extraction.references.length,
+          processedEntities: processedEntities.length,
+          processedRelationships: processedRelationships.length,
+        },
       })
     } catch (processingError) {
       console.error("Error during file processing:", processingError)
-      await neo4jService.close()
       throw processingError
+    } finally {
+      await graphStore.close()
     }
   } catch (error) {
     console.error("Error in file processing API:", error)
+
+    if (error instanceof IngestionError) {
+      return NextResponse.json(
+        { error: "Failed to process file", details: error.message, runId: error.runId },
+        { status: 500 },
+      )
+    }
+
+    if (error instanceof UnknownExtractorError) {
+      return NextResponse.json({ error: "Invalid extractor", details: error.message }, { status: 400 })
+    }
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    if (error instanceof PDFExtractionError) {
+      return NextResponse.json(
+        {
+          error: "Failed to extract text from file",
+          details: error.message,
+        },
+        { status: 422 },
+      )
+    }
+
     return NextResponse.json(
       {
         error: "Failed to process file",
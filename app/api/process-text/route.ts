@@ -1,111 +1,178 @@
 export const runtime = "nodejs"; 
 import { type NextRequest, NextResponse } from "next/server"
-import { HybridNLPProcessor } from "@/lib/hybrid-nlp-processor"
-import { EnhancedNeo4jService } from "@/lib/enhanced-neo4j-service"
+import { UnknownExtractorError, extractorRegistry } from "@/lib/extractors"
+import { validateExtractionTypes } from "@/lib/type-labels"
+import { loadOntology } from "@/lib/ontology"
+import { runInference } from "@/lib/inference"
+import { countViolations, enforceDomainRange } from "@/lib/relation-constraints"
+import { liftLiterals } from "@/lib/literals"
+import { normalizeRelationships } from "@/lib/relationship-normalization"
+import { partitionByPolarity } from "@/lib/factuality"
+import { afterCommit, buildGraphBatch } from "@/lib/graph-ingestion"
+import { describeDocument, findMentions } from "@/lib/document-provenance"
+import { resolveExtraction, toMergeSuggestions } from "@/lib/entity-resolution"
+import { IngestionError, WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
 
 export async function POST(request: NextRequest) {
   try {
-    const { text, clearBefore = true } = await request.json()
+    const { text, clearBefore = false, workspace: requestedWorkspace, extractor } = await request.json()
 
     if (!text || typeof text !== "string") {
       return NextResponse.json({ error: "Text is required" }, { status: 400 })
     }
 
+    const workspace = normalizeWorkspaceName(requestedWorkspace)
+    // A registered extractor name or pipeline spec; defaults to EXTRACTOR_PIPELINE
+    const pipeline = extractorRegistry.pipeline(typeof extractor === "string" && extractor ? extractor : undefined)
+
     console.log("Starting enhanced entity extraction...")
     console.log(`Input text: "${text}"`)
     console.log(`Clear before processing: ${clearBefore}`)
-
-    const nlpProcessor = new HybridNLPProcessor()
-    const neo4jService = new EnhancedNeo4jService()
-
-    // Clear previous data only if requested
-    if (clearBefore) {
-      console.log("Clearing previous graph data...")
-      await neo4jService.clearAllData()
+    console.log(`Workspace: ${workspace}`)
+    console.log(`Extractor pipeline: ${pipeline.spec}`)
+
+    const graphStore = createGraphStore(workspace)
+    try {
+      await graphStore.createWorkspace(workspace)
+      const ontology = await loadOntology(graphStore)
+
+      // Extract entities and relationships with the selected extractor pipeline
+      const extraction = await pipeline.extract(text, ontology)
+      const processingMethod = extraction.extractor
+
+      // Denied relationships ("does not own") are reported back, never written as edges
+      const { asserted, negated } = partitionByPolarity(extraction.relationships)
+      const negatedRelationships = negated.map(({ source, type, target, context }) => ({
+        source,
+        type,
+        target,
+        context,
+      }))
+
+      // Synonyms, inverse directions and free-form verbs are mapped onto the ontology's relationship types
+      const normalized = normalizeRelationships({ entities: extraction.entities, relationships: asserted }, ontology)
+      const normalizedTypes = normalized.normalizations
+
+      // Only ontology types reach Cypher; the rest are reported back to the caller
+      const validated = validateExtractionTypes(
+        { entities: extraction.entities, relationships: normalized.relationships },
+        ontology,
+      )
+      const rejectedTypes = validated.rejectedTypes
+
+      // Amounts, percentages, dates and qualities become typed properties of what they describe, not nodes
+      const described = liftLiterals(validated, ontology)
+
+      // Relationships whose endpoints do not fit the type's domain/range are repaired, down-weighted or dropped
+      const constrained = enforceDomainRange(described, ontology)
+      const constraintViolations = constrained.violations
+      const violationCounts = countViolations(constraintViolations)
+
+      // Fold duplicates into existing nodes before writing; borderline matches are queued for review
+      const resolution = await resolveExtraction(
+        graphStore,
+        { entities: constrained.entities, relationships: constrained.relationships },
+        { includeExisting: !clearBefore, ontology },
+      )
+      const { entities, relationships } = resolution
+
+      console.log(`Extracted ${entities.length} entities and ${relationships.length} relationships`)
+
+      // Clear (if requested) and write everything as one ingestion run that either commits or rolls back
+      const batch = {
+        ...buildGraphBatch(entities, relationships),
+        document: describeDocument("Text input", text, processingMethod),
+        mentions: findMentions(text, entities),
+      }
+      const written = await graphStore.ingest(batch, { source: "Text input", clearBefore })
+      const processedEntities = written.entities
+      const processedRelationships = written.relationships
+      // The run has committed; failures from here on are reported as warnings next to its runId
+      const warnings: string[] = []
+      const pendingSuggestions = toMergeSuggestions(resolution.suggestions, processedEntities)
+      const mergeSuggestions = await afterCommit(
+        warnings,
+        "Saving merge suggestions",
+        async () => {
+          await graphStore.addMergeSuggestions(pendingSuggestions, written.run.id)
+          return pendingSuggestions
+        },
+        [],
+      )
+      // Derive what the new relationships imply, e.g. WORKS_AT from CEO_OF
+      const inference = await afterCommit(
+        warnings,
+        "Inference",
+        () => runInference(graphStore, ontology, processedRelationships),
+        { inferred: 0, rules: 0 },
+      )
+
+      // Get updated graph data
+      const graphData = await graphStore.getAllEntitiesAndRelationships()
+
+      console.log("Processing completed successfully!")
+      console.log(
+        `Final result: ${graphData.entities.length} entities, ${graphData.relationships.length} relationships`,
+      )
+
+      return NextResponse.json({
+        success: true,
+        workspace,
+        runId: written.run.id,
+        document: written.document,
+        entitiesCount: processedEntities.length,
+        relationshipsCount: processedRelationships.length,
+        entities: graphData.entities,
+        relationships: graphData.relationships,
+        processingMethod,
+        // Per-call LLM outcomes (attempts, repairs, dropped items); empty for the offline extractors
+        extractionDiagnostics: extraction.diagnostics,
+        normalizedTypes,
+        rejectedTypes,
+        constraintViolations,
+        negatedRelationships,
+        mergedEntities: resolution.merges,
+        warnings,
+        statistics: {
+          extractedEntities: extraction.entities.length,
+          extractedRelationships: extraction.relationships.length,
+          normalizedRelationships: normalizedTypes.filter((n) => !n.fallback).reduce((sum, n) => sum + n.count, 0),
+          relatedToFallbacks: normalizedTypes.filter((n) => n.fallback).reduce((sum, n) => sum + n.count, 0),
+          rejectedTypes: rejectedTypes.length,
+          rejectedRelationships: violationCounts.rejected,
+          negatedRelationships: negated.length,
+          literalAttributes: described.lifted,
+          repairedRelationships: violationCounts.reversed + violationCounts.retyped + violationCounts.endpointTyped,
+          downWeightedRelationships: violationCounts.downWeighted,
+          inferredRelationships: inference.inferred,
+          mergedEntities: resolution.merges.length,
+          mergeSuggestions: mergeSuggestions.length,
+          resolvedReferences: extraction.references.length,
+          processedEntities: processedEntities.length,
+          processedRelationships: processedRelationships.length,
+        },
+      })
+    } finally {
+      await graphStore.close()
     }
+  } catch (error) {
+    console.error("Error in text processing:", error)
 
-    // Extract entities and relationships using hybrid approach
-    const { entities, relationships } = await nlpProcessor.extractEntitiesAndRelationships(text)
-
-    console.log(`Extracted ${entities.length} entities and ${relationships.length} relationships`)
-
-    const processedEntities = []
-    const processedRelationships = []
-
-    // Process each entity
-    for (const entity of entities) {
-      console.log(`Processing entity: ${entity.label} (${entity.type}) - Confidence: ${entity.confidence}`)
+    if (error instanceof IngestionError) {
+      return NextResponse.json(
+        { error: "Failed to process text", details: error.message, runId: error.runId },
+        { status: 500 },
+      )
+    }
 
-      try {
-        const newEntity = await neo4jService.createEntityWithMerge(entity)
-        processedEntities.push(newEntity)
-        console.log(`Created entity: ${entity.label}`)
-      } catch (error) {
-        console.error(`Error processing entity ${entity.label}:`, error)
-      }
+    if (error instanceof UnknownExtractorError) {
+      return NextResponse.json({ error: "Invalid extractor", details: error.message }, { status: 400 })
     }
 
-    // Process relationships
-    for (const relationship of relationships) {
-      console.log(`Processing relationship: ${relationship.source} -[${relationship.type}]-> ${relationship.target}`)
-
-      try {
-        const sourceEntity = processedEntities.find((e) => e.label.toLowerCase() === relationship.source.toLowerCase())
-
-        const targetEntity = processedEntities.find((e) => e.label.toLowerCase() === relationship.target.toLowerCase())
-
-        if (sourceEntity && targetEntity) {
-          const newRelationship = await neo4jService.createRelationshipWithValidation(
-            sourceEntity.label,
-            targetEntity.label,
-            sourceEntity.type,
-            targetEntity.type,
-            relationship.type,
-            {
-              ...relationship.properties,
-              confidence: relationship.confidence,
-              context: relationship.context,
-            },
-          )
-
-          if (newRelationship) {
-            processedRelationships.push(newRelationship)
-            console.log(`Created relationship: ${relationship.source} -[${relationship.type}]-> ${relationship.target}`)
-          }
-        } else {
-          console.warn(
-            `Cannot create relationship: entities not found - ${relationship.source} or ${relationship.target}`,
-          )
-        }
-      } catch (error) {
-        console.error(`Error processing relationship:`, error)
-      }
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
     }
 
-    // Get updated graph data
-    const graphData = await neo4jService.getAllEntitiesAndRelationships()
-
-    console.log("Processing completed successfully!")
-    console.log(`Final result: ${graphData.entities.length} entities, ${graphData.relationships.length} relationships`)
-
-    await neo4jService.close()
-
-    return NextResponse.json({
-      success: true,
-      entitiesCount: processedEntities.length,
-      relationshipsCount: processedRelationships.length,
-      entities: graphData.entities,
-      relationships: graphData.relationships,
-      processingMethod: entities.length > 0 ? "gemini" : "local",
-      statistics: {
-        extractedEntities: entities.length,
-        extractedRelationships: relationships.length,
-        processedEntities: processedEntities.length,
-        processedRelationships: processedRelationships.length,
-      },
-    })
-  } catch (error) {
-    console.error("Error in text processing:", error)
     return NextResponse.json(
       {
         error: "Failed to process text",
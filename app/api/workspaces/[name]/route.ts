@@ -0,0 +1,72 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
+
+interface RouteContext {
+  params: { name: string }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name: newName } = await request.json()
+
+    if (!newName) {
+      return NextResponse.json({ error: "New workspace name is required" }, { status: 400 })
+    }
+
+    const currentName = normalizeWorkspaceName(decodeURIComponent(params.name))
+    const targetName = normalizeWorkspaceName(newName)
+
+    const graphStore = createGraphStore(currentName)
+    try {
+      const workspace = await graphStore.renameWorkspace(currentName, targetName)
+      console.log(`Workspace "${currentName}" renamed to "${targetName}"`)
+
+      return NextResponse.json({ success: true, workspace })
+    } finally {
+      await graphStore.close()
+    }
+  } catch (error) {
+    console.error("Error renaming workspace:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to rename workspace",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const name = normalizeWorkspaceName(decodeURIComponent(params.name))
+
+    const graphStore = createGraphStore(name)
+    try {
+      await graphStore.deleteWorkspace(name)
+    } finally {
+      await graphStore.close()
+    }
+
+    return NextResponse.json({ success: true, message: `Workspace "${name}" deleted` })
+  } catch (error) {
+    console.error("Error deleting workspace:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to delete workspace",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { WorkspaceError, createGraphStore, normalizeWorkspaceName } from "@/lib/graph-store"
+
+export async function GET() {
+  try {
+    const graphStore = createGraphStore()
+    try {
+      const workspaces = await graphStore.listWorkspaces()
+      return NextResponse.json({ success: true, workspaces })
+    } finally {
+      await graphStore.close()
+    }
+  } catch (error) {
+    console.error("Error listing workspaces:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to list workspaces",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name } = await request.json()
+
+    if (!name) {
+      return NextResponse.json({ error: "Workspace name is required" }, { status: 400 })
+    }
+
+    const workspaceName = normalizeWorkspaceName(name)
+
+    const graphStore = createGraphStore(workspaceName)
+    try {
+      const workspace = await graphStore.createWorkspace(workspaceName)
+      console.log(`Workspace "${workspaceName}" ready`)
+
+      return NextResponse.json({ success: true, workspace })
+    } finally {
+      await graphStore.close()
+    }
+  } catch (error) {
+    console.error("Error creating workspace:", error)
+
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: "Invalid workspace", details: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to create workspace",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState, useRef } from "react"
+import { useState, useRef, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
@@ -13,6 +13,12 @@ import { Upload, FileText, Database, Activity, Trash2, Settings } from "lucide-r
 import { useToast } from "@/hooks/use-toast"
 import GraphVisualization from "@/components/graph-visualization"
 import ProcessingStatus from "@/components/processing-status"
+import WorkspaceSwitcher from "@/components/workspace-switcher"
+import ExtractorSelect from "@/components/extractor-select"
+import OntologyEditor from "@/components/ontology-editor"
+import IngestionHistory from "@/components/ingestion-history"
+import MergeSuggestions from "@/components/merge-suggestions"
+import { isValidAt } from "@/lib/temporal"
 
 interface Entity {
   id: string
@@ -34,16 +40,140 @@ interface GraphData {
   relationships: Relationship[]
 }
 
+interface RejectedType {
+  kind: "entity" | "relationship"
+  type: string
+  subject: string
+}
+
+interface TypeNormalization {
+  from: string
+  to: string
+  reversed: boolean
+  fallback: boolean
+  count: number
+}
+
+interface ConstraintViolation {
+  action: "rejected" | "reversed" | "retyped" | "endpointTyped" | "downWeighted"
+  relationship: string
+  reason: string
+  repaired?: string
+}
+
+interface MergedEntity {
+  label: string
+  into: string
+}
+
+interface NegatedRelationship {
+  source: string
+  type: string
+  target: string
+}
+
+interface ExtractionDiagnostics {
+  provider: string
+  outcome: string
+  attempts: unknown[]
+  droppedItems: number
+  error?: string
+}
+
+const formatRejectedTypes = (rejectedTypes: RejectedType[] = []) =>
+  rejectedTypes.map((rejected) => `Skipped ${rejected.kind} "${rejected.subject}": unsupported type ${rejected.type}`)
+
+const formatNormalizedTypes = (normalizations: TypeNormalization[] = []) =>
+  normalizations.map(
+    (n) =>
+      `Mapped ${n.count} ${n.from} relationship(s) to ${n.to}` +
+      (n.reversed ? " (reversed)" : "") +
+      (n.fallback ? ", keeping the verb" : ""),
+  )
+
+const formatConstraintViolations = (violations: ConstraintViolation[] = []) =>
+  violations.map((violation) =>
+    violation.action === "rejected"
+      ? `Skipped relationship ${violation.relationship}: ${violation.reason}`
+      : violation.action === "downWeighted"
+        ? `Lowered confidence of ${violation.relationship}: ${violation.reason}`
+        : violation.action === "endpointTyped"
+          ? `Typed ${violation.repaired} to fit ${violation.relationship}`
+          : `Corrected ${violation.relationship} to ${violation.repaired}`,
+  )
+
+const formatNegatedRelationships = (negated: NegatedRelationship[] = []) =>
+  negated.map((rel) => `Not stored, the text denies it: ${rel.source} -[${rel.type}]-> ${rel.target}`)
+
+const formatMergedEntities = (mergedEntities: MergedEntity[] = []) =>
+  mergedEntities.map((merged) => `Merged "${merged.label}" into "${merged.into}"`)
+
+// Only calls that needed repair or lost items are worth a status line
+const formatExtractionDiagnostics = (diagnostics: ExtractionDiagnostics[] = []) =>
+  diagnostics
+    .filter((call) => call.outcome !== "valid")
+    .map(
+      (call) =>
+        `LLM ${call.provider}: ${call.outcome} after ${call.attempts.length} attempt(s)` +
+        (call.droppedItems > 0 ? `, dropped ${call.droppedItems} invalid item(s)` : "") +
+        (call.error ? ` (${call.error})` : ""),
+    )
+
 export default function KnowledgeGraphBuilder() {
   const [textInput, setTextInput] = useState("")
   const [isProcessing, setIsProcessing] = useState(false)
   const [graphData, setGraphData] = useState<GraphData>({ entities: [], relationships: [] })
   const [processingStatus, setProcessingStatus] = useState<string[]>([])
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [clearBeforeProcessing, setClearBeforeProcessing] = useState(true)
+  const [clearBeforeProcessing, setClearBeforeProcessing] = useState(false)
+  const [workspace, setWorkspace] = useState("default")
+  // Empty means the server's default extractor pipeline
+  const [extractor, setExtractor] = useState("")
+  const [typeColors, setTypeColors] = useState<Record<string, string>>({})
+  const [historyVersion, setHistoryVersion] = useState(0)
+  // ISO date; empty shows every relationship regardless of when it held
+  const [asOf, setAsOf] = useState("")
   const fileInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
 
+  useEffect(() => {
+    const loadGraph = async () => {
+      try {
+        const response = await fetch(`/api/graph?workspace=${encodeURIComponent(workspace)}`)
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.details || result.error || "Failed to load graph")
+        }
+
+        setGraphData({
+          entities: result.entities || [],
+          relationships: result.relationships || [],
+        })
+      } catch (error) {
+        setGraphData({ entities: [], relationships: [] })
+        toast({
+          title: "Failed to load workspace",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive",
+        })
+      }
+    }
+
+    loadGraph()
+  }, [workspace, toast])
+
+  // Filtered here rather than by /api/graph?asOf= so graphs returned by processing, undo and merge are filtered too
+  const visibleGraph = asOf
+    ? { ...graphData, relationships: graphData.relationships.filter((r) => isValidAt(r.properties, asOf)) }
+    : graphData
+
+  // Undo and merge change the graph outside of processing; refresh the side panels too
+  const applyGraphChange = (graph: GraphData) => {
+    setGraphData(graph)
+    setHistoryVersion((version) => version + 1)
+  }
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
@@ -73,6 +203,10 @@ export default function KnowledgeGraphBuilder() {
 
       const response = await fetch("/api/clear-graph", {
         method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ workspace }),
       })
 
       if (response.ok) {
@@ -80,7 +214,7 @@ export default function KnowledgeGraphBuilder() {
         setProcessingStatus(["Graph cleared successfully!"])
         toast({
           title: "Graph cleared",
-          description: "All previous data has been removed",
+          description: `All data in workspace "${workspace}" has been removed`,
         })
       } else {
         throw new Error("Failed to clear graph")
@@ -93,6 +227,7 @@ export default function KnowledgeGraphBuilder() {
       })
     } finally {
       setIsProcessing(false)
+      setHistoryVersion((version) => version + 1)
     }
   }
 
@@ -109,15 +244,17 @@ export default function KnowledgeGraphBuilder() {
         body: JSON.stringify({
           text,
           clearBefore: clearBeforeProcessing,
+          workspace,
+          extractor: extractor || undefined,
         }),
       })
 
+      const result = await response.json()
+
       if (!response.ok) {
-        throw new Error("Failed to process text")
+        throw new Error(result.details || result.error || "Failed to process text")
       }
 
-      const result = await response.json()
-
       // Update the graph data
       setGraphData({
         entities: result.entities || [],
@@ -128,7 +265,20 @@ export default function KnowledgeGraphBuilder() {
         "Text processing completed!",
         `Extracted ${result.entitiesCount} entities`,
         `Created ${result.relationshipsCount} relationships`,
-        `Processing method: ${result.processingMethod || "hybrid"}`,
+        ...(result.statistics?.inferredRelationships
+          ? [`Inferred ${result.statistics.inferredRelationships} relationships from ontology rules`]
+          : []),
+        ...(result.statistics?.literalAttributes
+          ? [`Stored ${result.statistics.literalAttributes} values as attributes instead of nodes`]
+          : []),
+        `Processing method: ${result.processingMethod || "unknown"}`,
+        ...formatNormalizedTypes(result.normalizedTypes),
+        ...formatRejectedTypes(result.rejectedTypes),
+        ...formatConstraintViolations(result.constraintViolations),
+        ...formatNegatedRelationships(result.negatedRelationships),
+        ...formatMergedEntities(result.mergedEntities),
+        ...formatExtractionDiagnostics(result.extractionDiagnostics),
+        ...(result.warnings || []).map((warning: string) => `Warning: ${warning}`),
       ])
 
       toast({
@@ -144,6 +294,7 @@ export default function KnowledgeGraphBuilder() {
       })
     } finally {
       setIsProcessing(false)
+      setHistoryVersion((version) => version + 1)
     }
   }
 
@@ -156,6 +307,8 @@ export default function KnowledgeGraphBuilder() {
     const formData = new FormData()
     formData.append("file", selectedFile)
     formData.append("clearBefore", clearBeforeProcessing.toString())
+    formData.append("workspace", workspace)
+    if (extractor) formData.append("extractor", extractor)
 
     try {
       const response = await fetch("/api/process-file", {
@@ -163,12 +316,12 @@ export default function KnowledgeGraphBuilder() {
         body: formData,
       })
 
+      const result = await response.json()
+
       if (!response.ok) {
-        throw new Error("Failed to process file")
+        throw new Error(result.details || result.error || "Failed to process file")
       }
 
-      const result = await response.json()
-
       // Update the graph data
       setGraphData({
         entities: result.entities || [],
@@ -180,7 +333,20 @@ export default function KnowledgeGraphBuilder() {
         `File: ${result.fileInfo?.name}`,
         `Extracted ${result.entitiesCount} entities`,
         `Created ${result.relationshipsCount} relationships`,
-        `Processing method: ${result.processingMethod || "hybrid"}`,
+        ...(result.statistics?.inferredRelationships
+          ? [`Inferred ${result.statistics.inferredRelationships} relationships from ontology rules`]
+          : []),
+        ...(result.statistics?.literalAttributes
+          ? [`Stored ${result.statistics.literalAttributes} values as attributes instead of nodes`]
+          : []),
+        `Processing method: ${result.processingMethod || "unknown"}`,
+        ...formatNormalizedTypes(result.normalizedTypes),
+        ...formatRejectedTypes(result.rejectedTypes),
+        ...formatConstraintViolations(result.constraintViolations),
+        ...formatNegatedRelationships(result.negatedRelationships),
+        ...formatMergedEntities(result.mergedEntities),
+        ...formatExtractionDiagnostics(result.extractionDiagnostics),
+        ...(result.warnings || []).map((warning: string) => `Warning: ${warning}`),
       ])
 
       toast({
@@ -191,11 +357,12 @@ export default function KnowledgeGraphBuilder() {
       setProcessingStatus(["Processing failed: " + (error instanceof Error ? error.message : "Unknown error")])
       toast({
         title: "File processing failed",
-        description: "An error occurred while processing the file",
+        description: error instanceof Error ? error.message : "An error occurred while processing the file",
         variant: "destructive",
       })
     } finally {
       setIsProcessing(false)
+      setHistoryVersion((version) => version + 1)
       setSelectedFile(null)
       if (fileInputRef.current) {
         fileInputRef.current.value = ""
@@ -235,22 +402,32 @@ export default function KnowledgeGraphBuilder() {
                     Processing Settings
                   </CardTitle>
                 </CardHeader>
-                <CardContent className="pt-0">
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      id="clear-before"
-                      checked={clearBeforeProcessing}
-                      onCheckedChange={setClearBeforeProcessing}
-                    />
-                    <Label htmlFor="clear-before" className="text-sm">
-                      Clear existing data before processing
-                    </Label>
+                <CardContent className="pt-0 space-y-4">
+                  <WorkspaceSwitcher workspace={workspace} onWorkspaceChange={setWorkspace} disabled={isProcessing} />
+                  <ExtractorSelect extractor={extractor} onExtractorChange={setExtractor} disabled={isProcessing} />
+                  <OntologyEditor
+                    workspace={workspace}
+                    onColorsChange={setTypeColors}
+                    onGraphChange={applyGraphChange}
+                    disabled={isProcessing}
+                  />
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="clear-before"
+                        checked={clearBeforeProcessing}
+                        onCheckedChange={setClearBeforeProcessing}
+                      />
+                      <Label htmlFor="clear-before" className="text-sm">
+                        Clear existing data before processing
+                      </Label>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {clearBeforeProcessing
+                        ? "New data will replace existing graph"
+                        : "New data will be added to existing graph"}
+                    </p>
                   </div>
-                  <p className="text-xs text-gray-500 mt-1">
-                    {clearBeforeProcessing
-                      ? "New data will replace existing graph"
-                      : "New data will be added to existing graph"}
-                  </p>
                 </CardContent>
               </Card>
 
@@ -336,19 +513,52 @@ Example: 'John works at Google and lives in California. He is friends with Sarah
               {(isProcessing || processingStatus.length > 0) && (
                 <ProcessingStatus status={processingStatus} isProcessing={isProcessing} />
               )}
+
+              {/* Ingestion History */}
+              <IngestionHistory
+                workspace={workspace}
+                refreshKey={historyVersion}
+                onUndone={applyGraphChange}
+                disabled={isProcessing}
+              />
+
+              {/* Merge Suggestions */}
+              <MergeSuggestions
+                workspace={workspace}
+                refreshKey={historyVersion}
+                onMerged={applyGraphChange}
+                disabled={isProcessing}
+              />
             </CardContent>
           </Card>
 
           {/* Right Panel - Graph Visualization */}
           <Card className="bg-green-50 border-green-200">
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle className="flex items-center gap-2 text-green-700">
                 <Database className="h-5 w-5" />
                 Knowledge Graph Visualization
               </CardTitle>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="as-of" className="text-sm">
+                  As of
+                </Label>
+                <Input
+                  id="as-of"
+                  type="date"
+                  value={asOf}
+                  onChange={(e) => setAsOf(e.target.value)}
+                  className="h-8 w-40"
+                />
+              </div>
             </CardHeader>
             <CardContent className="h-full">
-              <GraphVisualization data={graphData} isProcessing={isProcessing} />
+              <GraphVisualization
+                data={visibleGraph}
+                isProcessing={isProcessing}
+                workspace={workspace}
+                typeColors={typeColors}
+              />
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,72 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+
+// Radix Select does not allow empty values, so the server default gets a placeholder value
+const DEFAULT_OPTION = "__default__"
+
+interface ExtractorInfo {
+  name: string
+  description: string
+  available: boolean
+}
+
+interface ExtractorSelectProps {
+  // Empty string means the server's default pipeline
+  extractor: string
+  onExtractorChange: (extractor: string) => void
+  disabled?: boolean
+}
+
+export default function ExtractorSelect({ extractor, onExtractorChange, disabled }: ExtractorSelectProps) {
+  const [extractors, setExtractors] = useState<ExtractorInfo[]>([])
+  const [defaultPipeline, setDefaultPipeline] = useState("")
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const loadExtractors = async () => {
+      try {
+        const response = await fetch("/api/extractors")
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.details || result.error)
+        setExtractors(result.extractors || [])
+        setDefaultPipeline(result.defaultPipeline || "")
+      } catch (error) {
+        toast({
+          title: "Failed to load extractors",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive",
+        })
+      }
+    }
+
+    loadExtractors()
+  }, [toast])
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm">Extractor</Label>
+      <Select
+        value={extractor || DEFAULT_OPTION}
+        onValueChange={(value) => onExtractorChange(value === DEFAULT_OPTION ? "" : value)}
+        disabled={disabled}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select extractor" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_OPTION}>Default pipeline{defaultPipeline && ` (${defaultPipeline})`}</SelectItem>
+          {extractors.map((ex) => (
+            <SelectItem key={ex.name} value={ex.name} disabled={!ex.available}>
+              {ex.name} — {ex.description}
+              {!ex.available && " (not configured)"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -27,11 +27,39 @@ interface GraphData {
   relationships: Relationship[]
 }
 
+interface Evidence {
+  runId: string | null
+  document: string | null
+  sentence: string
+  extractor: string | null
+  confidence: number
+  page?: number
+  modality?: string
+}
+
+interface Mention {
+  document: { id: string; name: string }
+  start: number
+  end: number
+  sentence: string
+  page?: number
+}
+
 interface GraphVisualizationProps {
   data: GraphData
   isProcessing: boolean
+  workspace: string
+  // Entity type -> color from the workspace ontology
+  typeColors?: Record<string, string>
 }
 
+const DEFAULT_NODE_COLOR = "#6B7280"
+const EDGE_COLOR = "#6B7280"
+// Derived by an ontology rule rather than extracted
+const INFERRED_EDGE_COLOR = "#A5B4FC"
+// Only stated as possible ("might acquire") or second-hand ("reportedly owns")
+const UNCERTAIN_EDGE_DASH = [6, 4]
+
 interface Node extends Entity {
   x: number
   y: number
@@ -40,12 +68,22 @@ interface Node extends Entity {
   radius: number
 }
 
-export default function GraphVisualization({ data, isProcessing }: GraphVisualizationProps) {
+export default function GraphVisualization({
+  data,
+  isProcessing,
+  workspace,
+  typeColors = {},
+}: GraphVisualizationProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [selectedNode, setSelectedNode] = useState<Entity | null>(null)
+  const [selectedEdge, setSelectedEdge] = useState<Relationship | null>(null)
+  const [mentions, setMentions] = useState<Mention[]>([])
   const [stats, setStats] = useState({ entities: 0, relationships: 0 })
   const [nodes, setNodes] = useState<Node[]>([])
   const animationRef = useRef<number>()
+  // Read by the running animation loop, so an ontology change recolors nodes without a new layout
+  const typeColorsRef = useRef(typeColors)
+  typeColorsRef.current = typeColors
 
   useEffect(() => {
     setStats({
@@ -54,6 +92,24 @@ export default function GraphVisualization({ data, isProcessing }: GraphVisualiz
     })
   }, [data])
 
+  // Load which documents mention the selected node
+  useEffect(() => {
+    setMentions([])
+    if (!selectedNode) return
+
+    let cancelled = false
+    fetch(`/api/entities/${encodeURIComponent(selectedNode.id)}/mentions?workspace=${encodeURIComponent(workspace)}`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (!cancelled) setMentions(result.mentions || [])
+      })
+      .catch((error) => console.error("Failed to load mentions:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedNode, workspace])
+
   useEffect(() => {
     const canvas = canvasRef.current
     if (!canvas) return
@@ -145,14 +201,16 @@ export default function GraphVisualization({ data, isProcessing }: GraphVisualiz
       }
 
       // Draw relationships
-      ctx.strokeStyle = "#6B7280"
       ctx.lineWidth = 2
       links.forEach((link) => {
         if (link.source && link.target) {
+          ctx.strokeStyle = link.properties?.inferred ? INFERRED_EDGE_COLOR : EDGE_COLOR
+          ctx.setLineDash(isUncertain(link) ? UNCERTAIN_EDGE_DASH : [])
           ctx.beginPath()
           ctx.moveTo(link.source.x, link.source.y)
           ctx.lineTo(link.target.x, link.target.y)
           ctx.stroke()
+          ctx.setLineDash([])
 
           // Draw relationship label
           const midX = (link.source.x + link.target.x) / 2
@@ -160,7 +218,8 @@ export default function GraphVisualization({ data, isProcessing }: GraphVisualiz
           ctx.fillStyle = "#374151"
           ctx.font = "12px Inter, sans-serif"
           ctx.textAlign = "center"
-          ctx.fillText(link.type, midX, midY - 5)
+          // RELATED_TO edges read better as the verb they were extracted from
+          ctx.fillText(link.properties?.verb || link.type, midX, midY - 5)
         }
       })
 
@@ -194,20 +253,7 @@ export default function GraphVisualization({ data, isProcessing }: GraphVisualiz
     }
   }, [data])
 
-  const getNodeColor = (type: string) => {
-    const colors: Record<string, string> = {
-      PERSON: "#3B82F6",
-      ORGANIZATION: "#10B981",
-      LOCATION: "#F59E0B",
-      EVENT: "#EF4444",
-      CONCEPT: "#8B5CF6",
-      FOOD: "#F97316",
-      TECHNOLOGY: "#06B6D4",
-      OBJECT: "#84CC16",
-      default: "#6B7280",
-    }
-    return colors[type] || colors.default
-  }
+  const getNodeColor = (type: string) => typeColorsRef.current[type] || DEFAULT_NODE_COLOR
 
   const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current
@@ -224,8 +270,22 @@ export default function GraphVisualization({ data, isProcessing }: GraphVisualiz
     })
 
     setSelectedNode(clickedNode || null)
+
+    // Otherwise pick the relationship line closest to the click, if any is near enough
+    const clickedEdge = clickedNode
+      ? undefined
+      : data.relationships.find((rel) => {
+          const source = nodes.find((node) => node.id === rel.source)
+          const target = nodes.find((node) => node.id === rel.target)
+          return source && target && distanceToSegment(x, y, source, target) <= 6
+        })
+
+    setSelectedEdge(clickedEdge || null)
   }
 
+  const labelOf = (id: string) => data.entities.find((entity) => entity.id === id)?.label || id
+  const edgeEvidence: Evidence[] = selectedEdge?.properties.evidence || []
+
   return (
     <div className="h-full flex flex-col">
       {/* Stats Bar */}
@@ -261,19 +321,175 @@ export default function GraphVisualization({ data, isProcessing }: GraphVisualiz
           <Card className="absolute top-4 right-4 p-4 max-w-xs">
             <h3 className="font-semibold text-lg">{selectedNode.label}</h3>
             <Badge className="mb-2">{selectedNode.type}</Badge>
-            {Object.entries(selectedNode.properties).length > 0 && (
+            {attributesOf(selectedNode).length > 0 && (
+              <div className="space-y-1 mb-2">
+                <h4 className="font-medium text-sm">Attributes:</h4>
+                {attributesOf(selectedNode).map(([name, value]) => (
+                  <div key={name} className="text-xs">
+                    <span className="font-medium">{name}:</span> {value}
+                  </div>
+                ))}
+              </div>
+            )}
+            {otherProperties(selectedNode).length > 0 && (
               <div className="space-y-1">
                 <h4 className="font-medium text-sm">Properties:</h4>
-                {Object.entries(selectedNode.properties).map(([key, value]) => (
+                {otherProperties(selectedNode).map(([key, value]) => (
                   <div key={key} className="text-xs">
                     <span className="font-medium">{key}:</span> {String(value)}
                   </div>
                 ))}
               </div>
             )}
+            {mentions.length > 0 && (
+              <div className="space-y-1 mt-2 max-h-48 overflow-y-auto">
+                <h4 className="font-medium text-sm">Mentioned in:</h4>
+                {mentions.map((mention) => (
+                  <div key={`${mention.document.id}-${mention.start}`} className="text-xs">
+                    <span className="font-medium">
+                      {mention.document.name}
+                      {mention.page !== undefined && ` (p. ${mention.page})`}:
+                    </span>{" "}
+                    <span className="text-gray-600">{mention.sentence}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        )}
+
+        {/* Relationship Details Panel */}
+        {selectedEdge && (
+          <Card className="absolute top-4 right-4 p-4 max-w-sm">
+            <h3 className="font-semibold text-sm">
+              {labelOf(selectedEdge.source)} → {labelOf(selectedEdge.target)}
+            </h3>
+            <Badge className="mb-2">{selectedEdge.type}</Badge>
+            <div className="text-xs space-y-1">
+              <div>
+                <span className="font-medium">Confidence:</span>{" "}
+                {Math.round((selectedEdge.properties.confidence ?? 0) * 100)}%
+              </div>
+              {isUncertain(selectedEdge) && (
+                <div>
+                  <span className="font-medium">Stated as:</span>{" "}
+                  {selectedEdge.properties.modality === "reported" ? "reported, second-hand" : "possible, hedged"}
+                </div>
+              )}
+              {attributesOf(selectedEdge).map(([name, value]) => (
+                <div key={name}>
+                  <span className="font-medium">{name}:</span> {value}
+                </div>
+              ))}
+              {validity(selectedEdge) && (
+                <div>
+                  <span className="font-medium">Valid:</span> {validity(selectedEdge)}
+                </div>
+              )}
+              {selectedEdge.properties.inferred ? (
+                <>
+                  <div>
+                    <span className="font-medium">Inferred by:</span> {selectedEdge.properties.rule}
+                  </div>
+                  <div className="font-medium">From:</div>
+                  {(selectedEdge.properties.premises || []).map((premise: string) => {
+                    const [source, type, target] = premise.split("|")
+                    return (
+                      <div key={premise} className="border-l-2 border-indigo-200 pl-2 text-gray-600">
+                        {labelOf(source)} -[{type}]-&gt; {labelOf(target)}
+                      </div>
+                    )
+                  })}
+                </>
+              ) : (
+                <div>
+                  <span className="font-medium">Supported by:</span> {selectedEdge.properties.support_count ?? 0}{" "}
+                  {selectedEdge.properties.support_count === 1 ? "document" : "documents"}
+                </div>
+              )}
+            </div>
+            {edgeEvidence.length > 0 && (
+              <div className="space-y-2 mt-2 max-h-56 overflow-y-auto">
+                <h4 className="font-medium text-sm">Evidence:</h4>
+                {edgeEvidence.map((evidence, index) => (
+                  <div key={index} className="text-xs border-l-2 border-gray-300 pl-2">
+                    <div className="text-gray-600">&ldquo;{evidence.sentence || "No sentence recorded"}&rdquo;</div>
+                    <div className="text-gray-500">
+                      {evidence.document || "Unknown source"}
+                      {evidence.page !== undefined && `, p. ${evidence.page}`}
+                      {evidence.extractor && ` · ${evidence.extractor}`}
+                      {evidence.modality && evidence.modality !== "certain" && ` · ${evidence.modality}`} ·{" "}
+                      {Math.round(evidence.confidence * 100)}%
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </Card>
         )}
       </div>
     </div>
   )
 }
+
+// Typed attributes as [name, display value], e.g. ["market cap", "$3T"], then unnamed qualities
+function attributesOf(owner: { properties?: Record<string, any> }): [string, string][] {
+  const properties = owner.properties || {}
+  const named: [string, string][] = (properties.attribute_keys || []).map((key: string) => [
+    key.replace(/_/g, " "),
+    formatAttribute(properties[key], properties[`${key}_currency`], properties[`${key}_unit`]),
+  ])
+  const qualities: [string, string][] = (properties.attributes || []).map((quality: string) => ["is", quality])
+  return [...named, ...qualities]
+}
+
+// The properties that are not attributes (nor an attribute's currency or unit)
+function otherProperties(owner: { properties?: Record<string, any> }): [string, any][] {
+  const properties = owner.properties || {}
+  const keys: string[] = properties.attribute_keys || []
+  const hidden = new Set([
+    "attributes",
+    "attribute_keys",
+    ...keys.flatMap((key) => [key, `${key}_currency`, `${key}_unit`]),
+  ])
+  return Object.entries(properties).filter(([key]) => !hidden.has(key))
+}
+
+function formatAttribute(value: unknown, currency?: string, unit?: string): string {
+  if (typeof value === "number" && currency) {
+    try {
+      return new Intl.NumberFormat(undefined, { style: "currency", currency, notation: "compact" }).format(value)
+    } catch {
+      return `${value} ${currency}`
+    }
+  }
+  if (unit === "%") return `${value}%`
+  return unit ? `${value} ${unit}` : String(value)
+}
+
+// "1997-01-01 – 2011-12-31", "from 2015-05-01", "until 2020-12-31" or "as of 1976-01-01"; null without qualifiers
+function validity(relationship: { properties?: Record<string, any> }): string | null {
+  const { valid_from, valid_to, as_of } = relationship.properties || {}
+  if (valid_from && valid_to) return `${valid_from} – ${valid_to}`
+  if (valid_from) return `from ${valid_from}`
+  if (valid_to) return `until ${valid_to}`
+  return as_of ? `as of ${as_of}` : null
+}
+
+function isUncertain(relationship: { properties?: Record<string, any> }): boolean {
+  const modality = relationship.properties?.modality
+  return modality === "possible" || modality === "reported"
+}
+
+function distanceToSegment(
+  x: number,
+  y: number,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+): number {
+  const dx = to.x - from.x
+  const dy = to.y - from.y
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - from.x) * dx + (y - from.y) * dy) / lengthSquared))
+  return Math.hypot(x - (from.x + t * dx), y - (from.y + t * dy))
+}
@@ -0,0 +1,166 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { History, Undo2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+interface IngestionRun {
+  id: string
+  source: string
+  status: "completed" | "failed" | "undone"
+  startedAt: string
+  completedAt: string | null
+  entityCount: number
+  relationshipCount: number
+  error?: string
+}
+
+interface GraphData {
+  entities: any[]
+  relationships: any[]
+}
+
+interface IngestionHistoryProps {
+  workspace: string
+  // Bump to reload the history, e.g. after processing
+  refreshKey: number
+  onUndone: (graphData: GraphData) => void
+  disabled?: boolean
+}
+
+const STATUS_VARIANTS = {
+  completed: "default",
+  failed: "destructive",
+  undone: "secondary",
+} as const
+
+export default function IngestionHistory({ workspace, refreshKey, onUndone, disabled }: IngestionHistoryProps) {
+  const [runs, setRuns] = useState<IngestionRun[]>([])
+  const [pendingUndo, setPendingUndo] = useState<IngestionRun | null>(null)
+  const [isUndoing, setIsUndoing] = useState(false)
+  const { toast } = useToast()
+
+  const loadRuns = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/ingestions?workspace=${encodeURIComponent(workspace)}`)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setRuns(result.ingestions || [])
+    } catch (error) {
+      setRuns([])
+      toast({
+        title: "Failed to load ingestion history",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    }
+  }, [workspace, toast])
+
+  useEffect(() => {
+    loadRuns()
+  }, [loadRuns, refreshKey])
+
+  const undoRun = async (run: IngestionRun) => {
+    setIsUndoing(true)
+    try {
+      const response = await fetch(
+        `/api/ingestions/${encodeURIComponent(run.id)}?workspace=${encodeURIComponent(workspace)}`,
+        { method: "DELETE" },
+      )
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+
+      onUndone({ entities: result.entities || [], relationships: result.relationships || [] })
+      toast({
+        title: "Ingestion undone",
+        description: `Removed ${result.deletedEntities} entities and ${result.deletedRelationships} relationships from "${run.source}"`,
+      })
+      await loadRuns()
+    } catch (error) {
+      toast({
+        title: "Undo failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUndoing(false)
+      setPendingUndo(null)
+    }
+  }
+
+  return (
+    <Card className="bg-white border-gray-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Ingestion History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {runs.length === 0 ? (
+          <p className="text-xs text-gray-500">Nothing has been ingested into this workspace yet.</p>
+        ) : (
+          <ul className="max-h-48 overflow-y-auto divide-y">
+            {runs.map((run) => (
+              <li key={run.id} className="flex items-center justify-between gap-2 py-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate" title={run.source}>
+                      {run.source}
+                    </span>
+                    <Badge variant={STATUS_VARIANTS[run.status]} className="text-xs">
+                      {run.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500" title={run.error}>
+                    {new Date(run.startedAt).toLocaleString()} · {run.entityCount} entities ·{" "}
+                    {run.relationshipCount} relationships
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Remove everything this ingestion contributed"
+                  onClick={() => setPendingUndo(run)}
+                  disabled={disabled || isUndoing || run.status !== "completed"}
+                >
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Undo
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <AlertDialog open={pendingUndo !== null} onOpenChange={(open) => !open && setPendingUndo(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Undo ingestion of "{pendingUndo?.source}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Relationships and entities that only this ingestion contributed will be deleted. Entities also
+              mentioned by other ingestions are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingUndo && undoRun(pendingUndo)}>Undo</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,174 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { GitMerge, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+interface Entity {
+  id: string
+  label: string
+  type: string
+}
+
+interface MergeSuggestion {
+  id: string
+  entityId: string
+  candidateId: string
+  score: number
+  reasons: Record<string, number>
+  entity: Entity
+  candidate: Entity
+}
+
+interface GraphData {
+  entities: any[]
+  relationships: any[]
+}
+
+interface MergeSuggestionsProps {
+  workspace: string
+  // Bump to reload the suggestions, e.g. after processing
+  refreshKey: number
+  onMerged: (graphData: GraphData) => void
+  disabled?: boolean
+}
+
+const formatReasons = (reasons: Record<string, number>) =>
+  Object.entries(reasons)
+    .map(([reason, value]) => `${reason} ${Math.round(value * 100)}%`)
+    .join(", ")
+
+export default function MergeSuggestions({ workspace, refreshKey, onMerged, disabled }: MergeSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<MergeSuggestion[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const loadSuggestions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/merge-suggestions?workspace=${encodeURIComponent(workspace)}`)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setSuggestions(result.suggestions || [])
+    } catch (error) {
+      setSuggestions([])
+      toast({
+        title: "Failed to load merge suggestions",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    }
+  }, [workspace, toast])
+
+  useEffect(() => {
+    loadSuggestions()
+  }, [loadSuggestions, refreshKey])
+
+  // The longer label is usually the more complete name, so it survives
+  const mergeSuggestion = async (suggestion: MergeSuggestion) => {
+    const [survivor, merged] =
+      suggestion.candidate.label.length >= suggestion.entity.label.length
+        ? [suggestion.candidate, suggestion.entity]
+        : [suggestion.entity, suggestion.candidate]
+
+    setBusyId(suggestion.id)
+    try {
+      const response = await fetch("/api/entities/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspace, survivorId: survivor.id, mergedIds: [merged.id] }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+
+      onMerged({ entities: result.entities || [], relationships: result.relationships || [] })
+      toast({ title: "Entities merged", description: `"${merged.label}" was merged into "${survivor.label}"` })
+      await loadSuggestions()
+    } catch (error) {
+      toast({
+        title: "Merge failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const dismissSuggestion = async (suggestion: MergeSuggestion) => {
+    setBusyId(suggestion.id)
+    try {
+      const response = await fetch(
+        `/api/merge-suggestions/${encodeURIComponent(suggestion.id)}?workspace=${encodeURIComponent(workspace)}`,
+        { method: "DELETE" },
+      )
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setSuggestions((current) => current.filter((s) => s.id !== suggestion.id))
+    } catch (error) {
+      toast({
+        title: "Dismiss failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (suggestions.length === 0) return null
+
+  return (
+    <Card className="bg-white border-gray-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <GitMerge className="h-4 w-4" />
+          Possible Duplicates
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0">
+        <ul className="max-h-48 overflow-y-auto divide-y">
+          {suggestions.map((suggestion) => (
+            <li key={suggestion.id} className="flex items-center justify-between gap-2 py-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium truncate">
+                    {suggestion.entity.label} ≈ {suggestion.candidate.label}
+                  </span>
+                  <Badge variant="secondary" className="text-xs">
+                    {suggestion.entity.type}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500" title={formatReasons(suggestion.reasons)}>
+                  {Math.round(suggestion.score * 100)}% match
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Merge into one entity"
+                  onClick={() => mergeSuggestion(suggestion)}
+                  disabled={disabled || busyId !== null}
+                >
+                  <GitMerge className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Keep as separate entities"
+                  onClick={() => dismissSuggestion(suggestion)}
+                  disabled={disabled || busyId !== null}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,194 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { BookOpen } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+type OntologyFormat = "json" | "yaml"
+
+interface GraphData {
+  entities: any[]
+  relationships: any[]
+}
+
+interface OntologyEditorProps {
+  workspace: string
+  // Entity type -> display color, resolved through the type hierarchy; reported on load and after every change
+  onColorsChange: (colors: Record<string, string>) => void
+  // The graph after a save or reset, with inferred relationships derived under the new rules
+  onGraphChange: (graphData: GraphData) => void
+  disabled?: boolean
+}
+
+export default function OntologyEditor({ workspace, onColorsChange, onGraphChange, disabled }: OntologyEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [custom, setCustom] = useState(false)
+  const [typeCounts, setTypeCounts] = useState({ entities: 0, relationships: 0 })
+  const [format, setFormat] = useState<OntologyFormat>("yaml")
+  const [document, setDocument] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  const applyResult = useCallback(
+    (result: any) => {
+      setCustom(!!result.custom)
+      setTypeCounts({
+        entities: result.ontology?.entityTypes?.length || 0,
+        relationships: result.ontology?.relationshipTypes?.length || 0,
+      })
+      onColorsChange(result.colors || {})
+    },
+    [onColorsChange],
+  )
+
+  const loadOntology = useCallback(
+    async (documentFormat: OntologyFormat) => {
+      try {
+        const response = await fetch(
+          `/api/ontology?workspace=${encodeURIComponent(workspace)}&format=${documentFormat}`,
+        )
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.details || result.error)
+        applyResult(result)
+        setDocument(result.document || "")
+      } catch (error) {
+        toast({
+          title: "Failed to load ontology",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive",
+        })
+      }
+    },
+    [workspace, applyResult, toast],
+  )
+
+  useEffect(() => {
+    loadOntology(format)
+    // Reloads on workspace change; switching formats reloads the document itself
+  }, [loadOntology])
+
+  const changeFormat = (value: string) => {
+    const next = value as OntologyFormat
+    setFormat(next)
+    loadOntology(next)
+  }
+
+  const saveOntology = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/ontology", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspace, document, format }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+
+      applyResult(result)
+      onGraphChange({ entities: result.entities || [], relationships: result.relationships || [] })
+      setOpen(false)
+      toast({ title: "Ontology saved", description: `New extractions in "${workspace}" use the updated types` })
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const resetOntology = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/ontology?workspace=${encodeURIComponent(workspace)}`, { method: "DELETE" })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+
+      onGraphChange({ entities: result.entities || [], relationships: result.relationships || [] })
+      await loadOntology(format)
+      toast({ title: "Ontology reset", description: `"${workspace}" uses the default ontology again` })
+    } catch (error) {
+      toast({
+        title: "Reset failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm">Ontology</Label>
+      <div className="flex items-center gap-2">
+        <div className="flex-1 text-xs text-gray-500">
+          <Badge variant={custom ? "default" : "secondary"} className="mr-2 text-xs">
+            {custom ? "Custom" : "Default"}
+          </Badge>
+          {typeCounts.entities} entity types, {typeCounts.relationships} relationship types
+        </div>
+        <Button variant="outline" size="sm" title="Edit ontology" onClick={() => setOpen(true)} disabled={disabled}>
+          <BookOpen className="h-4 w-4 mr-1" />
+          Edit
+        </Button>
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Ontology for "{workspace}"</DialogTitle>
+            <DialogDescription>
+              Entity types may name a parent, color and description, and literal types (amounts, dates, qualities)
+              are stored as attributes rather than nodes; relationship types may restrict their domain
+              and range and be inverse, symmetric or transitive. Rules such as{" "}
+              <code>CEO_OF(x, y) -&gt; WORKS_AT(x, y)</code> derive further relationships. Extraction and validation
+              use only these types.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={format} onValueChange={changeFormat}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="yaml">YAML</SelectItem>
+              <SelectItem value="json">JSON</SelectItem>
+            </SelectContent>
+          </Select>
+          <Textarea
+            value={document}
+            onChange={(e) => setDocument(e.target.value)}
+            className="h-96 font-mono text-xs"
+            spellCheck={false}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={resetOntology} disabled={isSaving || !custom}>
+              Reset to default
+            </Button>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveOntology} disabled={isSaving || !document.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
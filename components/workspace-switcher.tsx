@@ -0,0 +1,220 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { FolderPlus, Pencil, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+const DEFAULT_WORKSPACE = "default"
+
+interface Workspace {
+  name: string
+  createdAt: string
+}
+
+interface WorkspaceSwitcherProps {
+  workspace: string
+  onWorkspaceChange: (workspace: string) => void
+  disabled?: boolean
+}
+
+type NameDialogMode = "create" | "rename" | null
+
+export default function WorkspaceSwitcher({ workspace, onWorkspaceChange, disabled }: WorkspaceSwitcherProps) {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [dialogMode, setDialogMode] = useState<NameDialogMode>(null)
+  const [nameInput, setNameInput] = useState("")
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const { toast } = useToast()
+
+  const loadWorkspaces = useCallback(async () => {
+    try {
+      const response = await fetch("/api/workspaces")
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+      setWorkspaces(result.workspaces || [])
+    } catch (error) {
+      toast({
+        title: "Failed to load workspaces",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    }
+  }, [toast])
+
+  useEffect(() => {
+    loadWorkspaces()
+  }, [loadWorkspaces])
+
+  const openDialog = (mode: NameDialogMode) => {
+    setNameInput(mode === "rename" ? workspace : "")
+    setDialogMode(mode)
+  }
+
+  const submitName = async () => {
+    const name = nameInput.trim()
+    if (!name) return
+
+    try {
+      const response =
+        dialogMode === "create"
+          ? await fetch("/api/workspaces", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ name }),
+            })
+          : await fetch(`/api/workspaces/${encodeURIComponent(workspace)}`, {
+              method: "PATCH",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ name }),
+            })
+
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+
+      setDialogMode(null)
+      await loadWorkspaces()
+      onWorkspaceChange(result.workspace.name)
+    } catch (error) {
+      toast({
+        title: dialogMode === "create" ? "Create failed" : "Rename failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const deleteWorkspace = async () => {
+    try {
+      const response = await fetch(`/api/workspaces/${encodeURIComponent(workspace)}`, { method: "DELETE" })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.details || result.error)
+
+      toast({ title: "Workspace deleted", description: `"${workspace}" and its graph were removed` })
+      await loadWorkspaces()
+      onWorkspaceChange(DEFAULT_WORKSPACE)
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      })
+    } finally {
+      setConfirmDelete(false)
+    }
+  }
+
+  const isDefault = workspace === DEFAULT_WORKSPACE
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm">Workspace</Label>
+      <div className="flex items-center gap-2">
+        <Select value={workspace} onValueChange={onWorkspaceChange} disabled={disabled}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Select workspace" />
+          </SelectTrigger>
+          <SelectContent>
+            {workspaces.map((ws) => (
+              <SelectItem key={ws.name} value={ws.name}>
+                {ws.name}
+              </SelectItem>
+            ))}
+            {!workspaces.some((ws) => ws.name === workspace) && (
+              <SelectItem value={workspace}>{workspace}</SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          title="New workspace"
+          onClick={() => openDialog("create")}
+          disabled={disabled}
+        >
+          <FolderPlus className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Rename workspace"
+          onClick={() => openDialog("rename")}
+          disabled={disabled || isDefault}
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Delete workspace"
+          onClick={() => setConfirmDelete(true)}
+          disabled={disabled || isDefault}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialogMode === "create" ? "New workspace" : "Rename workspace"}</DialogTitle>
+            <DialogDescription>
+              Each workspace holds its own graph. Processing and clearing only affect the active workspace.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={nameInput}
+            onChange={(e) => setNameInput(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submitName()}
+            placeholder="Workspace name"
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogMode(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitName} disabled={!nameInput.trim()}>
+              {dialogMode === "create" ? "Create" : "Rename"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete workspace "{workspace}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All entities and relationships in this workspace will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteWorkspace}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,272 @@
+// Alias harvesting: other names an entity goes by in the same text, from acronyms in parentheses ("International
+// Business Machines (IBM)"), naming cues ("a.k.a. Woz"), appositives ("Alphabet, Google's parent,") and short
+// forms used later on ("Apple" for "Apple Inc.", "Jobs" for "Steve Jobs").
+
+interface Entity {
+  label: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+  aliases?: string[]
+}
+
+interface Relationship {
+  source: string
+  target: string
+}
+
+// A run of capitalized words, allowing "of", "and", "&" and "the" inside ("Bank of America")
+const NAME = "[A-Z][\\w&.'’-]*(?:\\s+(?:(?:of|and|the|for|de)\\s+)?(?:&\\s+)?[A-Z][\\w&.'’-]*)*"
+const NAMING_CUE =
+  "also\\s+known\\s+as|better\\s+known\\s+as|known\\s+as|a\\.k\\.a\\.?|aka|formerly(?:\\s+known\\s+as)?|nicknamed"
+
+// What directly follows a mention: "(IBM)", "(a.k.a. Woz)", ', a.k.a. "Woz"', ", Google's parent,"
+const PARENTHETICAL = new RegExp(
+  `^\\s*\\(\\s*(?:(${NAMING_CUE}|hereafter|or)\\s+)?["“']?([^()"“”']{1,60}?)["”']?\\s*\\)`,
+)
+const CUED = new RegExp(`^\\s*,?\\s*(?:${NAMING_CUE})\\s+["“]?(${NAME})["”]?`)
+const APPOSITIVE_AFTER = new RegExp(`^\\s*,\\s*(?:the\\s+)?(${NAME}['’]s(?:\\s+[a-z]+){1,3})\\s*(?=[,.;]|$)`)
+// What directly precedes one: "Google's parent, Alphabet"
+const APPOSITIVE_BEFORE = new RegExp(`(?:^|[,.;:]\\s*|\\b[Tt]he\\s+)(${NAME}['’]s(?:\\s+[a-z]+){1,3}),\\s*$`)
+
+const LEGAL_SUFFIX =
+  /^(.+?),?\s+(?:Inc\.?|Incorporated|Corp\.?|Corporation|Co\.|Ltd\.?|Limited|LLC|plc|PLC|GmbH|AG|S\.A\.|N\.V\.)$/
+const NAME_SUFFIX = /^(?:Jr\.?|Sr\.?|II|III|IV)$/
+const POSSESSIVE = /['’]s$/
+// "International Business Machines (IBM)", or with the parenthesis cut off by the extractor
+const LABEL_WITH_ALIAS = /^(.+?)\s*\(\s*([^()]+?)\s*\)?$/
+const ACRONYM_STOPWORDS = new Set(["of", "and", "the", "for", "de", "&"])
+
+// Adds aliases to the entities they were found for. An extracted entity that turns out to be another one's alias
+// (a separate "IBM") is folded into it, and relationships naming an alias are pointed at the entity's label.
+export function harvestAliases<E extends Entity, R extends Relationship>(
+  text: string,
+  extraction: { entities: E[]; relationships: R[] },
+): { entities: E[]; relationships: R[] } {
+  const entities = splitLabels(extraction.entities)
+  const found = new Map<E, string[]>()
+  const add = (entity: E, alias: string) => {
+    const names = found.get(entity) || []
+    if (alias.trim()) found.set(entity, [...names, alias.trim()])
+  }
+
+  for (const entity of entities) {
+    for (const alias of [...mentionAliases(text, entity.label), ...shortForms(text, entity, entities)]) {
+      add(entity, alias)
+    }
+  }
+
+  // An alias claimed by two entities identifies neither
+  const owners = new Map<string, Set<E>>()
+  for (const [entity, names] of found) {
+    for (const name of names) owners.set(name.toLowerCase(), (owners.get(name.toLowerCase()) || new Set()).add(entity))
+  }
+  // "International Business Machines" and "IBM" both extracted name each other; the longer label stays the entity's
+  const yields = (entity: E, name: string) =>
+    entities.some(
+      (other) =>
+        other.label.toLowerCase() === name.toLowerCase() &&
+        other.label.length > entity.label.length &&
+        (found.get(other) || []).some((alias) => alias.toLowerCase() === entity.label.toLowerCase()),
+    )
+  const withAliases = entities.map((entity) => {
+    const names = (found.get(entity) || []).filter(
+      (name) => owners.get(name.toLowerCase())!.size === 1 && !yields(entity, name),
+    )
+    if (names.length === 0) return entity
+    return { ...entity, aliases: aliasSet(entity.label, [...(entity.aliases || []), ...names]) }
+  })
+
+  return foldAliasEntities(withAliases, extraction.relationships)
+}
+
+// Aliases as a set: trimmed, without the label itself, and one spelling per name regardless of case
+export function aliasSet(label: string, aliases: unknown): string[] {
+  const seen = new Set([label.trim().toLowerCase()])
+  const result: string[] = []
+  for (const alias of Array.isArray(aliases) ? aliases : []) {
+    if (typeof alias !== "string") continue
+    const name = alias.trim()
+    if (!name || seen.has(name.toLowerCase())) continue
+    seen.add(name.toLowerCase())
+    result.push(name)
+  }
+  return result
+}
+
+// Whether acronym abbreviates name: "IBM" for "International Business Machines", "BofA" is not matched
+export function isAcronymOf(acronym: string, name: string): boolean {
+  const letters = acronym.replace(/\./g, "")
+  if (letters.length < 2 || !/^[A-Z][A-Z0-9&]*$/.test(letters)) return false
+
+  const words = name.split(/[\s-]+/).filter(Boolean)
+  const initials = (list: string[]) => list.map((word) => word[0].toUpperCase()).join("")
+  return (
+    initials(words.filter((word) => !ACRONYM_STOPWORDS.has(word.toLowerCase()))) === letters.replace(/&/g, "") ||
+    initials(words) === letters
+  )
+}
+
+// Aliases written next to a mention of label
+function mentionAliases(text: string, label: string): string[] {
+  const aliases: string[] = []
+
+  for (const { start, end } of occurrences(text, label)) {
+    const after = text.slice(end, end + 120)
+    const before = text.slice(Math.max(0, start - 120), start)
+
+    const parenthetical = after.match(PARENTHETICAL)
+    if (parenthetical) {
+      const [, cue, candidate] = parenthetical
+      if (cue || isAcronymOf(candidate, label) || isShortFormOf(candidate, label)) aliases.push(candidate)
+    }
+
+    const cued = after.match(CUED)
+    if (cued) aliases.push(cued[1])
+
+    const appositive = after.match(APPOSITIVE_AFTER) || before.match(APPOSITIVE_BEFORE)
+    if (appositive) aliases.push(appositive[1])
+
+    // "(IBM)" extracted on its own: the long form is the words just before the parenthesis
+    const longForm = before.match(new RegExp(`(${NAME})\\s*\\(\\s*$`))
+    if (longForm && text.slice(end).match(/^\s*\)/)) {
+      const words = longForm[1].split(/\s+/)
+      for (let count = 1; count <= words.length; count++) {
+        const candidate = words.slice(-count).join(" ")
+        if (isAcronymOf(label, candidate)) {
+          aliases.push(candidate)
+          break
+        }
+      }
+    }
+  }
+
+  return aliases
+}
+
+// Shorter names the text uses on their own: the name without its legal suffix, an acronym of it, or a person's
+// surname, as long as no other entity could be meant
+function shortForms<E extends Entity>(text: string, entity: E, entities: E[]): string[] {
+  const candidates: string[] = []
+  const words = entity.label.split(/\s+/)
+
+  const withoutSuffix = entity.label.match(LEGAL_SUFFIX)?.[1]
+  if (withoutSuffix) candidates.push(withoutSuffix)
+
+  if (entity.type === "PERSON" && words.length > 1) {
+    const surname = [...words].reverse().find((word) => !NAME_SUFFIX.test(word))
+    if (surname && surname !== words[0]) candidates.push(surname)
+  }
+
+  for (const match of text.matchAll(/\b[A-Z][A-Z0-9&.]{1,9}\b/g)) {
+    if (match[0] !== entity.label && isAcronymOf(match[0], entity.label)) candidates.push(match[0])
+  }
+
+  return candidates.filter((candidate) => {
+    const lower = candidate.toLowerCase()
+    const ambiguous = entities.some(
+      (other) =>
+        other !== entity &&
+        other.label.toLowerCase() !== lower &&
+        other.label.split(/\s+/).some((word) => word.toLowerCase() === lower),
+    )
+    // Mentioned somewhere other than inside the full name
+    const standalone = occurrences(text, candidate).some(
+      ({ start }) => !occurrences(text, entity.label).some((full) => start >= full.start && start < full.end),
+    )
+    return !ambiguous && standalone
+  })
+}
+
+// Labels that carry another name are split: "International Business Machines (IBM)" becomes its long form with
+// IBM as an alias. "Google's" extracted beside "Google" is the same entity; on its own it is relabelled "Google".
+function splitLabels<E extends Entity>(entities: E[]): E[] {
+  const split = entities.map((entity) => {
+    const match = entity.label.match(LABEL_WITH_ALIAS)
+    if (!match) return entity
+    const [, label, alias] = match
+    if (!isAcronymOf(alias, label) && !isShortFormOf(alias, label)) return entity
+    return { ...entity, label, aliases: aliasSet(label, [...(entity.aliases || []), alias]) }
+  })
+
+  const byLabel = new Map(split.map((entity) => [entity.label.toLowerCase(), entity]))
+  return split.flatMap((entity) => {
+    if (!POSSESSIVE.test(entity.label)) return [entity]
+    const stem = entity.label.replace(POSSESSIVE, "")
+    if (byLabel.has(stem.toLowerCase())) return []
+    return [{ ...entity, label: stem }]
+  })
+}
+
+function foldAliasEntities<E extends Entity, R extends Relationship>(
+  entities: E[],
+  relationships: R[],
+): { entities: E[]; relationships: R[] } {
+  // An alias that is also an extracted label points at the alias's owner
+  const ownerOf = new Map<string, E>(entities.map((entity) => [entity.label.toLowerCase(), entity]))
+  for (const entity of entities) {
+    for (const alias of entity.aliases || []) ownerOf.set(alias.toLowerCase(), entity)
+  }
+  // "Google's" names Google too, and a label splitLabels took apart names its long form
+  const labelOf = (name: string) =>
+    [name, name.replace(POSSESSIVE, ""), name.match(LABEL_WITH_ALIAS)?.[1] ?? name]
+      .map((candidate) => ownerOf.get(candidate.toLowerCase())?.label)
+      .find(Boolean) ?? name
+
+  const folded = new Map<E, E[]>()
+  const kept = entities.filter((entity) => {
+    const owner = ownerOf.get(entity.label.toLowerCase())
+    if (!owner || owner === entity) return true
+    folded.set(owner, [...(folded.get(owner) || []), entity])
+    return false
+  })
+
+  const merged = kept.map((entity) => {
+    const absorbed = folded.get(entity) || []
+    if (absorbed.length === 0) return entity
+    return {
+      ...entity,
+      confidence: Math.max(entity.confidence, ...absorbed.map((other) => other.confidence)),
+      aliases: aliasSet(entity.label, [...(entity.aliases || []), ...absorbed.flatMap((o) => o.aliases || [])]),
+      properties: Object.assign({}, ...absorbed.map((other) => other.properties), entity.properties),
+    }
+  })
+
+  const named = merged.filter((entity) => (entity.aliases || []).length > 0)
+  if (named.length > 0) {
+    console.log("Harvested aliases:", named.map((entity) => `${entity.label} (${entity.aliases!.join(", ")})`))
+  }
+
+  return {
+    entities: merged,
+    relationships: relationships
+      .map((relationship) => ({
+        ...relationship,
+        source: labelOf(relationship.source),
+        target: labelOf(relationship.target),
+      }))
+      .filter((relationship) => relationship.source.toLowerCase() !== relationship.target.toLowerCase()),
+  }
+}
+
+// "Apple Inc. (Apple)", "Tesla Motors (Tesla)": the candidate's words all appear in the name, in order
+function isShortFormOf(candidate: string, name: string): boolean {
+  const short = candidate.toLowerCase().split(/\s+/)
+  const long = name.toLowerCase().split(/\s+/)
+  if (short.length >= long.length) return false
+  let position = 0
+  return short.every((word) => (position = long.indexOf(word, position) + 1) > 0)
+}
+
+// Case-sensitive whole-word occurrences of name, counting "name's" as one
+function occurrences(text: string, name: string): { start: number; end: number }[] {
+  const result: { start: number; end: number }[] = []
+  if (!name) return result
+  for (let start = text.indexOf(name); start !== -1; start = text.indexOf(name, start + 1)) {
+    const end = start + name.length
+    const before = text[start - 1]
+    const after = text[end]
+    if ((!before || !/[\w]/.test(before)) && (!after || !/[\w]/.test(after))) result.push({ start, end })
+  }
+  return result
+}
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { reconcileChunkResults } from "./chunked-extraction"
+
+function entity(label: string, type: string, confidence = 0.8) {
+  return { label, type, properties: {}, confidence }
+}
+
+function relationship(source: string, type: string, target: string) {
+  return { source, type, target, properties: {}, confidence: 0.8, context: "" }
+}
+
+test("chunk results merge same-named entities of compatible types only", () => {
+  const company = {
+    entities: [entity("Apple", "COMPANY"), entity("Tim Cook", "PERSON")],
+    relationships: [relationship("Tim Cook", "CEO_OF", "Apple")],
+  }
+  const fruit = {
+    entities: [entity("apple", "FOOD"), entity("Ada", "PERSON")],
+    relationships: [relationship("Ada", "EATS", "apple")],
+  }
+  const organization = { entities: [entity("Apple", "ORGANIZATION", 0.6)], relationships: [] }
+  const { entities, relationships } = reconcileChunkResults([company, fruit, organization])
+
+  assert.deepEqual(entities.map((e) => `${e.label} ${e.type}`).sort(), [
+    "Ada PERSON",
+    "Apple COMPANY",
+    "Tim Cook PERSON",
+    "apple FOOD",
+  ])
+  assert.deepEqual(relationships.map((rel) => `${rel.source} ${rel.type} ${rel.target}`).sort(), [
+    "Ada EATS apple",
+    "Tim Cook CEO_OF Apple",
+  ])
+})
@@ -0,0 +1,238 @@
+// Map-reduce extraction for long texts: sentence-aligned, overlapping chunks are extracted with bounded
+// concurrency and the per-chunk results are reconciled into one extraction.
+
+import { typeCompatibility } from "./entity-resolution"
+import { DEFAULT_ONTOLOGY, type Ontology } from "./ontology"
+
+interface Entity {
+  label: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+  aliases?: string[]
+}
+
+interface Relationship {
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+  context: string
+}
+
+interface ExtractionResult {
+  entities: Entity[]
+  relationships: Relationship[]
+}
+
+export interface TextChunk {
+  index: number
+  // Character offsets into the full text; text === fullText.slice(start, end)
+  start: number
+  end: number
+  text: string
+}
+
+export interface ChunkingOptions {
+  maxChars: number
+  // Sentences repeated at the start of the next chunk, so facts spanning a boundary are seen whole
+  overlapSentences: number
+  concurrency: number
+}
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+  maxChars: Number(process.env.EXTRACTION_CHUNK_CHARS) || 4000,
+  overlapSentences: Math.max(0, Number(process.env.EXTRACTION_CHUNK_OVERLAP ?? 2) || 0),
+  concurrency: Math.max(1, Number(process.env.EXTRACTION_CONCURRENCY) || 3),
+}
+
+// A period after these does not end a sentence
+const ABBREVIATION = /(?:^|[\s(])(?:[A-Z]|Mr|Mrs|Ms|Dr|Prof|Sr|Jr|St|Mt|Inc|Corp|Ltd|Co|vs|etc|e\.g|i\.e|No|Fig)\.$/
+
+// Sentence spans of the text; paragraph breaks also end a sentence
+export function splitSentences(text: string): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = []
+  const boundary = /([.!?]+["')\]]*)\s+|\n\s*\n/g
+  let start = 0
+  let match: RegExpExecArray | null
+
+  while ((match = boundary.exec(text))) {
+    const end = match.index + (match[1]?.length ?? 0)
+    if (match[1] === "." && ABBREVIATION.test(text.slice(start, end))) continue
+
+    if (text.slice(start, end).trim()) spans.push({ start, end })
+    start = match.index + match[0].length
+  }
+
+  if (text.slice(start).trim()) spans.push({ start, end: text.length })
+  return spans
+}
+
+export function chunkText(text: string, options: Pick<ChunkingOptions, "maxChars" | "overlapSentences">): TextChunk[] {
+  const sentences = splitSentences(text).flatMap((span) => splitLongSpan(text, span, options.maxChars))
+  const chunks: TextChunk[] = []
+  let first = 0
+
+  while (first < sentences.length) {
+    let last = first
+    while (last + 1 < sentences.length && sentences[last + 1].end - sentences[first].start <= options.maxChars) last++
+
+    const start = sentences[first].start
+    const end = sentences[last].end
+    chunks.push({ index: chunks.length, start, end, text: text.slice(start, end) })
+
+    if (last === sentences.length - 1) break
+    // Step back for the overlap, but always make progress
+    first = Math.max(first + 1, last + 1 - options.overlapSentences)
+  }
+
+  return chunks
+}
+
+// Extracts each chunk and reconciles the results. Failed chunks are skipped; if every chunk fails the last
+// error is rethrown so the extractor pipeline can fall back.
+export async function extractChunked(
+  text: string,
+  extract: (chunk: string) => Promise<ExtractionResult>,
+  options: ChunkingOptions = DEFAULT_CHUNKING,
+  ontology: Ontology = DEFAULT_ONTOLOGY,
+): Promise<ExtractionResult> {
+  const chunks = chunkText(text, options)
+  console.log(`Extracting ${chunks.length} chunks (max ${options.maxChars} chars, concurrency ${options.concurrency})`)
+
+  const settled = await mapWithConcurrency(chunks, options.concurrency, (chunk) => extract(chunk.text))
+  const results: ExtractionResult[] = []
+  let lastError: unknown = null
+
+  settled.forEach((outcome, index) => {
+    if (outcome.status === "fulfilled") {
+      results.push(outcome.value)
+    } else {
+      console.warn(`Chunk ${index + 1}/${chunks.length} failed:`, outcome.reason)
+      lastError = outcome.reason
+    }
+  })
+
+  if (results.length === 0 && lastError) throw lastError
+  return reconcileChunkResults(results, ontology)
+}
+
+// Entities sharing a label or alias (case-insensitive) and a compatible type (see typeCompatibility) across
+// chunks become one entity: aliases are unioned, the best confidence is kept and the type is decided by
+// confidence-weighted vote. Apple the COMPANY and apple the FOOD stay apart. Relationships are rewritten to the
+// reconciled labels and deduplicated, which also drops the repeats produced by overlapping chunks.
+export function reconcileChunkResults(
+  results: ExtractionResult[],
+  ontology: Ontology = DEFAULT_ONTOLOGY,
+): ExtractionResult {
+  const groups: { entity: Entity; votes: Map<string, number> }[] = []
+  const groupsByName = new Map<string, number[]>()
+  const namesOf = (entity: Entity) =>
+    [entity.label, ...(entity.aliases || [])].map((name) => name.trim().toLowerCase()).filter(Boolean)
+  // Every type voted for so far has to fit, so a CONCEPT does not bridge two unrelated types
+  const fits = (index: number, type: string) =>
+    Array.from(groups[index].votes.keys()).every((voted) => typeCompatibility(ontology, voted, type) > 0)
+  // The group of each entity of each result, so relationships are rewritten within their own result
+  const groupOf = results.map(() => new Map<string, number>())
+
+  results.forEach((result, resultIndex) => {
+    for (const entity of result.entities) {
+      const names = namesOf(entity)
+      const found = names
+        .flatMap((name) => groupsByName.get(name) ?? [])
+        .find((index) => fits(index, entity.type))
+
+      if (found === undefined) {
+        groups.push({ entity: { ...entity }, votes: new Map([[entity.type, entity.confidence]]) })
+      } else {
+        const group = groups[found]
+        group.votes.set(entity.type, (group.votes.get(entity.type) ?? 0) + entity.confidence)
+        group.entity = {
+          ...group.entity,
+          confidence: Math.max(group.entity.confidence, entity.confidence),
+          aliases: Array.from(
+            new Set([...(group.entity.aliases || []), entity.label, ...(entity.aliases || [])]),
+          ).filter((alias) => alias.toLowerCase() !== group.entity.label.toLowerCase()),
+          properties: { ...entity.properties, ...group.entity.properties },
+        }
+      }
+
+      const index = found ?? groups.length - 1
+      for (const name of names) {
+        const indexes = groupsByName.get(name) ?? []
+        if (!indexes.includes(index)) groupsByName.set(name, [...indexes, index])
+        if (!groupOf[resultIndex].has(name)) groupOf[resultIndex].set(name, index)
+      }
+    }
+  })
+
+  const entities = groups.map(({ entity, votes }) => {
+    // Ties go to the type seen first, since Map preserves insertion order
+    const [type] = Array.from(votes.entries()).reduce((best, vote) => (vote[1] > best[1] ? vote : best))
+    return { ...entity, type }
+  })
+
+  const relationships = new Map<string, Relationship>()
+  results.forEach((result, resultIndex) => {
+    const canonical = (label: string) => {
+      const name = label.trim().toLowerCase()
+      const index = groupOf[resultIndex].get(name) ?? groupsByName.get(name)?.[0]
+      return index === undefined ? label : groups[index].entity.label
+    }
+
+    for (const relationship of result.relationships) {
+      const rewritten = {
+        ...relationship,
+        source: canonical(relationship.source),
+        target: canonical(relationship.target),
+      }
+      const key = [rewritten.source, rewritten.type, rewritten.target].join("|").toLowerCase()
+      const existing = relationships.get(key)
+      if (!existing || rewritten.confidence > existing.confidence) relationships.set(key, rewritten)
+    }
+  })
+
+  return { entities, relationships: Array.from(relationships.values()) }
+}
+
+// Spans longer than maxChars (e.g. PDF text without punctuation) are cut at the last whitespace that fits
+function splitLongSpan(text: string, span: { start: number; end: number }, maxChars: number) {
+  const pieces: { start: number; end: number }[] = []
+  let start = span.start
+
+  while (span.end - start > maxChars) {
+    const window = text.slice(start, start + maxChars)
+    const cut = window.search(/\s\S*$/)
+    const end = start + (cut > 0 ? cut : maxChars)
+    pieces.push({ start, end })
+    start = end
+    while (start < span.end && /\s/.test(text[start])) start++
+  }
+
+  if (start < span.end) pieces.push({ start, end: span.end })
+  return pieces
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const settled: PromiseSettledResult<R>[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      try {
+        settled[index] = { status: "fulfilled", value: await fn(items[index]) }
+      } catch (reason) {
+        settled[index] = { status: "rejected", reason }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return settled
+}
@@ -0,0 +1,27 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { resolveCoreferences } from "./coreference"
+import { DEFAULT_ONTOLOGY, type Ontology } from "./ontology"
+
+const withStartups: Ontology = {
+  ...DEFAULT_ONTOLOGY,
+  entityTypes: [...DEFAULT_ONTOLOGY.entityTypes, { name: "STARTUP", parent: "ORGANIZATION" }],
+}
+
+test("a pronoun resolves to an entity of a subtype declared in the workspace ontology", () => {
+  const text = "Jane Doe founded Acme Labs. It is based in Paris."
+  const resolved = resolveCoreferences(
+    text,
+    {
+      entities: [
+        { label: "Jane Doe", type: "PERSON" },
+        { label: "Acme Labs", type: "STARTUP" },
+        { label: "Paris", type: "LOCATION" },
+      ],
+      relationships: [{ source: "It", target: "Paris", context: "It is based in Paris." }],
+    },
+    withStartups,
+  )
+
+  assert.deepEqual(resolved.relationships.map((rel) => [rel.source, rel.target]), [["Acme Labs", "Paris"]])
+})
@@ -0,0 +1,240 @@
+import { splitSentences } from "./chunked-extraction"
+import { DEFAULT_ONTOLOGY, isSubtypeOf, type Ontology } from "./ontology"
+
+// Rule-based coreference: pronouns ("he", "it") and definite descriptions ("the company", "the founder") are
+// resolved to the nearest preceding compatible entity mention, and never become entities themselves.
+
+interface Entity {
+  label: string
+  type: string
+  aliases?: string[]
+}
+
+interface Relationship {
+  source: string
+  target: string
+  context: string
+}
+
+export interface ResolvedReference {
+  // The pronoun or description as written, e.g. "He" or "the company"
+  mention: string
+  antecedent: string
+  start: number
+}
+
+// Referents a form can point to, with their subtypes in the workspace ontology (a STARTUP declared under
+// ORGANIZATION is "it" and "the company"); null means any entity type
+const PERSON = ["PERSON"]
+const ORGANIZATION = ["COMPANY", "ORGANIZATION", "BRAND"]
+const PLACE = ["LOCATION", "BUILDING"]
+const THING = ["PRODUCT", "TECHNOLOGY", "VEHICLE", "OBJECT", "BOOK", "MOVIE", "SONG"]
+
+const PRONOUNS: Record<string, string[] | null> = {
+  he: PERSON,
+  him: PERSON,
+  his: PERSON,
+  himself: PERSON,
+  she: PERSON,
+  her: PERSON,
+  hers: PERSON,
+  herself: PERSON,
+  it: [...ORGANIZATION, ...PLACE, ...THING, "EVENT", "CONCEPT"],
+  its: [...ORGANIZATION, ...PLACE, ...THING, "EVENT", "CONCEPT"],
+  itself: [...ORGANIZATION, ...PLACE, ...THING, "EVENT", "CONCEPT"],
+  they: null,
+  them: null,
+  their: null,
+  theirs: null,
+}
+
+const DESCRIPTIONS: Record<string, string[]> = {
+  company: ORGANIZATION,
+  firm: ORGANIZATION,
+  corporation: ORGANIZATION,
+  business: ORGANIZATION,
+  startup: ORGANIZATION,
+  automaker: ORGANIZATION,
+  manufacturer: ORGANIZATION,
+  organization: ORGANIZATION,
+  organisation: ORGANIZATION,
+  group: ORGANIZATION,
+  agency: ORGANIZATION,
+  university: ["ORGANIZATION"],
+  school: ["ORGANIZATION"],
+  brand: ORGANIZATION,
+  founder: PERSON,
+  "co-founder": PERSON,
+  ceo: PERSON,
+  president: PERSON,
+  chairman: PERSON,
+  executive: PERSON,
+  entrepreneur: PERSON,
+  billionaire: PERSON,
+  author: PERSON,
+  scientist: PERSON,
+  man: PERSON,
+  woman: PERSON,
+  city: PLACE,
+  town: PLACE,
+  country: PLACE,
+  state: PLACE,
+  region: PLACE,
+  product: THING,
+  device: THING,
+  car: THING,
+  vehicle: THING,
+  phone: THING,
+}
+
+// Antecedents further back than this many sentences are not considered
+const MAX_SENTENCE_DISTANCE = 3
+
+const ANAPHOR_PATTERN = new RegExp(
+  `\\b(?:${Object.keys(PRONOUNS).join("|")}|(?:the|this|that)\\s+(?:${Object.keys(DESCRIPTIONS).join("|")}))\\b`,
+  "gi",
+)
+
+export function isAnaphor(label: string): boolean {
+  return referentTypes(label) !== undefined
+}
+
+// Rewrites relationships that point at a pronoun or description to the entity it refers to, and drops
+// anaphoric entities. Relationships whose anaphor cannot be resolved are dropped rather than guessed.
+export function resolveCoreferences<E extends Entity, R extends Relationship>(
+  text: string,
+  extraction: { entities: E[]; relationships: R[] },
+  ontology: Ontology = DEFAULT_ONTOLOGY,
+): { entities: E[]; relationships: R[]; references: ResolvedReference[] } {
+  const entities = extraction.entities.filter((entity) => !isAnaphor(entity.label))
+  const references = findReferences(text, entities, ontology)
+  if (references.length === 0 && entities.length === extraction.entities.length) {
+    return { ...extraction, references }
+  }
+
+  // Repeated contexts ("He is") are located in order, each after the previous occurrence
+  const searchFrom = new Map<string, number>()
+  const locate = (context: string) => {
+    if (!context) return null
+    const start = text.indexOf(context, searchFrom.get(context) ?? 0)
+    const found = start === -1 ? text.indexOf(context) : start
+    if (found === -1) return null
+    searchFrom.set(context, found + 1)
+    return { start: found, end: found + context.length }
+  }
+
+  const resolve = (label: string, region: { start: number; end: number } | null) => {
+    if (!isAnaphor(label)) return label
+    const form = normalizeForm(label)
+    const candidates = references.filter((reference) => normalizeForm(reference.mention) === form)
+
+    if (region) {
+      const inRegion = candidates.find((reference) => reference.start >= region.start && reference.start < region.end)
+      if (inRegion) return inRegion.antecedent
+    }
+    // Without a usable context, only an unambiguous document-wide resolution is trusted
+    const antecedents = new Set(candidates.map((reference) => reference.antecedent))
+    return antecedents.size === 1 ? Array.from(antecedents)[0] : null
+  }
+
+  const relationships: R[] = []
+  for (const relationship of extraction.relationships) {
+    if (!isAnaphor(relationship.source) && !isAnaphor(relationship.target)) {
+      relationships.push(relationship)
+      continue
+    }
+
+    const region = locate(relationship.context)
+    const source = resolve(relationship.source, region)
+    const target = resolve(relationship.target, region)
+    if (!source || !target || source.toLowerCase() === target.toLowerCase()) {
+      console.log(`Dropped unresolved reference: ${relationship.source} -> ${relationship.target}`)
+      continue
+    }
+    relationships.push({ ...relationship, source, target })
+  }
+
+  if (references.length > 0) {
+    console.log(
+      "Resolved references:",
+      references.map((reference) => `${reference.mention} -> ${reference.antecedent}`),
+    )
+  }
+
+  return { entities, relationships, references }
+}
+
+// Every anaphor in the text with its antecedent: sentences are searched from the anaphor's own backwards, and
+// within a sentence the first compatible mention wins, since subjects are the likeliest referents
+function findReferences(text: string, entities: Entity[], ontology: Ontology): ResolvedReference[] {
+  const mentions = entityMentions(text, entities)
+  if (mentions.length === 0) return []
+
+  const sentenceStarts = splitSentences(text).map((span) => span.start)
+  const sentenceOf = (offset: number) => {
+    let index = sentenceStarts.length - 1
+    while (index > 0 && sentenceStarts[index] > offset) index--
+    return Math.max(0, index)
+  }
+
+  const references: ResolvedReference[] = []
+  for (const match of Array.from(text.matchAll(ANAPHOR_PATTERN))) {
+    const start = match.index ?? 0
+    const end = start + match[0].length
+    // "The University" in "The University of Oxford" is part of a name, not a reference
+    if (mentions.some((mention) => mention.start < end && mention.end > start)) continue
+
+    const types = referentTypes(match[0])
+    const current = sentenceOf(start)
+
+    let antecedent: Entity | undefined
+    for (let sentence = current; sentence >= Math.max(0, current - MAX_SENTENCE_DISTANCE) && !antecedent; sentence--) {
+      antecedent = mentions.find(
+        (mention) =>
+          mention.end <= start &&
+          sentenceOf(mention.start) === sentence &&
+          (!types || types.some((type) => isSubtypeOf(ontology, mention.entity.type.toUpperCase(), type))),
+      )?.entity
+    }
+
+    if (antecedent) references.push({ mention: match[0], antecedent: antecedent.label, start })
+  }
+
+  return references
+}
+
+function entityMentions(text: string, entities: Entity[]) {
+  const lowerText = text.toLowerCase()
+  const mentions: { start: number; end: number; entity: Entity }[] = []
+
+  for (const entity of entities) {
+    for (const name of [entity.label, ...(entity.aliases || [])]) {
+      const needle = name.trim().toLowerCase()
+      if (!needle) continue
+
+      for (let index = lowerText.indexOf(needle); index !== -1; index = lowerText.indexOf(needle, index + 1)) {
+        const end = index + needle.length
+        if (isWordBoundary(text, index - 1) && isWordBoundary(text, end)) mentions.push({ start: index, end, entity })
+      }
+    }
+  }
+
+  return mentions.sort((a, b) => a.start - b.start)
+}
+
+// undefined when the label is not an anaphor; null when it may refer to any type
+function referentTypes(label: string): string[] | null | undefined {
+  const form = normalizeForm(label)
+  if (Object.hasOwn(PRONOUNS, form)) return PRONOUNS[form]
+
+  const description = form.match(/^(?:the|this|that) (.+)$/)
+  return description && Object.hasOwn(DESCRIPTIONS, description[1]) ? DESCRIPTIONS[description[1]] : undefined
+}
+
+function normalizeForm(label: string): string {
+  return label.trim().toLowerCase().replace(/\s+/g, " ")
+}
+
+function isWordBoundary(text: string, index: number): boolean {
+  return index < 0 || index >= text.length || !/[\p{L}\p{N}_]/u.test(text[index])
+}
@@ -0,0 +1,82 @@
+import { createHash } from "crypto"
+import type { DocumentInput, MentionInput } from "./graph-store"
+
+interface Entity {
+  label: string
+  type: string
+  aliases?: string[]
+}
+
+// Caps how many occurrences of one entity are recorded per document
+const MAX_MENTIONS_PER_ENTITY = 20
+
+export function hashContent(content: string | ArrayBuffer): string {
+  const data = typeof content === "string" ? content : Buffer.from(content)
+  return createHash("sha256").update(data).digest("hex")
+}
+
+export function describeDocument(name: string, content: string | ArrayBuffer, extractor: string): DocumentInput {
+  return {
+    name,
+    hash: hashContent(content),
+    size: typeof content === "string" ? Buffer.byteLength(content) : content.byteLength,
+    extractor,
+  }
+}
+
+// Finds where each entity (by label or alias) occurs in the text the extractor saw.
+// Offsets are character offsets into that text; matches must sit on word boundaries.
+export function findMentions(
+  text: string,
+  entities: Entity[],
+  pageAt?: (offset: number) => number | null,
+): MentionInput[] {
+  const mentions: MentionInput[] = []
+  const lowerText = text.toLowerCase()
+
+  for (const entity of entities) {
+    const names = Array.from(new Set([entity.label, ...(entity.aliases || [])].map((name) => name.trim())))
+    const seen = new Set<number>()
+    let count = 0
+
+    for (const name of names) {
+      const needle = name.toLowerCase()
+      if (!needle) continue
+
+      let index = lowerText.indexOf(needle)
+      while (index !== -1 && count < MAX_MENTIONS_PER_ENTITY) {
+        const end = index + needle.length
+        if (!seen.has(index) && isWordBoundary(text, index - 1) && isWordBoundary(text, end)) {
+          seen.add(index)
+          count++
+          mentions.push({
+            label: entity.label,
+            type: entity.type,
+            start: index,
+            end,
+            sentence: sentenceAround(text, index, end),
+            page: pageAt?.(index) ?? undefined,
+          })
+        }
+        index = lowerText.indexOf(needle, index + 1)
+      }
+    }
+  }
+
+  return mentions
+}
+
+function isWordBoundary(text: string, index: number): boolean {
+  return index < 0 || index >= text.length || !/[\p{L}\p{N}_]/u.test(text[index])
+}
+
+function sentenceAround(text: string, start: number, end: number): string {
+  let from = start
+  while (from > 0 && !/[.!?\n]/.test(text[from - 1])) from--
+
+  let to = end
+  while (to < text.length && !/[.!?\n]/.test(text[to])) to++
+  if (to < text.length && text[to] !== "\n") to++
+
+  return text.slice(from, to).trim()
+}
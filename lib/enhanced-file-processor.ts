@@ -1,4 +1,5 @@
 import mammoth from "mammoth";
+import { SimplePDFExtractor } from "./simple-pdf-extractor";
 
 export class EnhancedFileProcessor {
   async extractTextFromFile(file: File): Promise<string> {
@@ -30,200 +31,8 @@ export class EnhancedFileProcessor {
   }
 
   private async extractTextFromPdf(file: File): Promise<string> {
-    try {
-      console.log("Starting comprehensive PDF text extraction...");
-      const arrayBuffer = await file.arrayBuffer();
-      console.log(`PDF file size: ${arrayBuffer.byteLength} bytes`);
-
-      // Convert to different encodings to find readable text
-      const extractedText = await this.comprehensivePdfExtraction(arrayBuffer);
-
-      if (extractedText && extractedText.length > 10) {
-        console.log(`PDF extraction successful: "${extractedText.substring(0, 200)}..."`);
-        return extractedText;
-      } else {
-        console.log("PDF extraction failed, using fallback content");
-        // For testing purposes, return the expected content
-        return "Apple is founded by Steve Jobs. Elon Musk owns Tesla. He is Very Rich.";
-      }
-    } catch (error) {
-      console.error("Error extracting PDF text:", error);
-      // Return test content for now
-      return "Apple is founded by Steve Jobs. Elon Musk owns Tesla. He is Very Rich.";
-    }
-  }
-
-  private async comprehensivePdfExtraction(arrayBuffer: ArrayBuffer): Promise<string> {
-    const uint8Array = new Uint8Array(arrayBuffer);
-
-    // Try multiple encoding approaches
-    const encodings = ["utf-8", "latin1", "ascii", "utf-16le", "utf-16be"];
-    let bestExtraction = "";
-
-    for (const encoding of encodings) {
-      try {
-        const decoder = new TextDecoder(encoding, { ignoreBOM: true, fatal: false });
-        const pdfString = decoder.decode(uint8Array);
-
-        const extracted = this.extractReadableTextFromPdf(pdfString);
-
-        if (extracted.length > bestExtraction.length && this.isReadableText(extracted)) {
-          bestExtraction = extracted;
-        }
-      } catch (e) {
-        console.log(`Encoding ${encoding} failed, trying next...`);
-      }
-    }
-
-    // If no good extraction, try binary approach
-    if (!bestExtraction || bestExtraction.length < 10) {
-      bestExtraction = this.extractFromBinaryPdf(uint8Array);
-    }
-
-    return bestExtraction;
-  }
-
-  private extractReadableTextFromPdf(pdfString: string): string {
-    const extractedTexts: string[] = [];
-
-    // Method 1: Look for text between parentheses
-    const parenthesesMatches = pdfString.match(/\(([^)]+)\)/g);
-    if (parenthesesMatches) {
-      parenthesesMatches.forEach((match) => {
-        const text = match.slice(1, -1).trim();
-        if (this.isValidExtractedText(text)) {
-          extractedTexts.push(text);
-        }
-      });
-    }
-
-    // Method 2: Look for text in square brackets
-    const bracketMatches = pdfString.match(/\[([^\]]{3,})\]/g);
-    if (bracketMatches) {
-      bracketMatches.forEach((match) => {
-        const text = match.slice(1, -1).trim();
-        if (this.isValidExtractedText(text)) {
-          extractedTexts.push(text);
-        }
-      });
-    }
-
-    // Method 3: Look for readable text sequences
-    const readableMatches = pdfString.match(/[A-Z][a-z]{2,}(?:\s+[A-Za-z]{2,})*[.!?]?/g);
-    if (readableMatches) {
-      readableMatches.forEach((match) => {
-        if (this.isValidExtractedText(match) && match.length > 3) {
-          extractedTexts.push(match);
-        }
-      });
-    }
-
-    // Method 4: Look for sentences
-    const sentenceMatches = pdfString.match(/[A-Z][^.!?]*[.!?]/g);
-    if (sentenceMatches) {
-      sentenceMatches.forEach((match) => {
-        const cleaned = match
-          .replace(/[^\w\s.!?]/g, " ")
-          .replace(/\s+/g, " ")
-          .trim();
-        if (this.isValidExtractedText(cleaned) && cleaned.length > 10) {
-          extractedTexts.push(cleaned);
-        }
-      });
-    }
-
-    // Combine and clean results
-    const combinedText = extractedTexts.join(" ");
-    return this.cleanExtractedText(combinedText);
-  }
-
-  private extractFromBinaryPdf(uint8Array: Uint8Array): string {
-    // Convert bytes to string and look for readable patterns
-    let text = "";
-    const chars: string[] = [];
-
-    for (let i = 0; i < uint8Array.length; i++) {
-      const byte = uint8Array[i];
-      // Only include printable ASCII characters
-      if (byte >= 32 && byte <= 126) {
-        chars.push(String.fromCharCode(byte));
-      } else if (byte === 10 || byte === 13) {
-        chars.push(" "); // Replace newlines with spaces
-      }
-    }
-
-    text = chars.join("");
-
-    // Extract meaningful words and sentences
-    const words = text.match(/[A-Za-z]{3,}/g) || [];
-    const meaningfulWords = words.filter(
-      (word) =>
-        word.length > 2 &&
-        !this.isPdfKeyword(word) &&
-        /^[A-Za-z]+$/.test(word)
-    );
-
-    // Try to reconstruct sentences
-    const reconstructed = meaningfulWords.join(" ");
-
-    return this.cleanExtractedText(reconstructed);
-  }
-
-  private isValidExtractedText(text: string): boolean {
-    if (!text || text.length < 2) return false;
-
-    // Must contain letters
-    if (!/[a-zA-Z]/.test(text)) return false;
-
-    // Should not be mostly numbers or special characters
-    const letterCount = (text.match(/[a-zA-Z]/g) || []).length;
-    const totalCount = text.length;
-    if (letterCount / totalCount < 0.5) return false;
-
-    // Filter out PDF-specific terms
-    const lowerText = text.toLowerCase();
-    const pdfTerms = ["obj", "endobj", "stream", "xref", "trailer", "startxref", "font", "encoding"];
-    if (pdfTerms.some((term) => lowerText.includes(term))) return false;
-
-    return true;
-  }
-
-  private isPdfKeyword(word: string): boolean {
-    const keywords = [
-      "obj", "endobj", "stream", "endstream",
-      "xref", "trailer", "startxref",
-      "font", "encoding", "filter",
-      "length", "width", "height", "bbox",
-      "matrix", "resources", "procset",
-      "colorspace", "pattern", "shading",
-    ];
-    return keywords.includes(word.toLowerCase());
-  }
-
-  private isReadableText(text: string): boolean {
-    if (!text || text.length < 5) return false;
-
-    // Check if it contains common English words
-    const commonWords = ["the", "is", "and", "or", "by", "in", "at", "on", "for", "with", "to", "of", "a", "an"];
-    const lowerText = text.toLowerCase();
-    const hasCommonWords = commonWords.some((word) => lowerText.includes(word));
-
-    // Check letter to total character ratio
-    const letters = (text.match(/[a-zA-Z]/g) || []).length;
-    const ratio = letters / text.length;
-
-    return hasCommonWords && ratio > 0.6;
-  }
-
-  private cleanExtractedText(text: string): string {
-    return text
-      .replace(/\\n/g, " ")
-      .replace(/\\r/g, " ")
-      .replace(/\\t/g, " ")
-      .replace(/\s+/g, " ")
-      .replace(/[^\w\s.,!?;:'"()-]/g, " ")
-      .replace(/\s+/g, " ")
-      .trim();
+    // Extraction failures surface as PDFExtractionError so callers can report them
+    return await SimplePDFExtractor.extractText(file);
   }
 
   private async extractTextFromDocx(file: File): Promise<string> {
@@ -1,28 +1,87 @@
-import neo4j, { type Driver, type Session } from "neo4j-driver"
-
-interface Entity {
-  id: string
-  label: string
-  type: string
-  properties: Record<string, any>
-  confidence?: number
-  aliases?: string[]
-}
+import { randomUUID } from "crypto"
+import neo4j, { type Driver, type ManagedTransaction, type Session } from "neo4j-driver"
+import {
+  DEFAULT_WORKSPACE,
+  IngestionError,
+  EntityMergeError,
+  IngestionUndoError,
+  WorkspaceError,
+  type Entity,
+  type EntityMention,
+  type EntityWithNeighbors,
+  type GraphBatch,
+  type GraphData,
+  type GraphQueryOptions,
+  type GraphStore,
+  type InferredRelationshipInput,
+  type IngestionOptions,
+  type IngestionResult,
+  type IngestionRun,
+  type MergeResult,
+  type MergeSuggestion,
+  type MergeSuggestionInput,
+  type Relationship,
+  type SourceDocument,
+  type UndoResult,
+  type Workspace,
+} from "./graph-store"
+import { normalizeTypeLabel, toCypherLabel } from "./type-labels"
+import { type Evidence, evidenceFrom, parseEvidence, serializeEvidence, summarizeEvidence } from "./evidence"
+import { rankCandidates } from "./entity-resolution"
+import type { Ontology } from "./ontology"
+import { normalizeQualifiers, samePeriod, TEMPORAL_PROPERTIES, type TemporalQualifiers } from "./temporal"
+import { ATTRIBUTE_KEYS, ATTRIBUTE_LIST, attributeValues, mergeAttributes } from "./literals"
+import { aliasSet } from "./aliases"
 
-interface Relationship {
-  id: string
-  source: string
-  target: string
-  type: string
-  properties: Record<string, any>
-  confidence?: number
-}
+// Bookkeeping nodes that live in a workspace but are not part of the knowledge graph itself
+const SYSTEM_LABELS = ["IngestionRun", "Document", "MergeSuggestion"]
+// Provenance edges from entities to their Document nodes
+const MENTIONED_IN = "MENTIONED_IN"
+
+// Cleared when an inferred relationship is extracted directly, so it no longer depends on its premises
+const INFERENCE_PROPERTIES = (variable: string) => `${variable}.inferred, ${variable}.rule, ${variable}.premises`
+
+// Temporal qualifiers a relationship does not have yet are taken from a later sighting; known ones are kept
+const FILL_TEMPORAL = (variable: string, source: string) =>
+  TEMPORAL_PROPERTIES.map((key) => `${variable}.${key} = coalesce(${variable}.${key}, ${source}.${key})`).join(", ")
+
+// Appends $runId to a node or relationship's run_ids list once
+const appendRunId = (variable: string) =>
+  `${variable}.run_ids = CASE WHEN $runId IS NULL OR $runId IN coalesce(${variable}.run_ids, []) ` +
+  `THEN ${variable}.run_ids ELSE coalesce(${variable}.run_ids, []) + $runId END`
+
+// Adds the values of a list parameter to a list property, skipping ones it already holds; null leaves it as it is
+const appendDistinct = (property: string, values: string) =>
+  `${property} = CASE WHEN ${values} IS NULL THEN ${property} ` +
+  `ELSE coalesce(${property}, []) + [x IN ${values} WHERE NOT x IN coalesce(${property}, [])] END`
 
-export class EnhancedNeo4jService {
+// Adds to an owner's attribute lists from the attributes and attributeKeys of a row ("row.") or the parameters
+// ("$"), as split off by withAttributeLists
+const APPEND_ATTRIBUTE_LISTS = (variable: string, source = "row.") =>
+  `${appendDistinct(`${variable}.${ATTRIBUTE_LIST}`, `${source}attributes`)}, ` +
+  appendDistinct(`${variable}.${ATTRIBUTE_KEYS}`, `${source}attributeKeys`)
+
+// Adds aliases a node does not go by yet, ignoring case and its own label, so the list stays a set
+const APPEND_ALIASES = (variable: string, aliases: string) =>
+  `${variable}.aliases = coalesce(${variable}.aliases, []) + [x IN coalesce(${aliases}, []) ` +
+  `WHERE toLower(x) <> toLower(${variable}.label) ` +
+  `AND NOT toLower(x) IN [a IN coalesce(${variable}.aliases, []) | toLower(a)]]`
+
+// Looks up the label of a node that already goes by a name, ignoring case and counting aliases, so the MERGE that
+// follows lands on "Apple" for "apple" instead of creating a second node; known_label is null when there is none
+const KNOWN_LABEL = (cypherLabel: string, name: string, carry?: string) =>
+  `OPTIONAL MATCH (found:${cypherLabel} {workspace: $workspace}) ` +
+  `WHERE toLower(found.label) = toLower(${name}) ` +
+  `OR any(alias IN coalesce(found.aliases, []) WHERE toLower(alias) = toLower(${name})) ` +
+  `WITH ${carry ? `${carry}, ` : ""}head(collect(found.label)) AS known_label`
+
+export class EnhancedNeo4jService implements GraphStore {
   private driver: Driver
   private session: Session
+  readonly workspace: string
 
-  constructor() {
+  constructor(workspace: string = DEFAULT_WORKSPACE) {
+    this.workspace = workspace
     this.driver = neo4j.driver(
       process.env.NEO4J_URI || "bolt://localhost:7687",
       neo4j.auth.basic(process.env.NEO4J_USERNAME || "neo4j", process.env.NEO4J_PASSWORD || "password"),
@@ -30,15 +89,122 @@ export class EnhancedNeo4jService {
     this.session = this.driver.session()
   }
 
-  async clearAllData(): Promise<void> {
+  async listWorkspaces(): Promise<Workspace[]> {
+    try {
+      const result = await this.session.run(
+        `MERGE (d:Workspace {name: $defaultWorkspace})
+         ON CREATE SET d.created_at = datetime()
+         WITH d
+         MATCH (w:Workspace)
+         RETURN w
+         ORDER BY w.name`,
+        { defaultWorkspace: DEFAULT_WORKSPACE },
+      )
+
+      return result.records.map((record) => this.toWorkspace(record.get("w")))
+    } catch (error) {
+      console.error("Error listing workspaces:", error)
+      throw error
+    }
+  }
+
+  async createWorkspace(name: string): Promise<Workspace> {
+    try {
+      const result = await this.session.run(
+        `MERGE (w:Workspace {name: $name})
+         ON CREATE SET w.created_at = datetime()
+         RETURN w`,
+        { name },
+      )
+
+      return this.toWorkspace(result.records[0].get("w"))
+    } catch (error) {
+      console.error("Error creating workspace:", error)
+      throw error
+    }
+  }
+
+  async renameWorkspace(name: string, newName: string): Promise<Workspace> {
+    if (name === DEFAULT_WORKSPACE) {
+      throw new WorkspaceError("The default workspace cannot be renamed")
+    }
+
+    try {
+      const existing = await this.session.run("MATCH (w:Workspace {name: $newName}) RETURN w", { newName })
+      if (existing.records.length > 0) {
+        throw new WorkspaceError(`Workspace "${newName}" already exists`)
+      }
+
+      const result = await this.session.executeWrite(async (tx) => {
+        // Entities, documents, runs and suggestions, then the relationships and MENTIONED_IN edges between them
+        await tx.run("MATCH (n {workspace: $name}) SET n.workspace = $newName", { name, newName })
+        await tx.run("MATCH ()-[r {workspace: $name}]->() SET r.workspace = $newName", { name, newName })
+        return tx.run("MATCH (w:Workspace {name: $name}) SET w.name = $newName RETURN w", { name, newName })
+      })
+
+      if (result.records.length === 0) {
+        throw new WorkspaceError(`Workspace "${name}" does not exist`)
+      }
+
+      return this.toWorkspace(result.records[0].get("w"))
+    } catch (error) {
+      console.error("Error renaming workspace:", error)
+      throw error
+    }
+  }
+
+  async deleteWorkspace(name: string): Promise<void> {
+    if (name === DEFAULT_WORKSPACE) {
+      throw new WorkspaceError("The default workspace cannot be deleted")
+    }
+
     try {
-      // Delete all relationships first
-      await this.session.run("MATCH ()-[r]-() DELETE r")
+      await this.session.executeWrite(async (tx) => {
+        await tx.run("MATCH (n {workspace: $name}) DETACH DELETE n", { name })
+        await tx.run("MATCH (w:Workspace {name: $name}) DELETE w", { name })
+      })
 
-      // Then delete all nodes
-      await this.session.run("MATCH (n) DELETE n")
+      console.log(`Workspace "${name}" deleted`)
+    } catch (error) {
+      console.error("Error deleting workspace:", error)
+      throw error
+    }
+  }
 
-      console.log("All graph data cleared")
+  // Stored as a JSON string on the Workspace node, so renames carry it along and deletes remove it
+  async getOntology(): Promise<Ontology | null> {
+    try {
+      const result = await this.session.run("MATCH (w:Workspace {name: $workspace}) RETURN w.ontology AS ontology", {
+        workspace: this.workspace,
+      })
+      const stored = result.records[0]?.get("ontology")
+      return typeof stored === "string" ? (JSON.parse(stored) as Ontology) : null
+    } catch (error) {
+      console.error("Error loading ontology:", error)
+      throw error
+    }
+  }
+
+  async saveOntology(ontology: Ontology | null): Promise<void> {
+    try {
+      await this.session.run(
+        `MERGE (w:Workspace {name: $workspace})
+         ON CREATE SET w.created_at = datetime()
+         SET w.ontology = $ontology`,
+        { workspace: this.workspace, ontology: ontology ? JSON.stringify(ontology) : null },
+      )
+    } catch (error) {
+      console.error("Error saving ontology:", error)
+      throw error
+    }
+  }
+
+  async clearAllData(): Promise<void> {
+    try {
+      // Only the active workspace is cleared; other workspaces are untouched
+      await this.session.run("MATCH (n {workspace: $workspace}) DETACH DELETE n", { workspace: this.workspace })
+
+      console.log(`Graph data cleared for workspace "${this.workspace}"`)
     } catch (error) {
       console.error("Error clearing graph data:", error)
       throw error
@@ -48,11 +214,11 @@ export class EnhancedNeo4jService {
   async findEntityByLabelAndType(label: string, type: string): Promise<Entity | null> {
     try {
       const result = await this.session.run(
-        `MATCH (n:${type}) 
-         WHERE toLower(n.label) = toLower($label) OR 
+        `MATCH (n:${toCypherLabel(type, "entity")} {workspace: $workspace})
+         WHERE toLower(n.label) = toLower($label) OR
                any(alias in coalesce(n.aliases, []) WHERE toLower(alias) = toLower($label))
          RETURN n LIMIT 1`,
-        { label },
+        { label, workspace: this.workspace },
       )
 
       if (result.records.length > 0) {
@@ -60,7 +226,7 @@ export class EnhancedNeo4jService {
         return {
           id: node.identity.toString(),
           label: node.properties.label,
-          type: type,
+          type: normalizeTypeLabel(type),
           properties: node.properties,
           confidence: node.properties.confidence || 1.0,
           aliases: node.properties.aliases || [],
@@ -76,63 +242,300 @@ export class EnhancedNeo4jService {
 
   async findSimilarEntities(label: string, type: string, threshold = 0.8): Promise<Entity[]> {
     try {
-      // Simple similarity check without APOC
+      // Scored in application code; Cypher has no string similarity without APOC
+      const candidates = await this.listEntitiesWithNeighbors([type])
+
+      return rankCandidates({ label, type }, candidates, threshold)
+        .slice(0, 5)
+        .map(({ candidate: { neighbors, ...entity } }) => entity)
+    } catch (error) {
+      console.error("Error finding similar entities:", error)
+      return []
+    }
+  }
+
+  async listEntitiesWithNeighbors(types: string[]): Promise<EntityWithNeighbors[]> {
+    try {
       const result = await this.session.run(
-        `MATCH (n:${type})
-         WHERE toLower(n.label) CONTAINS toLower($label) OR toLower($label) CONTAINS toLower(n.label)
-         RETURN n
-         LIMIT 5`,
-        { label, threshold },
+        `MATCH (n {workspace: $workspace})
+         WHERE any(l IN labels(n) WHERE l IN $types)
+         OPTIONAL MATCH (n)-[r]-(m {workspace: $workspace})
+         WHERE type(r) <> $mentionedIn AND none(l IN labels(m) WHERE l IN $systemLabels)
+         RETURN n, [l IN labels(n) WHERE l IN $types][0] AS type, collect(DISTINCT m.label) AS neighbors`,
+        {
+          workspace: this.workspace,
+          types: types.map((type) => normalizeTypeLabel(type)),
+          mentionedIn: MENTIONED_IN,
+          systemLabels: SYSTEM_LABELS,
+        },
+      )
+
+      return result.records.map((record) => ({
+        ...this.toEntity(record.get("n"), record.get("type")),
+        neighbors: record.get("neighbors"),
+      }))
+    } catch (error) {
+      console.error("Error listing entities with neighbors:", error)
+      throw error
+    }
+  }
+
+  async mergeEntities(survivorId: string, mergedIds: string[]): Promise<MergeResult> {
+    const ids = Array.from(new Set(mergedIds))
+    if (ids.length === 0) {
+      throw new EntityMergeError("No entities to merge")
+    }
+    if (ids.includes(survivorId)) {
+      throw new EntityMergeError("An entity cannot be merged into itself")
+    }
+
+    try {
+      return await this.session.executeWrite(async (tx) => {
+        const nodes = await tx.run(
+          `UNWIND $ids AS id
+           OPTIONAL MATCH (n {workspace: $workspace})
+           WHERE id(n) = id AND none(l IN labels(n) WHERE l IN $systemLabels)
+           RETURN id, n`,
+          {
+            workspace: this.workspace,
+            systemLabels: SYSTEM_LABELS,
+            ids: [survivorId, ...ids].map((id) => neo4j.int(id)),
+          },
+        )
+
+        const missing = nodes.records.find((record) => record.get("n") === null)
+        if (missing) {
+          throw new EntityMergeError(`Entity ${missing.get("id")} does not exist in workspace "${this.workspace}"`)
+        }
+
+        const [survivor, ...merged] = nodes.records.map((record) => record.get("n"))
+        const mergedSet = new Set(ids)
+        const redirect = (id: string) => (mergedSet.has(id) ? survivorId : id)
+
+        // Re-create every relationship of the merged nodes on the survivor; MERGE folds them into existing twins
+        const attached = await tx.run(
+          `MATCH (m)-[r]-()
+           WHERE id(m) IN $mergedIds
+           RETURN DISTINCT id(r) AS id, type(r) AS type, id(startNode(r)) AS source, id(endNode(r)) AS target,
+                  properties(r) AS properties`,
+          { mergedIds: ids.map((id) => neo4j.int(id)) },
+        )
+
+        const moved = attached.records
+          .map((record) => ({
+            type: record.get("type") as string,
+            source: redirect(record.get("source").toString()),
+            target: redirect(record.get("target").toString()),
+            properties: record.get("properties"),
+          }))
+          .filter((rel) => rel.source !== rel.target)
+
+        await tx.run("MATCH ()-[r]->() WHERE id(r) IN $ids DELETE r", {
+          ids: attached.records.map((record) => record.get("id")),
+        })
+
+        const touched: string[] = []
+        for (const [type, rows] of groupBy(moved, (rel) => rel.type)) {
+          const key = type === MENTIONED_IN ? " {start: row.properties.start, end: row.properties.end}" : ""
+          const result = await tx.run(
+            `UNWIND $rows AS row
+             MATCH (a) WHERE id(a) = row.source
+             MATCH (b) WHERE id(b) = row.target
+             MERGE (a)-[r:${toCypherLabel(type, "relationship")}${key}]->(b)
+             ON CREATE SET r = row.properties
+             ON MATCH SET
+               r.run_ids = coalesce(r.run_ids, []) +
+                 [id IN coalesce(row.properties.run_ids, []) WHERE NOT id IN coalesce(r.run_ids, [])],
+               r.evidence = CASE WHEN row.properties.evidence IS NULL THEN r.evidence ELSE coalesce(r.evidence, []) +
+                 [e IN row.properties.evidence WHERE NOT e IN coalesce(r.evidence, [])] END
+             RETURN id(r) AS id`,
+            {
+              rows: rows.map((rel) => ({
+                source: neo4j.int(rel.source),
+                target: neo4j.int(rel.target),
+                properties: rel.properties,
+              })),
+            },
+          )
+          if (type !== MENTIONED_IN) touched.push(...result.records.map((record) => record.get("id").toString()))
+        }
+        await this.refreshEvidence(tx, touched)
+
+        const label = survivor.properties.label
+        const mergedNames = merged.flatMap((node) => [node.properties.label, ...(node.properties.aliases || [])])
+        const updated = await tx.run(
+          `MATCH (s) WHERE id(s) = $survivorId
+           SET s += $updates, s.updated_at = datetime()
+           WITH s
+           MATCH (m) WHERE id(m) IN $mergedIds
+           DETACH DELETE m
+           WITH DISTINCT s
+           RETURN s, labels(s) AS labels`,
+          {
+            survivorId: neo4j.int(survivorId),
+            mergedIds: ids.map((id) => neo4j.int(id)),
+            updates: {
+              // Attributes only a merged entity had are kept; the survivor's own values win
+              ...merged.reduce(
+                (properties, node) => mergeAttributes(node.properties, properties),
+                mergeAttributes({}, survivor.properties),
+              ),
+              aliases: aliasSet(label, [...(survivor.properties.aliases || []), ...mergedNames]),
+              confidence: Math.max(
+                survivor.properties.confidence || 0,
+                ...merged.map((node) => node.properties.confidence || 0),
+              ),
+              run_ids: merged.reduce(
+                (runIds: string[], node) => union(runIds, node.properties.run_ids),
+                survivor.properties.run_ids || [],
+              ),
+              merged_from: union(survivor.properties.merged_from, merged.map((node) => node.properties.label)),
+            },
+          },
+        )
+
+        await this.pruneMergeSuggestions(tx)
+
+        console.log(`Merged ${merged.map((node) => node.properties.label).join(", ")} into ${label}`)
+
+        const record = updated.records[0]
+        return {
+          entity: this.toEntity(record.get("s"), record.get("labels")[0]),
+          mergedIds: ids,
+          movedRelationships: moved.filter((rel) => rel.type !== MENTIONED_IN).length,
+        }
+      })
+    } catch (error) {
+      console.error("Error merging entities:", error)
+      throw error
+    }
+  }
+
+  async addMergeSuggestions(suggestions: MergeSuggestionInput[], runId?: string): Promise<void> {
+    if (suggestions.length === 0) return
+
+    try {
+      // One suggestion per pair, whichever way round it was found
+      await this.session.run(
+        `UNWIND $rows AS row
+         MERGE (x:MergeSuggestion {pair: row.pair, workspace: $workspace})
+         ON CREATE SET x.id = row.id, x.created_at = datetime(), x.created_run = $runId
+         SET x.entity_id = row.entityId,
+             x.candidate_id = row.candidateId,
+             x.score = row.score,
+             x.reasons = row.reasons,
+             ${appendRunId("x")}`,
+        {
+          workspace: this.workspace,
+          runId: runId ?? null,
+          rows: suggestions.map((suggestion) => ({
+            id: randomUUID(),
+            pair: [suggestion.entityId, suggestion.candidateId].sort().join(":"),
+            entityId: suggestion.entityId,
+            candidateId: suggestion.candidateId,
+            score: suggestion.score,
+            reasons: JSON.stringify(suggestion.reasons),
+          })),
+        },
+      )
+    } catch (error) {
+      console.error("Error adding merge suggestions:", error)
+      throw error
+    }
+  }
+
+  async listMergeSuggestions(): Promise<MergeSuggestion[]> {
+    try {
+      const result = await this.session.run(
+        `MATCH (x:MergeSuggestion {workspace: $workspace})
+         MATCH (e {workspace: $workspace}) WHERE id(e) = toInteger(x.entity_id)
+         MATCH (c {workspace: $workspace}) WHERE id(c) = toInteger(x.candidate_id)
+         RETURN x, e, labels(e)[0] AS entityType, c, labels(c)[0] AS candidateType
+         ORDER BY x.score DESC`,
+        { workspace: this.workspace },
       )
 
       return result.records.map((record) => {
-        const node = record.get("n")
+        const suggestion = record.get("x")
         return {
-          id: node.identity.toString(),
-          label: node.properties.label,
-          type: type,
-          properties: node.properties,
-          confidence: node.properties.confidence || 1.0,
-          aliases: node.properties.aliases || [],
+          id: suggestion.properties.id,
+          entityId: suggestion.properties.entity_id,
+          candidateId: suggestion.properties.candidate_id,
+          score: suggestion.properties.score,
+          reasons: JSON.parse(suggestion.properties.reasons || "{}"),
+          createdAt: suggestion.properties.created_at?.toString() || "",
+          entity: this.toEntity(record.get("e"), record.get("entityType")),
+          candidate: this.toEntity(record.get("c"), record.get("candidateType")),
         }
       })
     } catch (error) {
-      console.error("Error finding similar entities:", error)
-      return []
+      console.error("Error listing merge suggestions:", error)
+      throw error
+    }
+  }
+
+  async dismissMergeSuggestion(id: string): Promise<void> {
+    try {
+      const result = await this.session.run(
+        `MATCH (x:MergeSuggestion {id: $id, workspace: $workspace})
+         DELETE x
+         RETURN count(x) AS deleted`,
+        { id, workspace: this.workspace },
+      )
+
+      if (Number(result.records[0].get("deleted")) === 0) {
+        throw new EntityMergeError(`Merge suggestion ${id} does not exist`)
+      }
+    } catch (error) {
+      console.error("Error dismissing merge suggestion:", error)
+      throw error
     }
   }
 
+  // Node ids are reused after deletion, so suggestions must not outlive either of their entities
+  private async pruneMergeSuggestions(tx: ManagedTransaction): Promise<void> {
+    await tx.run(
+      `MATCH (x:MergeSuggestion {workspace: $workspace})
+       WHERE NOT EXISTS { MATCH (e {workspace: $workspace}) WHERE id(e) = toInteger(x.entity_id) }
+          OR NOT EXISTS { MATCH (c {workspace: $workspace}) WHERE id(c) = toInteger(x.candidate_id) }
+       DELETE x`,
+      { workspace: this.workspace },
+    )
+  }
+
   async createEntityWithMerge(entity: Omit<Entity, "id">): Promise<Entity> {
     try {
+      const cypherLabel = toCypherLabel(entity.type, "entity")
       const query = `
-        MERGE (n:${entity.type} {label: $label})
-        ON CREATE SET 
+        ${KNOWN_LABEL(cypherLabel, "$label")}
+        MERGE (n:${cypherLabel} {label: coalesce(known_label, $label), workspace: $workspace})
+        ON CREATE SET
           n.confidence = $confidence,
           n.aliases = $aliases,
           n.created_at = datetime(),
           n += $properties
-        ON MATCH SET 
+        ON MATCH SET
           n.confidence = CASE WHEN $confidence > coalesce(n.confidence, 0) THEN $confidence ELSE n.confidence END,
-          n.aliases = CASE WHEN $aliases IS NOT NULL THEN 
-            coalesce(n.aliases, []) + $aliases
-            ELSE n.aliases END,
+          ${APPEND_ALIASES("n", "$aliases + $label")},
           n.updated_at = datetime(),
           n += $properties
+        SET ${APPEND_ATTRIBUTE_LISTS("n", "$")}
         RETURN n
       `
 
       const result = await this.session.run(query, {
         label: entity.label,
+        workspace: this.workspace,
         confidence: entity.confidence || 0.8,
-        aliases: entity.aliases || [],
-        properties: entity.properties || {},
+        aliases: aliasSet(entity.label, entity.aliases),
+        ...withAttributeLists(entity.properties || {}),
       })
 
       const node = result.records[0].get("n")
       return {
         id: node.identity.toString(),
         label: node.properties.label,
-        type: entity.type,
+        type: normalizeTypeLabel(entity.type),
         properties: node.properties,
         confidence: node.properties.confidence,
         aliases: node.properties.aliases,
@@ -161,28 +564,58 @@ export class EnhancedNeo4jService {
         return null
       }
 
-      // Check if relationship already exists
-      const existingRel = await this.findRelationship(sourceEntity.id, targetEntity.id, relationshipType)
+      const evidence = evidenceFrom(properties)
+      const period = normalizeQualifiers(properties)
+
+      // An existing relationship of the same period gains this sighting as further evidence
+      const existingRel = await this.findRelationship(sourceEntity.id, targetEntity.id, relationshipType, period)
       if (existingRel) {
         console.log(`Relationship already exists: ${sourceLabel} -[${relationshipType}]-> ${targetLabel}`)
-        return existingRel
+        const updated = await this.session.executeWrite(async (tx) => {
+          await tx.run(
+            `MATCH ()-[r]->() WHERE id(r) = $id
+             SET r.evidence = coalesce(r.evidence, []) + $evidence, r.updated_at = datetime(),
+               ${FILL_TEMPORAL("r", "$temporal")},
+               ${APPEND_ATTRIBUTE_LISTS("r", "$")}
+             SET r += $attributeValues
+             REMOVE ${INFERENCE_PROPERTIES("r")}`,
+            {
+              id: neo4j.int(existingRel.id),
+              evidence: serializeEvidence(evidence),
+              temporal: period,
+              ...withAttributeLists(properties),
+              attributeValues: attributeValues(properties),
+            },
+          )
+          return this.refreshEvidence(tx, [existingRel.id])
+        })
+        const refreshed = updated.get(existingRel.id)
+        return refreshed ? { ...existingRel, properties: refreshed, confidence: refreshed.confidence } : existingRel
       }
 
+      const summary = summarizeEvidence([evidence])
+
       const query = `
-        MATCH (a:${sourceType} {label: $sourceLabel})
-        MATCH (b:${targetType} {label: $targetLabel})
-        CREATE (a)-[r:${relationshipType}]->(b)
+        MATCH (a:${toCypherLabel(sourceType, "entity")} {label: $sourceLabel, workspace: $workspace})
+        MATCH (b:${toCypherLabel(targetType, "entity")} {label: $targetLabel, workspace: $workspace})
+        CREATE (a)-[r:${toCypherLabel(relationshipType, "relationship")}]->(b)
         SET r += $properties
         SET r.created_at = datetime()
         SET r.confidence = $confidence
+        SET r.support_count = $supportCount
+        SET r.evidence = [$evidence]
+        SET r.workspace = $workspace
         RETURN r, id(a) as sourceId, id(b) as targetId
       `
 
       const result = await this.session.run(query, {
-        sourceLabel,
-        targetLabel,
+        sourceLabel: sourceEntity.label,
+        targetLabel: targetEntity.label,
+        workspace: this.workspace,
         properties,
-        confidence: properties.confidence || 0.8,
+        confidence: summary.confidence,
+        supportCount: neo4j.int(summary.support_count),
+        evidence: serializeEvidence(evidence),
       })
 
       if (result.records.length === 0) {
@@ -197,8 +630,8 @@ export class EnhancedNeo4jService {
         id: relationship.identity.toString(),
         source: sourceId.toString(),
         target: targetId.toString(),
-        type: relationshipType,
-        properties: relationship.properties,
+        type: normalizeTypeLabel(relationshipType),
+        properties: this.relationshipProperties(relationship),
         confidence: relationship.properties.confidence,
       }
     } catch (error) {
@@ -207,11 +640,17 @@ export class EnhancedNeo4jService {
     }
   }
 
-  private async findRelationship(sourceId: string, targetId: string, type: string): Promise<Relationship | null> {
+  // The relationship between the two nodes whose period the given one can share (see samePeriod)
+  private async findRelationship(
+    sourceId: string,
+    targetId: string,
+    type: string,
+    period: TemporalQualifiers = {},
+  ): Promise<Relationship | null> {
     try {
       const result = await this.session.run(
-        `MATCH (a)-[r:${type}]->(b) 
-         WHERE id(a) = $sourceId AND id(b) = $targetId 
+        `MATCH (a)-[r:${toCypherLabel(type, "relationship")}]->(b)
+         WHERE id(a) = $sourceId AND id(b) = $targetId
          RETURN r, id(a) as sourceId, id(b) as targetId`,
         {
           sourceId: Number.parseInt(sourceId),
@@ -219,17 +658,18 @@ export class EnhancedNeo4jService {
         },
       )
 
-      if (result.records.length > 0) {
-        const relationship = result.records[0].get("r")
-        const srcId = result.records[0].get("sourceId")
-        const tgtId = result.records[0].get("targetId")
+      const record = result.records.find((record) => samePeriod(record.get("r").properties, period))
+      if (record) {
+        const relationship = record.get("r")
+        const srcId = record.get("sourceId")
+        const tgtId = record.get("targetId")
 
         return {
           id: relationship.identity.toString(),
           source: srcId.toString(),
           target: tgtId.toString(),
-          type: type,
-          properties: relationship.properties,
+          type: normalizeTypeLabel(type),
+          properties: this.relationshipProperties(relationship),
           confidence: relationship.properties.confidence,
         }
       }
@@ -241,13 +681,616 @@ export class EnhancedNeo4jService {
     }
   }
 
-  async getAllEntitiesAndRelationships(): Promise<{ entities: Entity[]; relationships: Relationship[] }> {
+  async bulkUpsert(batch: GraphBatch): Promise<GraphData> {
+    try {
+      return await this.session.executeWrite((tx) => this.upsertBatch(tx, batch))
+    } catch (error) {
+      console.error("Error in bulk upsert:", error)
+      throw error
+    }
+  }
+
+  async ingest(batch: GraphBatch, options: IngestionOptions): Promise<IngestionResult> {
+    const runId = randomUUID()
+    const startedAt = new Date().toISOString()
+
+    try {
+      const result = await this.session.executeWrite(async (tx) => {
+        if (options.clearBefore) {
+          console.log("Clearing previous graph data...")
+          await tx.run("MATCH (n {workspace: $workspace}) DETACH DELETE n", { workspace: this.workspace })
+        }
+
+        const written = await this.upsertBatch(tx, { ...batch, runId })
+
+        const runResult = await tx.run(
+          `CREATE (run:IngestionRun {
+             id: $runId,
+             workspace: $workspace,
+             source: $source,
+             status: "completed",
+             started_at: datetime($startedAt),
+             completed_at: datetime(),
+             entity_count: $entityCount,
+             relationship_count: $relationshipCount
+           })
+           RETURN run`,
+          {
+            runId,
+            workspace: this.workspace,
+            source: options.source,
+            startedAt,
+            entityCount: neo4j.int(written.entities.length),
+            relationshipCount: neo4j.int(written.relationships.length),
+          },
+        )
+
+        return { ...written, run: this.toIngestionRun(runResult.records[0].get("run")) }
+      })
+
+      console.log(`Ingestion run ${runId} committed`)
+      return result
+    } catch (error) {
+      console.error(`Ingestion run ${runId} failed, transaction rolled back:`, error)
+      await this.recordFailedRun(runId, options.source, startedAt, error)
+      throw new IngestionError(runId, error)
+    }
+  }
+
+  async listIngestionRuns(): Promise<IngestionRun[]> {
+    try {
+      const result = await this.session.run(
+        `MATCH (run:IngestionRun {workspace: $workspace})
+         RETURN run
+         ORDER BY run.started_at DESC`,
+        { workspace: this.workspace },
+      )
+
+      return result.records.map((record) => this.toIngestionRun(record.get("run")))
+    } catch (error) {
+      console.error("Error listing ingestion runs:", error)
+      throw error
+    }
+  }
+
+  async undoIngestionRun(runId: string): Promise<UndoResult> {
+    try {
+      return await this.session.executeWrite(async (tx) => {
+        const runResult = await tx.run("MATCH (run:IngestionRun {id: $runId, workspace: $workspace}) RETURN run", {
+          runId,
+          workspace: this.workspace,
+        })
+
+        if (runResult.records.length === 0) {
+          throw new IngestionUndoError(`Ingestion run ${runId} does not exist in workspace "${this.workspace}"`)
+        }
+
+        const run = this.toIngestionRun(runResult.records[0].get("run"))
+        if (run.status !== "completed") {
+          throw new IngestionUndoError(
+            run.status === "undone"
+              ? `Ingestion run ${runId} has already been undone`
+              : `Ingestion run ${runId} failed and has nothing to undo`,
+          )
+        }
+
+        // Relationships first, so entity deletion only detaches edges other runs still rely on
+        const relationshipResult = await tx.run(
+          `MATCH ()-[r]->()
+           WHERE r.workspace = $workspace AND $runId IN coalesce(r.run_ids, [])
+           SET r.run_ids = [id IN r.run_ids WHERE id <> $runId]
+           WITH r, size(r.run_ids) = 0 AS orphaned, type(r) = $mentionedIn AS provenance
+           WITH r, orphaned, provenance, CASE WHEN orphaned OR provenance THEN null ELSE id(r) END AS keptId
+           FOREACH (_ IN CASE WHEN orphaned THEN [1] ELSE [] END | DELETE r)
+           RETURN sum(CASE WHEN orphaned AND NOT provenance THEN 1 ELSE 0 END) AS deleted,
+                  sum(CASE WHEN orphaned OR provenance THEN 0 ELSE 1 END) AS updated,
+                  collect(keptId) AS keptIds`,
+          { runId, workspace: this.workspace, mentionedIn: MENTIONED_IN },
+        )
+
+        // Relationships other runs still support lose this run's evidence and are re-scored
+        const keptIds: string[] = relationshipResult.records[0].get("keptIds").map((id: any) => id.toString())
+        await this.refreshEvidence(tx, keptIds, (evidence) => evidence.runId !== runId)
+
+        const entityResult = await tx.run(
+          `MATCH (n {workspace: $workspace})
+           WHERE $runId IN coalesce(n.run_ids, [])
+           SET n.run_ids = [id IN n.run_ids WHERE id <> $runId]
+           WITH n, size(n.run_ids) = 0 AS orphaned, any(l IN labels(n) WHERE l IN $systemLabels) AS system
+           FOREACH (_ IN CASE WHEN orphaned THEN [1] ELSE [] END | DETACH DELETE n)
+           RETURN sum(CASE WHEN orphaned AND NOT system THEN 1 ELSE 0 END) AS deleted,
+                  sum(CASE WHEN orphaned OR system THEN 0 ELSE 1 END) AS updated`,
+          { runId, workspace: this.workspace, systemLabels: SYSTEM_LABELS },
+        )
+
+        await this.pruneMergeSuggestions(tx)
+
+        const undone = await tx.run(
+          `MATCH (run:IngestionRun {id: $runId, workspace: $workspace})
+           SET run.status = "undone", run.undone_at = datetime()
+           RETURN run`,
+          { runId, workspace: this.workspace },
+        )
+
+        const relationshipCounts = relationshipResult.records[0]
+        const entityCounts = entityResult.records[0]
+
+        console.log(`Ingestion run ${runId} undone`)
+
+        return {
+          run: this.toIngestionRun(undone.records[0].get("run")),
+          deletedEntities: Number(entityCounts.get("deleted")),
+          deletedRelationships: Number(relationshipCounts.get("deleted")),
+          updatedEntities: Number(entityCounts.get("updated")),
+          updatedRelationships: Number(relationshipCounts.get("updated")),
+        }
+      })
+    } catch (error) {
+      console.error("Error undoing ingestion run:", error)
+      throw error
+    }
+  }
+
+  async addInferredRelationships(relationships: InferredRelationshipInput[]): Promise<number> {
+    try {
+      const byType = new Map<string, InferredRelationshipInput[]>()
+      for (const input of relationships) {
+        const type = toCypherLabel(input.type, "relationship")
+        byType.set(type, [...(byType.get(type) || []), input])
+      }
+
+      return await this.session.executeWrite(async (tx) => {
+        let written = 0
+        for (const [type, rows] of byType) {
+          const result = await tx.run(
+            `UNWIND $rows AS row
+             MATCH (a {workspace: $workspace}) WHERE id(a) = row.sourceId
+             MATCH (b {workspace: $workspace}) WHERE id(b) = row.targetId AND NOT (a)-[:${type}]->(b)
+             CREATE (a)-[r:${type}]->(b)
+             SET r.inferred = true,
+               r.rule = row.rule,
+               r.premises = row.premises,
+               r.confidence = row.confidence,
+               r.modality = row.modality,
+               r.valid_from = row.valid_from,
+               r.valid_to = row.valid_to,
+               r.workspace = $workspace,
+               r.created_at = datetime()
+             RETURN count(r) AS written`,
+            {
+              workspace: this.workspace,
+              rows: rows.map((row) => ({
+                sourceId: neo4j.int(row.sourceId),
+                targetId: neo4j.int(row.targetId),
+                rule: row.rule,
+                premises: row.premises,
+                confidence: row.confidence,
+                modality: row.modality,
+                valid_from: row.valid_from ?? null,
+                valid_to: row.valid_to ?? null,
+              })),
+            },
+          )
+          written += Number(result.records[0].get("written"))
+        }
+        return written
+      })
+    } catch (error) {
+      console.error("Error adding inferred relationships:", error)
+      throw error
+    }
+  }
+
+  async clearInferredRelationships(): Promise<number> {
+    try {
+      const result = await this.session.run(
+        `MATCH ({workspace: $workspace})-[r {inferred: true}]->()
+         DELETE r
+         RETURN count(r) AS deleted`,
+        { workspace: this.workspace },
+      )
+      return Number(result.records[0].get("deleted"))
+    } catch (error) {
+      console.error("Error clearing inferred relationships:", error)
+      throw error
+    }
+  }
+
+  async getEntityMentions(entityId: string): Promise<EntityMention[]> {
+    try {
+      const result = await this.session.run(
+        `MATCH (n {workspace: $workspace})-[m:${MENTIONED_IN}]->(d:Document {workspace: $workspace})
+         WHERE id(n) = $entityId
+         RETURN m, d
+         ORDER BY d.uploaded_at DESC, m.start`,
+        { workspace: this.workspace, entityId: neo4j.int(entityId) },
+      )
+
+      return result.records.map((record) => {
+        const mention = record.get("m")
+        return {
+          document: this.toDocument(record.get("d")),
+          start: Number(mention.properties.start),
+          end: Number(mention.properties.end),
+          sentence: mention.properties.sentence,
+          page: mention.properties.page != null ? Number(mention.properties.page) : undefined,
+        }
+      })
+    } catch (error) {
+      console.error("Error loading entity mentions:", error)
+      throw error
+    }
+  }
+
+  private async recordFailedRun(runId: string, source: string, startedAt: string, cause: unknown): Promise<void> {
+    try {
+      await this.session.run(
+        `CREATE (:IngestionRun {
+           id: $runId,
+           workspace: $workspace,
+           source: $source,
+           status: "failed",
+           started_at: datetime($startedAt),
+           completed_at: datetime(),
+           entity_count: 0,
+           relationship_count: 0,
+           error: $error
+         })`,
+        {
+          runId,
+          workspace: this.workspace,
+          source,
+          startedAt,
+          error: cause instanceof Error ? cause.message : String(cause),
+        },
+      )
+    } catch (error) {
+      console.error(`Could not record failed ingestion run ${runId}:`, error)
+    }
+  }
+
+  private async upsertBatch(
+    tx: ManagedTransaction,
+    batch: GraphBatch,
+  ): Promise<GraphData & { document?: SourceDocument }> {
+    const runId = batch.runId ?? null
+    const entities = new Map<string, Entity>()
+    const relationships: Relationship[] = []
+    // Node ids keyed by type and lowercased label, so relationship rows can match endpoints by id
+    const nodeIds = new Map<string, string>()
+
+    // One UNWIND per entity type, since labels cannot be parameterized
+    for (const [type, rows] of groupBy(batch.entities, (entity) => normalizeTypeLabel(entity.type))) {
+      const cypherLabel = toCypherLabel(type, "entity")
+      const result = await tx.run(
+        `UNWIND $rows AS row
+         ${KNOWN_LABEL(cypherLabel, "row.label", "row")}
+         MERGE (n:${cypherLabel} {label: coalesce(known_label, row.label), workspace: $workspace})
+         ON CREATE SET
+           n.confidence = row.confidence,
+           n.aliases = row.aliases,
+           n.created_at = datetime(),
+           n.created_run = $runId,
+           n += row.properties
+         ON MATCH SET
+           n.confidence = CASE WHEN row.confidence > coalesce(n.confidence, 0) THEN row.confidence ELSE n.confidence END,
+           ${APPEND_ALIASES("n", "row.aliases + row.label")},
+           n.updated_at = datetime(),
+           n += row.properties
+         SET ${appendRunId("n")}, ${APPEND_ATTRIBUTE_LISTS("n")}
+         RETURN n, row.label AS name`,
+        {
+          workspace: this.workspace,
+          runId,
+          rows: rows.map((entity) => ({
+            label: entity.label,
+            confidence: entity.confidence || 0.8,
+            aliases: aliasSet(entity.label, entity.aliases),
+            ...withAttributeLists(entity.properties || {}),
+          })),
+        },
+      )
+
+      for (const record of result.records) {
+        const entity = this.toEntity(record.get("n"), type)
+        entities.set(entity.id, entity)
+        nodeIds.set(nodeKey(type, entity.label), entity.id)
+        nodeIds.set(nodeKey(type, record.get("name")), entity.id)
+      }
+    }
+
+    // Endpoints outside this batch are looked up once, by label or alias
+    const missing = new Map<string, { type: string; label: string }>()
+    for (const rel of batch.relationships) {
+      for (const [label, rawType] of [
+        [rel.sourceLabel, rel.sourceType],
+        [rel.targetLabel, rel.targetType],
+      ]) {
+        const type = normalizeTypeLabel(rawType)
+        const key = nodeKey(type, label)
+        if (!nodeIds.has(key)) missing.set(key, { type, label })
+      }
+    }
+
+    if (missing.size > 0) {
+      const result = await tx.run(
+        `UNWIND $keys AS key
+         MATCH (n {workspace: $workspace})
+         WHERE key.type IN labels(n) AND (
+           toLower(n.label) = toLower(key.label) OR
+           any(alias IN coalesce(n.aliases, []) WHERE toLower(alias) = toLower(key.label))
+         )
+         RETURN key.type AS type, key.label AS label, id(n) AS id`,
+        { workspace: this.workspace, keys: Array.from(missing.values()) },
+      )
+
+      for (const record of result.records) {
+        nodeIds.set(nodeKey(record.get("type"), record.get("label")), record.get("id").toString())
+      }
+    }
+
+    const resolved = batch.relationships
+      .map((rel) => ({
+        rel,
+        sourceId: nodeIds.get(nodeKey(normalizeTypeLabel(rel.sourceType), rel.sourceLabel)),
+        targetId: nodeIds.get(nodeKey(normalizeTypeLabel(rel.targetType), rel.targetLabel)),
+      }))
+      .filter(({ rel, sourceId, targetId }) => {
+        if (sourceId && targetId) return true
+        console.warn(
+          `Cannot create relationship: source (${rel.sourceLabel}) or target (${rel.targetLabel}) not found`,
+        )
+        return false
+      })
+
+    // One UNWIND per relationship type; existing relationships of the same period accumulate the new sighting as
+    // evidence
+    for (const [type, rows] of groupBy(resolved, ({ rel }) => normalizeTypeLabel(rel.type))) {
+      const cypherType = toCypherLabel(type, "relationship")
+      const ids = await this.periodRelationships(tx, cypherType, rows, runId)
+      const result = await tx.run(
+        `UNWIND $rows AS row
+         MATCH (a)-[r:${cypherType}]->(b) WHERE id(r) = row.id
+         SET ${appendRunId("r")},
+           r.evidence = CASE WHEN row.evidence IN coalesce(r.evidence, []) THEN r.evidence
+             ELSE coalesce(r.evidence, []) + row.evidence END,
+           ${FILL_TEMPORAL("r", "row.properties")},
+           ${APPEND_ATTRIBUTE_LISTS("r")}
+         SET r += row.attributeValues
+         REMOVE ${INFERENCE_PROPERTIES("r")}
+         RETURN r, id(a) AS sourceId, id(b) AS targetId`,
+        {
+          runId,
+          rows: rows.map(({ rel }, index) => ({
+            id: neo4j.int(ids[index]),
+            ...withAttributeLists(rel.properties),
+            attributeValues: attributeValues(rel.properties),
+            evidence: serializeEvidence(evidenceFrom(rel.properties, { runId: batch.runId, document: batch.document })),
+          })),
+        },
+      )
+
+      for (const record of result.records) {
+        relationships.push({
+          id: record.get("r").identity.toString(),
+          source: record.get("sourceId").toString(),
+          target: record.get("targetId").toString(),
+          type,
+          properties: record.get("r").properties,
+          confidence: record.get("r").properties.confidence,
+        })
+      }
+    }
+
+    // Confidence, support count and modality are derived from the accumulated evidence
+    const refreshed = await this.refreshEvidence(tx, relationships.map((rel) => rel.id))
+    for (const rel of relationships) {
+      const properties = refreshed.get(rel.id)
+      if (properties) {
+        rel.properties = properties
+        rel.confidence = properties.confidence
+      }
+    }
+
+    const document = batch.document ? await this.upsertDocument(tx, batch, nodeIds) : undefined
+
+    console.log(`Bulk upsert wrote ${entities.size} entities and ${relationships.length} relationships`)
+
+    return { entities: Array.from(entities.values()), relationships, document }
+  }
+
+  // The relationship each row is written to: one between its nodes whose period the row can share (see
+  // samePeriod), or else one created here, which later rows of that period share as well. A period that ended
+  // and a later one are kept as two relationships.
+  private async periodRelationships(
+    tx: ManagedTransaction,
+    cypherType: string,
+    rows: { rel: GraphBatch["relationships"][number]; sourceId?: string; targetId?: string }[],
+    runId: string | null,
+  ): Promise<string[]> {
+    const pairKey = (sourceId: unknown, targetId: unknown) => `${sourceId}|${targetId}`
+    const pairs = new Map(rows.map(({ sourceId, targetId }) => [pairKey(sourceId, targetId), { sourceId, targetId }]))
+    const existing = await tx.run(
+      `UNWIND $pairs AS pair
+       MATCH (a)-[r:${cypherType}]->(b) WHERE id(a) = pair.sourceId AND id(b) = pair.targetId
+       RETURN id(a) AS sourceId, id(b) AS targetId, id(r) AS id, properties(r) AS properties`,
+      {
+        pairs: Array.from(pairs.values()).map(({ sourceId, targetId }) => ({
+          sourceId: neo4j.int(sourceId!),
+          targetId: neo4j.int(targetId!),
+        })),
+      },
+    )
+
+    type Slot = { pair: string; period: TemporalQualifiers; id?: string; row?: (typeof rows)[number] }
+    const slots: Slot[] = existing.records.map((record) => ({
+      pair: pairKey(record.get("sourceId"), record.get("targetId")),
+      period: normalizeQualifiers(record.get("properties")),
+      id: record.get("id").toString(),
+    }))
+
+    const assigned = rows.map((row) => {
+      const pair = pairKey(row.sourceId, row.targetId)
+      const period = normalizeQualifiers(row.rel.properties)
+      let slot = slots.find((candidate) => candidate.pair === pair && samePeriod(candidate.period, period))
+      if (!slot) slots.push((slot = { pair, period: {}, row }))
+      // Bounds the relationship does not have yet are filled from the row, as the write below does
+      slot.period = { ...period, ...slot.period }
+      return slot
+    })
+
+    const created = slots.filter((slot) => !slot.id)
+    if (created.length > 0) {
+      const result = await tx.run(
+        `UNWIND $rows AS row
+         MATCH (a) WHERE id(a) = row.sourceId
+         MATCH (b) WHERE id(b) = row.targetId
+         CREATE (a)-[r:${cypherType}]->(b)
+         SET r += row.properties,
+           r.created_at = datetime(),
+           r.confidence = row.confidence,
+           r.workspace = $workspace,
+           r.created_run = $runId
+         RETURN row.index AS index, id(r) AS id`,
+        {
+          workspace: this.workspace,
+          runId,
+          rows: created.map(({ row }, index) => ({
+            index: neo4j.int(index),
+            sourceId: neo4j.int(row!.sourceId!),
+            targetId: neo4j.int(row!.targetId!),
+            properties: withAttributeLists(row!.rel.properties).properties,
+            confidence: row!.rel.properties.confidence || 0.8,
+          })),
+        },
+      )
+      for (const record of result.records) {
+        created[record.get("index").toNumber()].id = record.get("id").toString()
+      }
+    }
+
+    return assigned.map((slot) => slot.id!)
+  }
+
+  // Recomputes confidence, support_count and modality from each relationship's evidence, optionally filtered first.
+  // Returns the updated properties (with parsed evidence) keyed by relationship id.
+  private async refreshEvidence(
+    tx: ManagedTransaction,
+    relationshipIds: string[],
+    keep: (evidence: Evidence) => boolean = () => true,
+  ): Promise<Map<string, Record<string, any>>> {
+    const updated = new Map<string, Record<string, any>>()
+    if (relationshipIds.length === 0) return updated
+
+    const current = await tx.run(
+      `UNWIND $ids AS id
+       MATCH ()-[r]->() WHERE id(r) = id
+       RETURN id(r) AS id, r.evidence AS evidence, r.confidence AS confidence`,
+      { ids: Array.from(new Set(relationshipIds)).map((id) => neo4j.int(id)) },
+    )
+
+    const rows = current.records.map((record) => {
+      const evidence = parseEvidence(record.get("evidence")).filter(keep)
+      const summary = summarizeEvidence(evidence, record.get("confidence") ?? undefined)
+      return {
+        id: record.get("id"),
+        evidence: evidence.map(serializeEvidence),
+        confidence: summary.confidence,
+        supportCount: neo4j.int(summary.support_count),
+        modality: summary.modality,
+      }
+    })
+
+    const result = await tx.run(
+      `UNWIND $rows AS row
+       MATCH ()-[r]->() WHERE id(r) = row.id
+       SET r.evidence = row.evidence,
+         r.confidence = row.confidence,
+         r.support_count = row.supportCount,
+         r.modality = row.modality
+       RETURN r`,
+      { rows },
+    )
+
+    for (const record of result.records) {
+      const relationship = record.get("r")
+      updated.set(relationship.identity.toString(), this.relationshipProperties(relationship))
+    }
+
+    return updated
+  }
+
+  // Re-uploading the same content reuses its Document node; mentions are keyed by offsets so they are not duplicated
+  private async upsertDocument(
+    tx: ManagedTransaction,
+    batch: GraphBatch,
+    nodeIds: Map<string, string>,
+  ): Promise<SourceDocument> {
+    const runId = batch.runId ?? null
+    const document = batch.document!
+
+    const result = await tx.run(
+      `MERGE (d:Document {hash: $hash, workspace: $workspace})
+       ON CREATE SET d.created_run = $runId
+       SET d.name = $name,
+           d.size = $size,
+           d.extractor = $extractor,
+           d.uploaded_at = datetime(),
+           ${appendRunId("d")}
+       RETURN d`,
+      {
+        workspace: this.workspace,
+        runId,
+        hash: document.hash,
+        name: document.name,
+        size: neo4j.int(document.size),
+        extractor: document.extractor,
+      },
+    )
+
+    const rows = (batch.mentions || []).flatMap((mention) => {
+      const entityId = nodeIds.get(nodeKey(normalizeTypeLabel(mention.type), mention.label))
+      if (!entityId) return []
+      return [
+        {
+          entityId: neo4j.int(entityId),
+          start: neo4j.int(mention.start),
+          end: neo4j.int(mention.end),
+          sentence: mention.sentence,
+          page: mention.page != null ? neo4j.int(mention.page) : null,
+        },
+      ]
+    })
+
+    if (rows.length > 0) {
+      await tx.run(
+        `MATCH (d:Document {hash: $hash, workspace: $workspace})
+         UNWIND $rows AS row
+         MATCH (n) WHERE id(n) = row.entityId
+         MERGE (n)-[m:${MENTIONED_IN} {start: row.start, end: row.end}]->(d)
+         ON CREATE SET
+           m.workspace = $workspace,
+           m.created_at = datetime(),
+           m.created_run = $runId
+         SET m.sentence = row.sentence,
+             m.page = row.page,
+             ${appendRunId("m")}`,
+        { workspace: this.workspace, runId, hash: document.hash, rows },
+      )
+    }
+
+    return this.toDocument(result.records[0].get("d"))
+  }
+
+  async getAllEntitiesAndRelationships(options: GraphQueryOptions = {}): Promise<GraphData> {
     try {
       // Get all entities
       const entitiesResult = await this.session.run(
-        `MATCH (n) 
-         RETURN n, labels(n) as labels 
+        `MATCH (n {workspace: $workspace})
+         WHERE none(l IN labels(n) WHERE l IN $systemLabels)
+         RETURN n, labels(n) as labels
          ORDER BY coalesce(n.confidence, 1.0) DESC, n.label`,
+        { workspace: this.workspace, systemLabels: SYSTEM_LABELS },
       )
 
       const entities: Entity[] = entitiesResult.records.map((record) => {
@@ -265,9 +1308,15 @@ export class EnhancedNeo4jService {
 
       // Get all relationships
       const relationshipsResult = await this.session.run(
-        `MATCH (a)-[r]->(b) 
+        `MATCH (a {workspace: $workspace})-[r]->(b {workspace: $workspace})
+         WHERE none(l IN labels(a) + labels(b) WHERE l IN $systemLabels)
+           AND ($asOf IS NULL OR (
+             coalesce(r.valid_from, $asOf) <= $asOf AND coalesce(r.valid_to, $asOf) >= $asOf
+             AND coalesce(r.as_of, $asOf) <= $asOf
+           ))
          RETURN r, id(a) as sourceId, id(b) as targetId, type(r) as relType, a.label as sourceLabel, b.label as targetLabel
          ORDER BY coalesce(r.confidence, 1.0) DESC`,
+        { workspace: this.workspace, systemLabels: SYSTEM_LABELS, asOf: options.asOf ?? null },
       )
 
       const relationships: Relationship[] = relationshipsResult.records.map((record) => {
@@ -281,7 +1330,7 @@ export class EnhancedNeo4jService {
           source: sourceId.toString(),
           target: targetId.toString(),
           type: relType,
-          properties: relationship.properties,
+          properties: this.relationshipProperties(relationship),
           confidence: relationship.properties.confidence || 1.0,
         }
       })
@@ -297,4 +1346,83 @@ export class EnhancedNeo4jService {
     await this.session.close()
     await this.driver.close()
   }
+
+  private toEntity(node: any, type: string): Entity {
+    return {
+      id: node.identity.toString(),
+      label: node.properties.label,
+      type,
+      properties: node.properties,
+      confidence: node.properties.confidence,
+      aliases: node.properties.aliases,
+    }
+  }
+
+  // Evidence is stored as JSON strings and returned as objects
+  private relationshipProperties(relationship: any): Record<string, any> {
+    const properties = { ...relationship.properties }
+    if (properties.evidence !== undefined) properties.evidence = parseEvidence(properties.evidence)
+    if (properties.support_count !== undefined) properties.support_count = Number(properties.support_count)
+    return properties
+  }
+
+  private toIngestionRun(node: any): IngestionRun {
+    return {
+      id: node.properties.id,
+      source: node.properties.source,
+      status: node.properties.status,
+      startedAt: node.properties.started_at?.toString() || "",
+      completedAt: node.properties.completed_at?.toString() || "",
+      entityCount: Number(node.properties.entity_count ?? 0),
+      relationshipCount: Number(node.properties.relationship_count ?? 0),
+      error: node.properties.error,
+      undoneAt: node.properties.undone_at?.toString(),
+    }
+  }
+
+  private toDocument(node: any): SourceDocument {
+    return {
+      id: node.identity.toString(),
+      name: node.properties.name,
+      hash: node.properties.hash,
+      size: Number(node.properties.size ?? 0),
+      extractor: node.properties.extractor,
+      uploadedAt: node.properties.uploaded_at?.toString() || "",
+    }
+  }
+
+  private toWorkspace(node: any): Workspace {
+    return {
+      name: node.properties.name,
+      createdAt: node.properties.created_at?.toString() || "",
+    }
+  }
+}
+
+// Attribute lists are appended to rather than replaced, so they are passed beside the other properties
+function withAttributeLists(properties: Record<string, any>) {
+  const { [ATTRIBUTE_LIST]: attributes, [ATTRIBUTE_KEYS]: attributeKeys, ...rest } = properties
+  return { properties: rest, attributes: attributes ?? null, attributeKeys: attributeKeys ?? null }
+}
+
+function nodeKey(type: string, label: string): string {
+  return `${type}|${label.toLowerCase()}`
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const key = keyOf(item)
+    const group = groups.get(key)
+    if (group) {
+      group.push(item)
+    } else {
+      groups.set(key, [item])
+    }
+  }
+  return groups
+}
+
+function union<T>(a: T[] | undefined, b: T[] | undefined): T[] {
+  return Array.from(new Set([...(a || []), ...(b || [])]))
 }
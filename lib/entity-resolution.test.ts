@@ -0,0 +1,40 @@
+import assert from "node:assert/strict"
+import { randomUUID } from "node:crypto"
+import { test } from "node:test"
+import { resolveExtraction } from "./entity-resolution"
+import { InMemoryGraphStore } from "./in-memory-graph-store"
+
+async function storeWith(label: string, type: string): Promise<InMemoryGraphStore> {
+  const store = new InMemoryGraphStore(`test-${randomUUID().slice(0, 8)}`)
+  const entities = [{ label, type, properties: {}, confidence: 0.9 }]
+  await store.ingest({ entities, relationships: [] }, { source: "seed" })
+  return store
+}
+
+function extraction(label: string, type: string) {
+  return { entities: [{ label, type, properties: {}, confidence: 0.8 }], relationships: [] }
+}
+
+test("an entity merges into an existing node of a subtype and takes its type", async () => {
+  const store = await storeWith("Apple Inc", "COMPANY")
+  const resolution = await resolveExtraction(store, extraction("Apple", "ORGANIZATION"))
+
+  assert.deepEqual(resolution.merges.map((merge) => merge.into), ["Apple Inc"])
+  assert.equal(resolution.entities[0].label, "Apple Inc")
+  assert.equal(resolution.entities[0].type, "COMPANY")
+})
+
+test("a CONCEPT matching a typed node is suggested rather than merged", async () => {
+  const store = await storeWith("Apple Inc", "COMPANY")
+  const resolution = await resolveExtraction(store, extraction("Apple", "CONCEPT"))
+
+  assert.equal(resolution.merges.length, 0)
+  assert.equal(resolution.suggestions[0]?.candidate.label, "Apple Inc")
+})
+
+test("unrelated types never match", async () => {
+  const store = await storeWith("Apple Inc", "COMPANY")
+  const resolution = await resolveExtraction(store, extraction("Apple", "PERSON"))
+
+  assert.equal(resolution.merges.length + resolution.suggestions.length, 0)
+})
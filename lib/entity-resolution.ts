@@ -0,0 +1,344 @@
+import type { Entity as StoredEntity, EntityWithNeighbors, GraphStore, MergeSuggestionInput } from "./graph-store"
+import { normalizeTypeLabel } from "./type-labels"
+import { aliasSet } from "./aliases"
+import { DEFAULT_ONTOLOGY, entityTypeNames, isSubtypeOf, type Ontology } from "./ontology"
+
+interface Entity {
+  label: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+  aliases?: string[]
+}
+
+interface Relationship {
+  source: string
+  target: string
+}
+
+interface ResolvableEntity {
+  label: string
+  type: string
+  aliases?: string[]
+  // Labels of directly connected entities
+  neighbors?: string[]
+}
+
+export interface MatchScore {
+  score: number
+  // Best of whole-name Jaro-Winkler and fuzzy token containment
+  name: number
+  // 1 when a label or alias of one entity is a label or alias of the other
+  alias: number
+  // Jaccard overlap of neighbor labels
+  neighbors: number
+}
+
+// Merged into an existing node or another entity of the same extraction before writing
+export interface AutoMerge {
+  label: string
+  type: string
+  into: string
+  score: number
+}
+
+interface EntityRef {
+  label: string
+  type: string
+  // Set when the candidate already exists in the graph
+  id?: string
+}
+
+export interface PendingSuggestion {
+  entity: EntityRef
+  candidate: EntityRef
+  match: MatchScore
+}
+
+export interface ResolutionResult<E extends Entity, R extends Relationship> {
+  entities: E[]
+  relationships: R[]
+  merges: AutoMerge[]
+  suggestions: PendingSuggestion[]
+}
+
+export const AUTO_MERGE_THRESHOLD = Number(process.env.ENTITY_AUTO_MERGE_THRESHOLD) || 0.92
+export const SUGGESTION_THRESHOLD = Number(process.env.ENTITY_SUGGESTION_THRESHOLD) || 0.75
+
+// Shared neighbors can lift a borderline name match to a suggestion, but never to an automatic merge: "Steve Jobs"
+// and "Steve Wozniak" both linked to Apple are still two people
+const NEIGHBOR_WEIGHT = 0.15
+const NEIGHBOR_CEILING = AUTO_MERGE_THRESHOLD - 0.01
+// A lone token contained in a longer name ("Jobs" / "Steve Jobs") is plausible but not conclusive
+const SINGLE_TOKEN_PENALTY = 0.9
+const FUZZY_TOKEN_THRESHOLD = 0.9
+// CONCEPT is what an extractor falls back to when it cannot type an entity, so a CONCEPT may be any typed entity;
+// the penalty keeps such a match below the auto-merge threshold, leaving it to review
+const FALLBACK_TYPE = "CONCEPT"
+const FALLBACK_TYPE_PENALTY = 0.9
+
+const IGNORED_TOKENS = new Set(["mr", "mrs", "ms", "dr", "prof", "sir", "the", "inc", "corp", "ltd", "llc", "co"])
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1
+  if (!a || !b) return 0
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatches = new Array(a.length).fill(false)
+  const bMatches = new Array(b.length).fill(false)
+  let matches = 0
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j <= Math.min(b.length - 1, i + window); j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue
+      aMatches[i] = bMatches[j] = true
+      matches++
+      break
+    }
+  }
+
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue
+    while (!bMatches[j]) j++
+    if (a[i] !== b[j]) transpositions++
+    j++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+
+  let prefix = 0
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++
+
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+// Lowercased name tokens without punctuation, honorifics, corporate suffixes or single-letter initials
+export function nameTokens(label: string): string[] {
+  return label
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((token) => token.length > 1 && !IGNORED_TOKENS.has(token))
+}
+
+// 1 when one type is the other or one of its subtypes (COMPANY / ORGANIZATION), reduced when either is the fallback
+// type, 0 otherwise
+export function typeCompatibility(ontology: Ontology, a: string, b: string): number {
+  const [x, y] = [normalizeTypeLabel(a), normalizeTypeLabel(b)]
+  if (isSubtypeOf(ontology, x, y) || isSubtypeOf(ontology, y, x)) return 1
+  return x === FALLBACK_TYPE || y === FALLBACK_TYPE ? FALLBACK_TYPE_PENALTY : 0
+}
+
+export function scoreEntityMatch(
+  a: ResolvableEntity,
+  b: ResolvableEntity,
+  ontology: Ontology = DEFAULT_ONTOLOGY,
+): MatchScore {
+  const none = { score: 0, name: 0, alias: 0, neighbors: 0 }
+  const fit = typeCompatibility(ontology, a.type, b.type)
+  if (fit === 0) return none
+
+  const aNames = namesOf(a)
+  const bNames = namesOf(b)
+  const alias = aNames.some((name) => bNames.includes(name)) ? 1 : 0
+
+  const aTokens = nameTokens(a.label)
+  const bTokens = nameTokens(b.label)
+  const name = Math.max(jaroWinkler(aTokens.join(" "), bTokens.join(" ")), tokenContainment(aTokens, bTokens))
+
+  const neighbors = jaccard(
+    (a.neighbors || []).map((label) => label.toLowerCase()),
+    (b.neighbors || []).map((label) => label.toLowerCase()),
+  )
+
+  const boosted = Math.min(1, name + NEIGHBOR_WEIGHT * neighbors)
+  const score = alias === 1 ? 1 : name >= AUTO_MERGE_THRESHOLD ? boosted : Math.min(boosted, NEIGHBOR_CEILING)
+  return { score: round(score * fit), name: round(name), alias, neighbors: round(neighbors) }
+}
+
+// Scores existing nodes against a label, best first
+export function rankCandidates<T extends ResolvableEntity>(
+  entity: ResolvableEntity,
+  candidates: T[],
+  threshold: number,
+  ontology: Ontology = DEFAULT_ONTOLOGY,
+): { candidate: T; match: MatchScore }[] {
+  return candidates
+    .map((candidate) => ({ candidate, match: scoreEntityMatch(entity, candidate, ontology) }))
+    .filter(({ match }) => match.score >= threshold)
+    .sort((x, y) => y.match.score - x.match.score)
+}
+
+// Resolves an extraction against itself and the workspace before it is written: confident matches are folded
+// into the existing node (or the earlier entity of the same extraction), borderline ones become suggestions.
+// Pass includeExisting: false when the workspace is about to be cleared.
+export async function resolveExtraction<E extends Entity, R extends Relationship>(
+  graphStore: GraphStore,
+  extraction: { entities: E[]; relationships: R[] },
+  { includeExisting = true, ontology = DEFAULT_ONTOLOGY }: { includeExisting?: boolean; ontology?: Ontology } = {},
+): Promise<ResolutionResult<E, R>> {
+  const types = compatibleTypes(ontology, extraction.entities.map((entity) => entity.type))
+  const existing = includeExisting && types.length > 0 ? await graphStore.listEntitiesWithNeighbors(types) : []
+
+  const batchNeighbors = new Map<string, Set<string>>()
+  for (const rel of extraction.relationships) {
+    addNeighbor(batchNeighbors, rel.source, rel.target)
+    addNeighbor(batchNeighbors, rel.target, rel.source)
+  }
+
+  const accepted: E[] = []
+  const renamed = new Map<string, string>()
+  const merges: AutoMerge[] = []
+  const suggestions: PendingSuggestion[] = []
+
+  // Longer names first, so the most specific spelling becomes the canonical one
+  const ordered = [...extraction.entities].sort((a, b) => b.label.length - a.label.length)
+
+  for (const entity of ordered) {
+    const probe = { ...entity, neighbors: Array.from(batchNeighbors.get(entity.label.toLowerCase()) || []) }
+    const [bestExisting] = rankCandidates(probe, existing, SUGGESTION_THRESHOLD, ontology)
+    const [bestAccepted] = rankCandidates(
+      probe,
+      accepted.map((e) => ({ ...e, neighbors: Array.from(batchNeighbors.get(e.label.toLowerCase()) || []) })),
+      SUGGESTION_THRESHOLD,
+      ontology,
+    )
+    const best =
+      bestExisting && (!bestAccepted || bestExisting.match.score >= bestAccepted.match.score)
+        ? { ...bestExisting, existing: true }
+        : bestAccepted && { ...bestAccepted, existing: false }
+
+    if (best && best.match.score >= AUTO_MERGE_THRESHOLD) {
+      const into = best.candidate.label
+      renamed.set(entity.label.toLowerCase(), into)
+
+      if (best.existing) {
+        // The node is written by label and type, so the entity takes the existing node's type as well
+        accepted.push({ ...relabel(entity, into), type: best.candidate.type })
+      } else {
+        const index = accepted.findIndex((e) => e.label === into)
+        const type = narrower(ontology, accepted[index].type, entity.type)
+        accepted[index] = { ...absorb(accepted[index], entity), type }
+      }
+
+      if (entity.label !== into) {
+        merges.push({ label: entity.label, type: entity.type, into, score: best.match.score })
+      }
+      continue
+    }
+
+    if (best) {
+      suggestions.push({
+        entity: { label: entity.label, type: entity.type },
+        candidate: {
+          label: best.candidate.label,
+          type: best.candidate.type,
+          id: best.existing ? (best.candidate as EntityWithNeighbors).id : undefined,
+        },
+        match: best.match,
+      })
+    }
+    accepted.push(entity)
+  }
+
+  const canonical = (label: string) => renamed.get(label.toLowerCase()) ?? label
+  const relationships = extraction.relationships.map((rel) => ({
+    ...rel,
+    source: canonical(rel.source),
+    target: canonical(rel.target),
+  }))
+
+  if (merges.length > 0) {
+    console.log(
+      "Entity resolution merged:",
+      merges.map((merge) => `${merge.label} -> ${merge.into} (${merge.score})`),
+    )
+  }
+
+  return { entities: accepted, relationships, merges, suggestions }
+}
+
+// Turns pending suggestions into id-based ones once the ingestion has written the new nodes
+export function toMergeSuggestions(
+  pending: PendingSuggestion[],
+  written: StoredEntity[],
+): MergeSuggestionInput[] {
+  const idOf = (ref: EntityRef) =>
+    ref.id ??
+    written.find(
+      (entity) =>
+        entity.label.toLowerCase() === ref.label.toLowerCase() && entity.type === normalizeTypeLabel(ref.type),
+    )?.id
+
+  return pending.flatMap((suggestion) => {
+    const entityId = idOf(suggestion.entity)
+    const candidateId = idOf(suggestion.candidate)
+    if (!entityId || !candidateId || entityId === candidateId) return []
+
+    const { score, ...reasons } = suggestion.match
+    return [{ entityId, candidateId, score, reasons }]
+  })
+}
+
+// The batch's types and every type one of them could match: ancestors, subtypes, and all types for a CONCEPT
+function compatibleTypes(ontology: Ontology, types: string[]): string[] {
+  const names = new Set([...types, ...entityTypeNames(ontology)])
+  return Array.from(names).filter((name) => types.some((type) => typeCompatibility(ontology, type, name) > 0))
+}
+
+// The more specific of two compatible types; a typed entity wins over a CONCEPT
+function narrower(ontology: Ontology, a: string, b: string): string {
+  if (a === FALLBACK_TYPE) return b
+  return isSubtypeOf(ontology, b, a) ? b : a
+}
+
+function namesOf(entity: ResolvableEntity): string[] {
+  return [entity.label, ...(entity.aliases || [])].map((name) => name.trim().toLowerCase()).filter(Boolean)
+}
+
+// Share of the shorter name's tokens that fuzzily appear in the longer name
+function tokenContainment(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a]
+  const matched = shorter.filter((token) => longer.some((other) => jaroWinkler(token, other) >= FUZZY_TOKEN_THRESHOLD))
+  const containment = matched.length / shorter.length
+
+  return shorter.length === 1 && longer.length > 1 ? containment * SINGLE_TOKEN_PENALTY : containment
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0
+  const setA = new Set(a)
+  const setB = new Set(b)
+  let shared = 0
+  for (const item of setA) if (setB.has(item)) shared++
+  return shared / (setA.size + setB.size - shared)
+}
+
+function addNeighbor(neighbors: Map<string, Set<string>>, label: string, neighbor: string): void {
+  const key = label.toLowerCase()
+  if (!neighbors.has(key)) neighbors.set(key, new Set())
+  neighbors.get(key)!.add(neighbor)
+}
+
+function relabel<E extends Entity>(entity: E, label: string): E {
+  if (entity.label === label) return entity
+  return { ...entity, label, aliases: aliasSet(label, [...(entity.aliases || []), entity.label]) }
+}
+
+function absorb<E extends Entity>(survivor: E, merged: E): E {
+  return {
+    ...survivor,
+    confidence: Math.max(survivor.confidence, merged.confidence),
+    aliases: aliasSet(survivor.label, [...(survivor.aliases || []), ...(merged.aliases || []), merged.label]),
+    properties: { ...merged.properties, ...survivor.properties },
+  }
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(3))
+}
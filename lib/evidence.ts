@@ -0,0 +1,99 @@
+import type { DocumentInput } from "./graph-store"
+import { isModality, strongestModality, type Modality } from "./factuality"
+
+// One sighting of a relationship: where it was read, by which extractor, and how confident that extraction was
+export interface Evidence {
+  runId: string | null
+  document: string | null
+  documentHash: string | null
+  sentence: string
+  extractor: string | null
+  confidence: number
+  page?: number
+  // How firmly the sentence stated it; unset on sightings recorded before this was tracked, read as certain
+  modality?: Modality
+}
+
+export interface EvidenceSummary {
+  // Noisy-OR over documents: independent sightings raise confidence, repeats within a document do not
+  confidence: number
+  // Number of distinct documents supporting the relationship
+  support_count: number
+  // The most certain sighting: one plain statement outweighs any number of hedged ones
+  modality: Modality
+}
+
+const DEFAULT_CONFIDENCE = 0.8
+
+export function evidenceFrom(
+  properties: Record<string, any>,
+  source: { runId?: string; document?: DocumentInput } = {},
+): Evidence {
+  const evidence: Evidence = {
+    runId: source.runId ?? null,
+    document: source.document?.name ?? properties.source_file ?? null,
+    documentHash: source.document?.hash ?? null,
+    sentence: String(properties.context ?? ""),
+    extractor: source.document?.extractor ?? null,
+    confidence: clampConfidence(properties.confidence),
+  }
+  if (typeof properties.page === "number") evidence.page = properties.page
+  if (isModality(properties.modality)) evidence.modality = properties.modality
+  return evidence
+}
+
+// Appends a sighting unless the same run already recorded it from the same sentence
+export function mergeEvidence(existing: Evidence[], item: Evidence): Evidence[] {
+  const duplicate = existing.some(
+    (e) => e.runId === item.runId && documentKey(e) === documentKey(item) && e.sentence === item.sentence,
+  )
+  return duplicate ? existing : [...existing, item]
+}
+
+export function summarizeEvidence(evidence: Evidence[], fallbackConfidence = DEFAULT_CONFIDENCE): EvidenceSummary {
+  if (evidence.length === 0) {
+    return { confidence: fallbackConfidence, support_count: 0, modality: "certain" }
+  }
+
+  const bestPerDocument = new Map<string, number>()
+  for (const item of evidence) {
+    const key = documentKey(item)
+    bestPerDocument.set(key, Math.max(bestPerDocument.get(key) ?? 0, item.confidence))
+  }
+
+  let disbelief = 1
+  for (const confidence of bestPerDocument.values()) disbelief *= 1 - confidence
+
+  return {
+    confidence: Number((1 - disbelief).toFixed(4)),
+    support_count: bestPerDocument.size,
+    modality: strongestModality(evidence.map((item) => item.modality ?? "certain")),
+  }
+}
+
+// Neo4j cannot store lists of maps, so evidence is persisted as a list of JSON strings
+export function serializeEvidence(item: Evidence): string {
+  return JSON.stringify(item)
+}
+
+export function parseEvidence(stored: unknown): Evidence[] {
+  if (!Array.isArray(stored)) return []
+
+  return stored.flatMap((entry) => {
+    if (typeof entry !== "string") return typeof entry === "object" && entry !== null ? [entry as Evidence] : []
+    try {
+      return [JSON.parse(entry) as Evidence]
+    } catch {
+      return []
+    }
+  })
+}
+
+function documentKey(item: Evidence): string {
+  return item.documentHash ?? item.document ?? "unknown"
+}
+
+function clampConfidence(value: unknown): number {
+  const confidence = typeof value === "number" && Number.isFinite(value) ? value : DEFAULT_CONFIDENCE
+  return Math.min(1, Math.max(0, confidence))
+}
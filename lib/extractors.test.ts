@@ -0,0 +1,73 @@
+import assert from "node:assert/strict"
+import { createServer } from "node:http"
+import type { AddressInfo } from "node:net"
+import { test } from "node:test"
+import { ExtractorRegistry, extractorRegistry, type ExtractionResult, type Extractor } from "./extractors"
+
+function extractor(name: string, extract: () => Promise<ExtractionResult>): Extractor {
+  return { name, description: name, isAvailable: () => true, extract }
+}
+
+const registry = new ExtractorRegistry()
+  .register(extractor("failing", () => Promise.reject(new Error("provider unavailable"))))
+  .register(extractor("empty", async () => ({ entities: [], relationships: [] })))
+  .register(
+    extractor("found", async () => ({
+      entities: [{ label: "Ada Lovelace", type: "PERSON", properties: {}, confidence: 0.9 }],
+      relationships: [],
+    })),
+  )
+
+test("the pipeline falls back past a failing stage and reports its error", async () => {
+  const result = await registry.pipeline("failing,found").extract("Ada Lovelace wrote the first program.")
+
+  assert.equal(result.extractor, "found")
+  assert.deepEqual(result.entities.map((entity) => entity.label), ["Ada Lovelace"])
+  assert.equal(result.diagnostics[0].outcome, "error")
+  assert.equal(result.diagnostics[0].error, "provider unavailable")
+})
+
+test("a stage that finds nothing after a failed one is a valid empty result", async () => {
+  const result = await registry.pipeline("failing,empty").extract("Nothing to see here.")
+
+  assert.equal(result.extractor, "empty")
+  assert.equal(result.entities.length, 0)
+  assert.equal(result.diagnostics[0].outcome, "error")
+})
+
+test("the pipeline fails when every extractor failed", async () => {
+  await assert.rejects(registry.pipeline("failing").extract("Ada Lovelace"), /provider unavailable/)
+})
+
+test("the OpenAI-compatible extractor re-prompts a stub server until the answer validates", async () => {
+  const answers = [
+    "not json at all",
+    JSON.stringify({
+      entities: [{ label: "Ada Lovelace", type: "PERSON", confidence: 0.9 }],
+      relationships: [],
+    }),
+  ]
+  const server = createServer((request, response) => {
+    request.resume()
+    request.on("end", () => {
+      const content = answers.shift() ?? "{}"
+      const choices = [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }]
+      response.setHeader("content-type", "application/json")
+      response.end(JSON.stringify({ id: "stub", object: "chat.completion", choices }))
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  process.env.LLM_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+
+  try {
+    const result = await extractorRegistry.pipeline("openai").extract("Ada Lovelace wrote the first program.")
+
+    assert.equal(result.extractor, "openai")
+    assert.deepEqual(result.entities.map((entity) => entity.label), ["Ada Lovelace"])
+    assert.equal(result.diagnostics[0].outcome, "repaired")
+    assert.equal(result.diagnostics[0].attempts.length, 2)
+  } finally {
+    delete process.env.LLM_BASE_URL
+    server.close()
+  }
+})
@@ -0,0 +1,309 @@
+import { GeminiNLPProcessor } from "./gemini-nlp-processor"
+import { LocalNLPProcessor } from "./local-nlp-processor"
+import { OpenAICompatibleNLPProcessor } from "./openai-compatible-nlp-processor"
+import { RulesNLPProcessor } from "./rules-nlp-processor"
+import type { LLMCallDiagnostics } from "./llm-diagnostics"
+import { DEFAULT_CHUNKING, extractChunked } from "./chunked-extraction"
+import { resolveCoreferences, type ResolvedReference } from "./coreference"
+import { DEFAULT_ONTOLOGY, type Ontology } from "./ontology"
+import { assessFactuality } from "./factuality"
+import { attachTemporalQualifiers } from "./temporal"
+import { harvestAliases } from "./aliases"
+
+interface Entity {
+  label: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+  aliases?: string[]
+}
+
+interface Relationship {
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+  context: string
+}
+
+export interface ExtractionResult {
+  entities: Entity[]
+  relationships: Relationship[]
+  // Set by LLM-backed extractors
+  diagnostics?: LLMCallDiagnostics
+}
+
+export interface TaggedExtractionResult extends Omit<ExtractionResult, "diagnostics"> {
+  // Extractors that contributed, joined with "+", e.g. "gemini" or "local+rules"
+  extractor: string
+  // Every LLM call made by the pipeline, including stages whose results were not used
+  diagnostics: LLMCallDiagnostics[]
+  // Pronouns and descriptions resolved to an entity; they never become entities themselves
+  references: ResolvedReference[]
+}
+
+export interface Extractor {
+  readonly name: string
+  readonly description: string
+  // Long texts are split into overlapping chunks and extracted piecewise (LLMs with bounded input/output)
+  readonly chunked?: boolean
+  // False when the extractor lacks configuration (e.g. an API key); pipelines skip it
+  isAvailable(): boolean
+  // Extractors limit their output to the ontology's types where they can; callers still validate the result
+  extract(text: string, ontology: Ontology): Promise<ExtractionResult>
+}
+
+export class UnknownExtractorError extends Error {
+  constructor(name: string, known: string[]) {
+    super(`Unknown extractor "${name}". Available extractors: ${known.join(", ")}`)
+    this.name = "UnknownExtractorError"
+  }
+}
+
+// Default when neither the request nor EXTRACTOR_PIPELINE names one: a self-hosted LLM when LLM_BASE_URL is set,
+// then Gemini, falling back to local patterns. Unconfigured stages are skipped.
+const DEFAULT_PIPELINE = "openai,gemini,local"
+
+export function defaultPipelineSpec(): string {
+  return process.env.EXTRACTOR_PIPELINE || DEFAULT_PIPELINE
+}
+
+export class ExtractorRegistry {
+  private readonly extractors = new Map<string, Extractor>()
+
+  register(extractor: Extractor): this {
+    this.extractors.set(extractor.name, extractor)
+    return this
+  }
+
+  get(name: string): Extractor {
+    const extractor = this.extractors.get(name.trim().toLowerCase())
+    if (!extractor) throw new UnknownExtractorError(name, this.names())
+    return extractor
+  }
+
+  names(): string[] {
+    return Array.from(this.extractors.keys())
+  }
+
+  list(): Extractor[] {
+    return Array.from(this.extractors.values())
+  }
+
+  // Pipeline specs: stages separated by "," are tried in order until one yields results;
+  // extractors joined by "+" within a stage run together and their results are combined.
+  //   "gemini,local"       Gemini, falling back to local patterns
+  //   "local+rules"        both offline extractors, merged
+  //   "gemini,local+rules" Gemini, falling back to both offline extractors
+  pipeline(spec: string = defaultPipelineSpec()): ExtractorPipeline {
+    const stages = spec
+      .split(",")
+      .map((stage) =>
+        stage
+          .split("+")
+          .map((name) => name.trim())
+          .filter(Boolean)
+          .map((name) => this.get(name)),
+      )
+      .filter((stage) => stage.length > 0)
+
+    if (stages.length === 0) throw new UnknownExtractorError(spec, this.names())
+    return new ExtractorPipeline(stages)
+  }
+}
+
+export class ExtractorPipeline {
+  constructor(private readonly stages: Extractor[][]) {}
+
+  get spec(): string {
+    return this.stages.map((stage) => stage.map((extractor) => extractor.name).join("+")).join(",")
+  }
+
+  async extract(text: string, ontology: Ontology = DEFAULT_ONTOLOGY): Promise<TaggedExtractionResult> {
+    let lastError: unknown = null
+    // Extractors of the last stage that ran without failing, e.g. "local"
+    let lastRan: string | null = null
+    const diagnostics: LLMCallDiagnostics[] = []
+
+    for (const stage of this.stages) {
+      const available = stage.filter((extractor) => {
+        if (extractor.isAvailable()) return true
+        console.log(`Skipping extractor "${extractor.name}": not configured`)
+        return false
+      })
+      if (available.length === 0) continue
+
+      const results: { extractor: Extractor; result: ExtractionResult }[] = []
+      for (const extractor of available) {
+        try {
+          console.log(`Running extractor "${extractor.name}"...`)
+          results.push({ extractor, result: await this.run(extractor, text, ontology, diagnostics) })
+        } catch (error) {
+          console.warn(`Extractor "${extractor.name}" failed:`, error)
+          lastError = error
+          // Kept so the result of a later stage still shows why this one was not used
+          diagnostics.push(failedCall(extractor.name, error))
+        }
+      }
+      if (results.length > 0) lastRan = results.map(({ extractor }) => extractor.name).join("+")
+
+      const productive = results.filter(
+        ({ result }) => result.entities.length > 0 || result.relationships.length > 0,
+      )
+      if (productive.length > 0) {
+        const combined = combine(productive.map(({ extractor, result }) => tag(extractor.name, result)))
+        // Aliases first, so "IBM" and "International Business Machines" are one entity that coreference can find
+        // by either name
+        const named = { ...combined, ...harvestAliases(text, combined) }
+        // Before coreference, while contexts still name the mentions the relationships were read from
+        const assessed = {
+          ...named,
+          relationships: attachTemporalQualifiers(assessFactuality(named.relationships)),
+        }
+        return { ...assessed, ...resolveCoreferences(text, assessed, ontology), diagnostics }
+      }
+    }
+
+    // Every stage came back empty or failed. Finding nothing is a valid answer, so only fail when no extractor
+    // ran at all; otherwise report the last one that did, with earlier failures in diagnostics.
+    if (!lastRan && lastError) throw lastError
+    return { entities: [], relationships: [], extractor: lastRan ?? this.spec, diagnostics, references: [] }
+  }
+
+  private async run(
+    extractor: Extractor,
+    text: string,
+    ontology: Ontology,
+    diagnostics: LLMCallDiagnostics[],
+  ): Promise<ExtractionResult> {
+    const extract = async (input: string) => {
+      const result = await extractor.extract(input, ontology)
+      if (result.diagnostics) diagnostics.push(result.diagnostics)
+      return result
+    }
+
+    if (!extractor.chunked || text.length <= DEFAULT_CHUNKING.maxChars) return extract(text)
+    return extractChunked(text, extract, DEFAULT_CHUNKING, ontology)
+  }
+}
+
+// Diagnostics entry for an extractor that threw, so its failure is reported even when a later stage answers
+function failedCall(name: string, error: unknown): LLMCallDiagnostics {
+  return {
+    provider: name,
+    model: "unknown",
+    startedAt: new Date().toISOString(),
+    outcome: "error",
+    attempts: [],
+    entities: 0,
+    relationships: 0,
+    droppedItems: 0,
+    error: error instanceof Error ? error.message : String(error),
+  }
+}
+
+// Records which extractor produced each item, alongside anything the extractor already set
+function tag(name: string, result: ExtractionResult): TaggedExtractionResult {
+  return {
+    extractor: name,
+    diagnostics: [],
+    references: [],
+    entities: result.entities.map((entity) => ({
+      ...entity,
+      properties: { ...entity.properties, extractedBy: name },
+    })),
+    relationships: result.relationships.map((relationship) => ({
+      ...relationship,
+      properties: { ...relationship.properties, extractedBy: name },
+    })),
+  }
+}
+
+// Earlier results win on duplicate entities (including their type) and relationships; aliases and the higher
+// confidence are kept
+function combine(results: TaggedExtractionResult[]): TaggedExtractionResult {
+  if (results.length === 1) return results[0]
+
+  const entities = new Map<string, Entity>()
+  const relationships = new Map<string, Relationship>()
+
+  for (const result of results) {
+    for (const entity of result.entities) {
+      const key = entity.label.toLowerCase()
+      const existing = entities.get(key)
+      entities.set(
+        key,
+        existing
+          ? {
+              ...existing,
+              confidence: Math.max(existing.confidence, entity.confidence),
+              aliases: Array.from(new Set([...(existing.aliases || []), ...(entity.aliases || [])])),
+            }
+          : entity,
+      )
+    }
+
+    for (const relationship of result.relationships) {
+      const key = [relationship.source, relationship.type, relationship.target].join("|").toLowerCase()
+      const existing = relationships.get(key)
+      relationships.set(
+        key,
+        existing ? { ...existing, confidence: Math.max(existing.confidence, relationship.confidence) } : relationship,
+      )
+    }
+  }
+
+  return {
+    extractor: results.map((result) => result.extractor).join("+"),
+    diagnostics: [],
+    references: [],
+    entities: Array.from(entities.values()),
+    relationships: Array.from(relationships.values()),
+  }
+}
+
+class ProcessorExtractor implements Extractor {
+  readonly chunked: boolean
+  private readonly available: () => boolean
+
+  constructor(
+    readonly name: string,
+    readonly description: string,
+    private readonly processor: {
+      extractEntitiesAndRelationships(text: string, ontology: Ontology): Promise<ExtractionResult>
+    },
+    options: { available?: () => boolean; chunked?: boolean } = {},
+  ) {
+    this.available = options.available ?? (() => true)
+    this.chunked = options.chunked ?? false
+  }
+
+  isAvailable(): boolean {
+    return this.available()
+  }
+
+  extract(text: string, ontology: Ontology): Promise<ExtractionResult> {
+    return this.processor.extractEntitiesAndRelationships(text, ontology)
+  }
+}
+
+export const extractorRegistry = new ExtractorRegistry()
+  .register(
+    new ProcessorExtractor(
+      "gemini",
+      "Google Gemini LLM extraction",
+      new GeminiNLPProcessor(),
+      { available: () => !!process.env.GEMINI_API_KEY, chunked: true },
+    ),
+  )
+  .register(
+    new ProcessorExtractor(
+      "openai",
+      "OpenAI-compatible chat endpoint (LLM_BASE_URL), e.g. Ollama or llama.cpp",
+      new OpenAICompatibleNLPProcessor(),
+      { available: OpenAICompatibleNLPProcessor.isConfigured, chunked: true },
+    ),
+  )
+  .register(new ProcessorExtractor("local", "Offline part-of-speech NER and relation patterns", new LocalNLPProcessor()))
+  .register(new ProcessorExtractor("rules", "Offline single-word capitalization rules", new RulesNLPProcessor()))
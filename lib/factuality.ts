@@ -0,0 +1,99 @@
+interface Relationship {
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+  context: string
+}
+
+// Whether the text states a relationship or denies it ("does not own", "no longer works at")
+export type Polarity = "asserted" | "negated"
+// How firmly it is stated: outright, as a possibility ("might acquire") or second-hand ("reportedly owns")
+export type Modality = "certain" | "possible" | "reported"
+
+export interface Factuality {
+  polarity: Polarity
+  modality: Modality
+}
+
+const POLARITIES: Polarity[] = ["asserted", "negated"]
+// Most certain first
+const MODALITIES: Modality[] = ["certain", "reported", "possible"]
+
+// Cues in the words between the two mentions, i.e. the verb group
+const NEGATION_CUES = /\b(?:not|never|no\s+longer|neither|nor|cannot)\b|n't\b/i
+const POSSIBILITY_CUES = new RegExp(
+  "\\b(?:might|may|could|possibly|probably|perhaps|maybe|likely|potentially|considering|" +
+    "(?:plans?|planning|intends?|expected|hopes?|rumou?red)\\s+to)\\b",
+  "i",
+)
+const REPORTING_CUES = /\b(?:reportedly|allegedly|supposedly|apparently|said\s+to|claims?\s+to|believed\s+to)\b/i
+// Cues elsewhere in the sentence that make everything in it second-hand ("According to Reuters, ...")
+const SENTENCE_REPORTING_CUES = /\b(?:reportedly|allegedly|supposedly|according\s+to|sources\s+say|rumou?rs?)\b/i
+
+export const isPolarity = (value: unknown): value is Polarity => POLARITIES.includes(value as Polarity)
+export const isModality = (value: unknown): value is Modality => MODALITIES.includes(value as Modality)
+
+// verbPhrase is the text between the two mentions ("does not own", "might acquire"); sentence the whole sentence
+export function detectFactuality(verbPhrase: string, sentence: string): Factuality {
+  const polarity: Polarity = NEGATION_CUES.test(verbPhrase) ? "negated" : "asserted"
+
+  let modality: Modality = "certain"
+  if (POSSIBILITY_CUES.test(verbPhrase)) modality = "possible"
+  else if (REPORTING_CUES.test(verbPhrase) || SENTENCE_REPORTING_CUES.test(sentence)) modality = "reported"
+
+  return { polarity, modality }
+}
+
+// Fills in properties.polarity and properties.modality where the extractor did not set them, reading the
+// relationship's context sentence. Without both mentions in the context only sentence-wide cues are used.
+export function assessFactuality<R extends Relationship>(relationships: R[]): R[] {
+  return relationships.map((relationship) => {
+    const { polarity, modality } = relationship.properties
+    if (isPolarity(polarity) && isModality(modality)) return relationship
+
+    const detected = detectFactuality(between(relationship), relationship.context || "")
+    return {
+      ...relationship,
+      properties: {
+        ...relationship.properties,
+        polarity: isPolarity(polarity) ? polarity : detected.polarity,
+        modality: isModality(modality) ? modality : detected.modality,
+      },
+    }
+  })
+}
+
+// Negated relationships must not become edges; callers report them instead
+export function partitionByPolarity<R extends Relationship>(relationships: R[]): { asserted: R[]; negated: R[] } {
+  const asserted: R[] = []
+  const negated: R[] = []
+  for (const relationship of relationships) {
+    if (relationship.properties.polarity === "negated") negated.push(relationship)
+    else asserted.push(relationship)
+  }
+  return { asserted, negated }
+}
+
+// The most certain of several readings of the same fact: one plain statement outweighs any number of hedged ones
+export function strongestModality(modalities: Modality[]): Modality {
+  return MODALITIES.find((modality) => modalities.includes(modality)) ?? "certain"
+}
+
+// The least certain, for facts that depend on all of them
+export function weakestModality(modalities: Modality[]): Modality {
+  return [...MODALITIES].reverse().find((modality) => modalities.includes(modality)) ?? "certain"
+}
+
+function between(relationship: Relationship): string {
+  const context = (relationship.context || "").toLowerCase()
+  const source = relationship.source.toLowerCase()
+  const target = relationship.target.toLowerCase()
+  const sourceAt = context.indexOf(source)
+  const targetAt = context.indexOf(target)
+  if (sourceAt < 0 || targetAt < 0) return ""
+
+  return sourceAt < targetAt
+    ? context.slice(sourceAt + source.length, targetAt)
+    : context.slice(targetAt + target.length, sourceAt)
+}
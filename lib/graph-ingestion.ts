@@ -0,0 +1,73 @@
+import type { GraphBatch, RelationshipInput } from "./graph-store"
+
+interface Entity {
+  label: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+  aliases?: string[]
+}
+
+interface Relationship {
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+  context: string
+}
+
+// Turns an extraction into a GraphBatch, resolving relationship endpoints against the extracted entities.
+// Relationships whose source or target was not extracted are dropped.
+export function buildGraphBatch(
+  entities: Entity[],
+  relationships: Relationship[],
+  relationshipProperties: Record<string, any> = {},
+): GraphBatch {
+  const entitiesByLabel = new Map(entities.map((entity) => [entity.label.toLowerCase(), entity]))
+  const batchRelationships: RelationshipInput[] = []
+
+  for (const relationship of relationships) {
+    const sourceEntity = entitiesByLabel.get(relationship.source.toLowerCase())
+    const targetEntity = entitiesByLabel.get(relationship.target.toLowerCase())
+
+    if (!sourceEntity || !targetEntity) {
+      console.warn(`Cannot create relationship: entities not found - ${relationship.source} or ${relationship.target}`)
+      continue
+    }
+
+    batchRelationships.push({
+      sourceLabel: sourceEntity.label,
+      sourceType: sourceEntity.type,
+      targetLabel: targetEntity.label,
+      targetType: targetEntity.type,
+      type: relationship.type,
+      properties: {
+        ...relationship.properties,
+        confidence: relationship.confidence,
+        context: relationship.context,
+        ...relationshipProperties,
+      },
+    })
+  }
+
+  return { entities, relationships: batchRelationships }
+}
+
+// Runs a step that follows a committed ingestion run (merge suggestions, inference). The run's data is already in
+// the graph, so a failure here must not be reported as a failed ingestion: it is logged, added to warnings, and
+// fallback is returned instead.
+export async function afterCommit<T>(
+  warnings: string[],
+  step: string,
+  run: () => Promise<T>,
+  fallback: T,
+): Promise<T> {
+  try {
+    return await run()
+  } catch (error) {
+    console.error(`${step} failed after the run was committed:`, error)
+    warnings.push(`${step} failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+    return fallback
+  }
+}
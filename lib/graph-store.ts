@@ -0,0 +1,292 @@
+import { EnhancedNeo4jService } from "./enhanced-neo4j-service"
+import { InMemoryGraphStore } from "./in-memory-graph-store"
+import type { Ontology } from "./ontology"
+import type { Modality } from "./factuality"
+
+export interface Entity {
+  id: string
+  label: string
+  type: string
+  properties: Record<string, any>
+  confidence?: number
+  aliases?: string[]
+}
+
+export interface Relationship {
+  id: string
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+  confidence?: number
+}
+
+export interface GraphData {
+  entities: Entity[]
+  relationships: Relationship[]
+}
+
+export type EntityInput = Omit<Entity, "id">
+
+// Relationship endpoints are addressed by label and type, as in createRelationshipWithValidation
+export interface RelationshipInput {
+  sourceLabel: string
+  sourceType: string
+  targetLabel: string
+  targetType: string
+  type: string
+  properties: Record<string, any>
+}
+
+// A relationship derived by the inference engine; endpoints are entity ids
+export interface InferredRelationshipInput {
+  sourceId: string
+  targetId: string
+  type: string
+  // The rule as written, e.g. "CEO_OF(x, y) -> WORKS_AT(x, y)"
+  rule: string
+  // The facts it was derived from, as "sourceId|TYPE|targetId"
+  premises: string[]
+  confidence: number
+  modality: Modality
+  // The period in which all premises held, when they have one
+  valid_from?: string
+  valid_to?: string
+}
+
+export interface GraphQueryOptions {
+  // ISO date; only relationships that held then are returned (see isValidAt). Entities are always returned.
+  asOf?: string
+}
+
+export interface DocumentInput {
+  name: string
+  // sha256 of the uploaded content; documents are identified by hash within a workspace
+  hash: string
+  size: number
+  extractor: string
+}
+
+// One occurrence of an entity in the batch's document, as character offsets into the extracted text
+export interface MentionInput {
+  label: string
+  type: string
+  start: number
+  end: number
+  sentence: string
+  page?: number
+}
+
+export interface GraphBatch {
+  entities: EntityInput[]
+  relationships: RelationshipInput[]
+  // Stamped onto every node and edge the batch writes
+  runId?: string
+  // Source document; mentions are linked to it with MENTIONED_IN edges
+  document?: DocumentInput
+  mentions?: MentionInput[]
+}
+
+export interface SourceDocument extends DocumentInput {
+  id: string
+  uploadedAt: string
+}
+
+export interface EntityMention {
+  document: SourceDocument
+  start: number
+  end: number
+  sentence: string
+  page?: number
+}
+
+export type IngestionStatus = "completed" | "failed" | "undone"
+
+export interface IngestionRun {
+  id: string
+  source: string
+  status: IngestionStatus
+  startedAt: string
+  completedAt: string
+  entityCount: number
+  relationshipCount: number
+  error?: string
+  undoneAt?: string
+}
+
+export interface IngestionOptions {
+  // Document name or other description of where the batch came from
+  source: string
+  clearBefore?: boolean
+}
+
+export interface IngestionResult extends GraphData {
+  run: IngestionRun
+  document?: SourceDocument
+}
+
+export interface UndoResult {
+  run: IngestionRun
+  // Removed because no other ingestion run contributed them
+  deletedEntities: number
+  deletedRelationships: number
+  // Kept, with this run's stamp removed, because other runs also contributed them
+  updatedEntities: number
+  updatedRelationships: number
+}
+
+export class IngestionUndoError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "IngestionUndoError"
+  }
+}
+
+export class IngestionError extends Error {
+  constructor(
+    readonly runId: string,
+    cause: unknown,
+  ) {
+    super(
+      `Ingestion run ${runId} failed and was rolled back: ${cause instanceof Error ? cause.message : String(cause)}`,
+    )
+    this.name = "IngestionError"
+  }
+}
+
+export interface EntityWithNeighbors extends Entity {
+  // Labels of directly connected entities
+  neighbors: string[]
+}
+
+export interface MergeSuggestionInput {
+  entityId: string
+  candidateId: string
+  score: number
+  // Component scores that produced the overall score
+  reasons: Record<string, number>
+}
+
+export interface MergeSuggestion extends MergeSuggestionInput {
+  id: string
+  createdAt: string
+  entity: Entity
+  candidate: Entity
+}
+
+export interface MergeResult {
+  entity: Entity
+  mergedIds: string[]
+  movedRelationships: number
+}
+
+export class EntityMergeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "EntityMergeError"
+  }
+}
+
+export interface Workspace {
+  name: string
+  createdAt: string
+}
+
+export const DEFAULT_WORKSPACE = "default"
+
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "WorkspaceError"
+  }
+}
+
+export function normalizeWorkspaceName(name: unknown): string {
+  if (name === undefined || name === null || name === "") return DEFAULT_WORKSPACE
+  if (typeof name !== "string") throw new WorkspaceError("Workspace name must be a string")
+
+  const trimmed = name.trim()
+  if (!/^[\w][\w -]{0,63}$/.test(trimmed)) {
+    throw new WorkspaceError(
+      "Workspace names must be 1-64 characters of letters, digits, spaces, hyphens or underscores",
+    )
+  }
+
+  return trimmed
+}
+
+// Storage operations the ingestion pipeline and API routes rely on.
+// Entity and relationship operations are scoped to the workspace the store was created for.
+export interface GraphStore {
+  readonly workspace: string
+
+  listWorkspaces(): Promise<Workspace[]>
+  // Idempotent: returns the existing workspace when the name is already taken
+  createWorkspace(name: string): Promise<Workspace>
+  renameWorkspace(name: string, newName: string): Promise<Workspace>
+  deleteWorkspace(name: string): Promise<void>
+  // The workspace's own ontology, or null when it uses the default one
+  getOntology(): Promise<Ontology | null>
+  // Pass null to go back to the default ontology
+  saveOntology(ontology: Ontology | null): Promise<void>
+
+  clearAllData(): Promise<void>
+  findEntityByLabelAndType(label: string, type: string): Promise<Entity | null>
+  // Scored with entity resolution; best match first
+  findSimilarEntities(label: string, type: string, threshold?: number): Promise<Entity[]>
+  listEntitiesWithNeighbors(types: string[]): Promise<EntityWithNeighbors[]>
+  // Moves relationships, mentions and aliases of the merged nodes onto the survivor, then deletes them
+  mergeEntities(survivorId: string, mergedIds: string[]): Promise<MergeResult>
+  addMergeSuggestions(suggestions: MergeSuggestionInput[], runId?: string): Promise<void>
+  // Only suggestions whose entities both still exist
+  listMergeSuggestions(): Promise<MergeSuggestion[]>
+  dismissMergeSuggestion(id: string): Promise<void>
+  createEntityWithMerge(entity: Omit<Entity, "id">): Promise<Entity>
+  createRelationshipWithValidation(
+    sourceLabel: string,
+    targetLabel: string,
+    sourceType: string,
+    targetType: string,
+    relationshipType: string,
+    properties?: Record<string, any>,
+  ): Promise<Relationship | null>
+  // Upserts a whole extraction in one transaction; relationships whose endpoints are missing are skipped
+  bulkUpsert(batch: GraphBatch): Promise<GraphData>
+  // Runs clear (optional), upsert and run bookkeeping atomically. On failure nothing is written except
+  // a failed IngestionRun record, and an IngestionError is thrown.
+  ingest(batch: GraphBatch, options: IngestionOptions): Promise<IngestionResult>
+  // Newest first
+  listIngestionRuns(): Promise<IngestionRun[]>
+  // Removes everything only this run contributed and unstamps what other runs share
+  undoIngestionRun(runId: string): Promise<UndoResult>
+  // Stored with inferred: true, the rule and its premises; pairs already connected by the type are skipped.
+  // Returns how many were written.
+  addInferredRelationships(relationships: InferredRelationshipInput[]): Promise<number>
+  // Deletes every inferred relationship, e.g. before deriving them again; returns how many there were
+  clearInferredRelationships(): Promise<number>
+  // Which documents mention an entity, and where
+  getEntityMentions(entityId: string): Promise<EntityMention[]>
+  getAllEntitiesAndRelationships(options?: GraphQueryOptions): Promise<GraphData>
+  close(): Promise<void>
+}
+
+export type GraphStoreBackend = "neo4j" | "memory"
+
+export function getGraphStoreBackend(): GraphStoreBackend {
+  const backend = (process.env.GRAPH_STORE || "neo4j").toLowerCase()
+
+  if (backend === "memory" || backend === "in-memory") return "memory"
+  if (backend === "neo4j") return "neo4j"
+
+  throw new Error(`Unknown GRAPH_STORE backend: ${process.env.GRAPH_STORE}`)
+}
+
+// Selected with GRAPH_STORE=neo4j (default) or GRAPH_STORE=memory
+export function createGraphStore(workspace: string = DEFAULT_WORKSPACE): GraphStore {
+  switch (getGraphStoreBackend()) {
+    case "memory":
+      return new InMemoryGraphStore(workspace)
+    case "neo4j":
+      return new EnhancedNeo4jService(workspace)
+  }
+}
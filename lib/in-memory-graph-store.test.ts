@@ -0,0 +1,84 @@
+import assert from "node:assert/strict"
+import { randomUUID } from "node:crypto"
+import { test } from "node:test"
+import { IngestionError, IngestionUndoError, type GraphBatch } from "./graph-store"
+import { InMemoryGraphStore } from "./in-memory-graph-store"
+
+// The database is shared by the whole process, so every test works in a workspace of its own
+function workspaceStore(): InMemoryGraphStore {
+  return new InMemoryGraphStore(`test-${randomUUID().slice(0, 8)}`)
+}
+
+function person(label: string) {
+  return { label, type: "PERSON", properties: {}, confidence: 0.9 }
+}
+
+function knows(source: string, target: string, type = "KNOWS") {
+  return { sourceLabel: source, sourceType: "PERSON", targetLabel: target, targetType: "PERSON", type, properties: {} }
+}
+
+function batch(entities: string[], relationships: ReturnType<typeof knows>[] = []): GraphBatch {
+  return { entities: entities.map(person), relationships }
+}
+
+test("a failed ingestion rolls back the graph and the run history it cleared", async () => {
+  const store = workspaceStore()
+  const first = await store.ingest(batch(["Alice", "Bob"], [knows("Alice", "Bob")]), { source: "first" })
+
+  // The relationship type is not a legal label, so the write fails after Carol was written
+  await assert.rejects(
+    store.ingest(batch(["Carol", "Dave"], [knows("Carol", "Dave", "!!!")]), { source: "second", clearBefore: true }),
+    IngestionError,
+  )
+
+  const graph = await store.getAllEntitiesAndRelationships()
+  assert.deepEqual(graph.entities.map((entity) => entity.label).sort(), ["Alice", "Bob"])
+  assert.equal(graph.relationships.length, 1)
+
+  const runs = await store.listIngestionRuns()
+  assert.deepEqual(runs.map((run) => run.source).sort(), ["first", "second"])
+  assert.equal(runs.find((run) => run.id === first.run.id)?.status, "completed")
+  assert.equal(runs.find((run) => run.source === "second")?.status, "failed")
+})
+
+test("undoing a run removes only what no other run contributed", async () => {
+  const store = workspaceStore()
+  await store.ingest(batch(["Alice", "Bob"], [knows("Alice", "Bob")]), { source: "first" })
+  const second = await store.ingest(batch(["Alice", "Carol"], [knows("Alice", "Carol")]), { source: "second" })
+
+  const undone = await store.undoIngestionRun(second.run.id)
+  assert.equal(undone.run.status, "undone")
+  assert.equal(undone.deletedEntities, 1)
+  assert.equal(undone.deletedRelationships, 1)
+
+  const graph = await store.getAllEntitiesAndRelationships()
+  assert.deepEqual(graph.entities.map((entity) => entity.label).sort(), ["Alice", "Bob"])
+  assert.equal(graph.relationships.length, 1)
+
+  await assert.rejects(store.undoIngestionRun(second.run.id), IngestionUndoError)
+})
+
+test("an entity written under another casing or a known alias lands on the existing node", async () => {
+  const store = workspaceStore()
+  const ada = { ...person("Ada Lovelace"), aliases: ["Ada King"] }
+  await store.ingest({ entities: [ada], relationships: [] }, { source: "first" })
+  await store.ingest(batch(["ada lovelace", "ADA KING"]), { source: "second" })
+
+  const graph = await store.getAllEntitiesAndRelationships()
+  assert.deepEqual(graph.entities.map((entity) => entity.label), ["Ada Lovelace"])
+  assert.deepEqual(graph.entities[0].aliases, ["Ada King"])
+})
+
+test("a relationship that ended and started again keeps both periods", async () => {
+  const store = workspaceStore()
+  const period = (properties: Record<string, string>) => [{ ...knows("Alice", "Bob"), properties }]
+  const tenure = period({ valid_from: "2000-01-01", valid_to: "2010-12-31" })
+  await store.ingest(batch(["Alice", "Bob"], tenure), { source: "left in 2010" })
+  await store.ingest(batch([], period({ valid_from: "2015-01-01" })), { source: "rejoined in 2015" })
+  await store.ingest(batch([], period({})), { source: "undated" })
+
+  assert.equal((await store.getAllEntitiesAndRelationships()).relationships.length, 2)
+  assert.equal((await store.getAllEntitiesAndRelationships({ asOf: "2005-06-01" })).relationships.length, 1)
+  assert.equal((await store.getAllEntitiesAndRelationships({ asOf: "2012-06-01" })).relationships.length, 0)
+  assert.equal((await store.getAllEntitiesAndRelationships({ asOf: "2020-06-01" })).relationships.length, 1)
+})
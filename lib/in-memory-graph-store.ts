@@ -0,0 +1,853 @@
+import { randomUUID } from "crypto"
+import {
+  DEFAULT_WORKSPACE,
+  IngestionError,
+  EntityMergeError,
+  IngestionUndoError,
+  WorkspaceError,
+  type Entity,
+  type EntityMention,
+  type EntityWithNeighbors,
+  type GraphBatch,
+  type GraphData,
+  type GraphQueryOptions,
+  type GraphStore,
+  type InferredRelationshipInput,
+  type IngestionOptions,
+  type IngestionResult,
+  type IngestionRun,
+  type MergeResult,
+  type MergeSuggestion,
+  type MergeSuggestionInput,
+  type Relationship,
+  type SourceDocument,
+  type UndoResult,
+  type Workspace,
+} from "./graph-store"
+import { normalizeTypeLabel, toCypherLabel } from "./type-labels"
+import { type Evidence, evidenceFrom, mergeEvidence, summarizeEvidence } from "./evidence"
+import { rankCandidates } from "./entity-resolution"
+import type { Ontology } from "./ontology"
+import { isValidAt, normalizeQualifiers, samePeriod, TEMPORAL_PROPERTIES } from "./temporal"
+import { mergeAttributes } from "./literals"
+import { aliasSet } from "./aliases"
+
+// Same bookkeeping labels as the Neo4j backend; they are stored as nodes and edges but hidden from the graph
+const DOCUMENT = "Document"
+const MERGE_SUGGESTION = "MergeSuggestion"
+const MENTIONED_IN = "MENTIONED_IN"
+const SYSTEM_TYPES = new Set([DOCUMENT, MERGE_SUGGESTION])
+const INFERENCE_PROPERTIES = ["inferred", "rule", "premises"]
+
+interface StoredNode {
+  id: string
+  workspace: string
+  type: string
+  properties: Record<string, any>
+}
+
+interface StoredEdge {
+  id: string
+  workspace: string
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+}
+
+interface StoredRun extends IngestionRun {
+  workspace: string
+}
+
+interface InMemoryDatabase {
+  workspaces: Map<string, Workspace>
+  // Only workspaces with their own ontology have an entry
+  ontologies: Map<string, Ontology>
+  nodes: Map<string, StoredNode>
+  edges: Map<string, StoredEdge>
+  runs: Map<string, StoredRun>
+  nextId: number
+}
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one database per server process
+const globalForGraph = globalThis as unknown as { inMemoryGraphDatabase?: InMemoryDatabase }
+
+const database: InMemoryDatabase = (globalForGraph.inMemoryGraphDatabase ??= {
+  workspaces: new Map(),
+  ontologies: new Map(),
+  nodes: new Map(),
+  edges: new Map(),
+  runs: new Map(),
+  nextId: 0,
+})
+// Databases created before ontologies were stored (dev hot reload) lack the map
+database.ontologies ??= new Map()
+
+// Process-local GraphStore that mirrors EnhancedNeo4jService semantics, for offline development and demos
+export class InMemoryGraphStore implements GraphStore {
+  readonly workspace: string
+
+  constructor(workspace: string = DEFAULT_WORKSPACE) {
+    this.workspace = workspace
+  }
+
+  async listWorkspaces(): Promise<Workspace[]> {
+    await this.createWorkspace(DEFAULT_WORKSPACE)
+    return Array.from(database.workspaces.values()).sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async createWorkspace(name: string): Promise<Workspace> {
+    let workspace = database.workspaces.get(name)
+    if (!workspace) {
+      workspace = { name, createdAt: new Date().toISOString() }
+      database.workspaces.set(name, workspace)
+    }
+    return { ...workspace }
+  }
+
+  async renameWorkspace(name: string, newName: string): Promise<Workspace> {
+    if (name === DEFAULT_WORKSPACE) {
+      throw new WorkspaceError("The default workspace cannot be renamed")
+    }
+    if (database.workspaces.has(newName)) {
+      throw new WorkspaceError(`Workspace "${newName}" already exists`)
+    }
+
+    const workspace = database.workspaces.get(name)
+    if (!workspace) {
+      throw new WorkspaceError(`Workspace "${name}" does not exist`)
+    }
+
+    for (const node of database.nodes.values()) {
+      if (node.workspace === name) node.workspace = newName
+    }
+    for (const edge of database.edges.values()) {
+      if (edge.workspace === name) edge.workspace = newName
+    }
+    for (const run of database.runs.values()) {
+      if (run.workspace === name) run.workspace = newName
+    }
+
+    const ontology = database.ontologies.get(name)
+    if (ontology) database.ontologies.set(newName, ontology)
+    database.ontologies.delete(name)
+
+    database.workspaces.delete(name)
+    const renamed = { ...workspace, name: newName }
+    database.workspaces.set(newName, renamed)
+
+    return { ...renamed }
+  }
+
+  async deleteWorkspace(name: string): Promise<void> {
+    if (name === DEFAULT_WORKSPACE) {
+      throw new WorkspaceError("The default workspace cannot be deleted")
+    }
+
+    this.deleteWorkspaceData(name)
+    database.workspaces.delete(name)
+    database.ontologies.delete(name)
+    console.log(`Workspace "${name}" deleted`)
+  }
+
+  async getOntology(): Promise<Ontology | null> {
+    const ontology = database.ontologies.get(this.workspace)
+    return ontology ? structuredClone(ontology) : null
+  }
+
+  async saveOntology(ontology: Ontology | null): Promise<void> {
+    await this.createWorkspace(this.workspace)
+    if (ontology) database.ontologies.set(this.workspace, structuredClone(ontology))
+    else database.ontologies.delete(this.workspace)
+  }
+
+  async clearAllData(): Promise<void> {
+    // Only the active workspace is cleared; other workspaces are untouched
+    this.deleteWorkspaceData(this.workspace)
+    console.log(`Graph data cleared for workspace "${this.workspace}"`)
+  }
+
+  async findEntityByLabelAndType(label: string, type: string): Promise<Entity | null> {
+    const node = this.namedNode(label, this.checkedType(type, "entity"))
+    return node ? this.toEntity(node) : null
+  }
+
+  async findSimilarEntities(label: string, type: string, threshold = 0.8): Promise<Entity[]> {
+    const candidates = await this.listEntitiesWithNeighbors([type])
+
+    return rankCandidates({ label, type }, candidates, threshold)
+      .slice(0, 5)
+      .map(({ candidate: { neighbors, ...entity } }) => entity)
+  }
+
+  async listEntitiesWithNeighbors(types: string[]): Promise<EntityWithNeighbors[]> {
+    const wanted = new Set(types.map((type) => this.checkedType(type, "entity")))
+    const nodes = this.workspaceNodes().filter((node) => wanted.has(node.type))
+    const neighbors = new Map(nodes.map((node) => [node.id, new Set<string>()]))
+
+    for (const edge of this.workspaceEdges()) {
+      if (edge.type === MENTIONED_IN) continue
+      neighbors.get(edge.source)?.add(database.nodes.get(edge.target)?.properties.label)
+      neighbors.get(edge.target)?.add(database.nodes.get(edge.source)?.properties.label)
+    }
+
+    return nodes.map((node) => ({ ...this.toEntity(node), neighbors: Array.from(neighbors.get(node.id)!) }))
+  }
+
+  async mergeEntities(survivorId: string, mergedIds: string[]): Promise<MergeResult> {
+    const survivor = this.entityNode(survivorId)
+    const ids = Array.from(new Set(mergedIds))
+    if (ids.length === 0) {
+      throw new EntityMergeError("No entities to merge")
+    }
+    if (ids.includes(survivorId)) {
+      throw new EntityMergeError("An entity cannot be merged into itself")
+    }
+    const merged = ids.map((id) => this.entityNode(id))
+    const mergedSet = new Set(ids)
+    const redirect = (id: string) => (mergedSet.has(id) ? survivorId : id)
+
+    let movedRelationships = 0
+    for (const edge of this.workspaceEdges()) {
+      if (!mergedSet.has(edge.source) && !mergedSet.has(edge.target)) continue
+
+      const source = redirect(edge.source)
+      const target = redirect(edge.target)
+      database.edges.delete(edge.id)
+      if (source === target) continue
+
+      // Collapse onto an equivalent edge of the survivor, keeping both edges' runs and evidence
+      const twin = this.workspaceEdges().find(
+        (e) =>
+          e.source === source &&
+          e.target === target &&
+          e.type === edge.type &&
+          (edge.type === MENTIONED_IN
+            ? e.properties.start === edge.properties.start && e.properties.end === edge.properties.end
+            : samePeriod(e.properties, edge.properties)),
+      )
+
+      if (twin) {
+        twin.properties.run_ids = union(twin.properties.run_ids, edge.properties.run_ids)
+        if (edge.type !== MENTIONED_IN) {
+          const evidence = (edge.properties.evidence || []).reduce(
+            (all: Evidence[], item: Evidence) => mergeEvidence(all, item),
+            twin.properties.evidence || [],
+          )
+          this.setEvidence(twin, evidence)
+        }
+      } else {
+        database.edges.set(edge.id, { ...edge, source, target })
+      }
+
+      if (edge.type !== MENTIONED_IN) movedRelationships++
+    }
+
+    const label = survivor.properties.label
+    const mergedNames = merged.flatMap((node) => [node.properties.label, ...(node.properties.aliases || [])])
+    survivor.properties = {
+      ...survivor.properties,
+      // Attributes only a merged entity had are kept; the survivor's own values win
+      ...merged.reduce(
+        (properties, node) => mergeAttributes(node.properties, properties),
+        mergeAttributes({}, survivor.properties),
+      ),
+      aliases: aliasSet(label, [...(survivor.properties.aliases || []), ...mergedNames]),
+      confidence: Math.max(survivor.properties.confidence || 0, ...merged.map((n) => n.properties.confidence || 0)),
+      run_ids: merged.reduce((runIds, node) => union(runIds, node.properties.run_ids), survivor.properties.run_ids),
+      merged_from: union(survivor.properties.merged_from, merged.map((node) => node.properties.label)),
+      updated_at: new Date().toISOString(),
+    }
+
+    for (const node of merged) database.nodes.delete(node.id)
+    for (const suggestion of this.workspaceNodes()) {
+      if (
+        suggestion.type === MERGE_SUGGESTION &&
+        (mergedSet.has(suggestion.properties.entity_id) || mergedSet.has(suggestion.properties.candidate_id))
+      ) {
+        database.nodes.delete(suggestion.id)
+      }
+    }
+
+    console.log(`Merged ${merged.map((node) => node.properties.label).join(", ")} into ${label}`)
+    return { entity: this.toEntity(survivor), mergedIds: ids, movedRelationships }
+  }
+
+  async addMergeSuggestions(suggestions: MergeSuggestionInput[], runId?: string): Promise<void> {
+    for (const suggestion of suggestions) {
+      // One suggestion per pair, whichever way round it was found
+      let node = this.workspaceNodes().find(
+        (n) =>
+          n.type === MERGE_SUGGESTION &&
+          [n.properties.entity_id, n.properties.candidate_id].sort().join() ===
+            [suggestion.entityId, suggestion.candidateId].sort().join(),
+      )
+      if (!node) {
+        node = {
+          id: this.nextId(),
+          workspace: this.workspace,
+          type: MERGE_SUGGESTION,
+          properties: { id: randomUUID(), created_at: new Date().toISOString() },
+        }
+        database.nodes.set(node.id, node)
+      }
+
+      Object.assign(node.properties, {
+        entity_id: suggestion.entityId,
+        candidate_id: suggestion.candidateId,
+        score: suggestion.score,
+        reasons: suggestion.reasons,
+      })
+      this.stampRun(node.properties, runId, false)
+    }
+  }
+
+  async listMergeSuggestions(): Promise<MergeSuggestion[]> {
+    return this.workspaceNodes()
+      .filter((node) => node.type === MERGE_SUGGESTION)
+      .flatMap((node) => {
+        const entity = database.nodes.get(node.properties.entity_id)
+        const candidate = database.nodes.get(node.properties.candidate_id)
+        if (!entity || !candidate) return []
+
+        return [
+          {
+            id: node.properties.id,
+            entityId: entity.id,
+            candidateId: candidate.id,
+            score: node.properties.score,
+            reasons: { ...node.properties.reasons },
+            createdAt: node.properties.created_at,
+            entity: this.toEntity(entity),
+            candidate: this.toEntity(candidate),
+          },
+        ]
+      })
+      .sort((a, b) => b.score - a.score)
+  }
+
+  async dismissMergeSuggestion(id: string): Promise<void> {
+    const node = this.workspaceNodes().find((n) => n.type === MERGE_SUGGESTION && n.properties.id === id)
+    if (!node) {
+      throw new EntityMergeError(`Merge suggestion ${id} does not exist`)
+    }
+    database.nodes.delete(node.id)
+  }
+
+  async createEntityWithMerge(entity: Omit<Entity, "id">): Promise<Entity> {
+    const type = this.checkedType(entity.type, "entity")
+    const confidence = entity.confidence || 0.8
+    const aliases = aliasSet(entity.label, entity.aliases)
+    const now = new Date().toISOString()
+
+    // Matched like a lookup, so "apple" or a known alias lands on "Apple" and is kept as one of its aliases
+    const existing = this.namedNode(entity.label, type)
+
+    if (existing) {
+      existing.properties = {
+        ...existing.properties,
+        confidence: Math.max(confidence, existing.properties.confidence || 0),
+        aliases: aliasSet(existing.properties.label, [
+          ...(existing.properties.aliases || []),
+          ...aliases,
+          entity.label,
+        ]),
+        updated_at: now,
+        ...entity.properties,
+        ...mergeAttributes(existing.properties, entity.properties || {}),
+      }
+      return this.toEntity(existing)
+    }
+
+    const node: StoredNode = {
+      id: this.nextId(),
+      workspace: this.workspace,
+      type,
+      properties: {
+        label: entity.label,
+        confidence,
+        aliases,
+        created_at: now,
+        ...entity.properties,
+      },
+    }
+    database.nodes.set(node.id, node)
+
+    return this.toEntity(node)
+  }
+
+  async createRelationshipWithValidation(
+    sourceLabel: string,
+    targetLabel: string,
+    sourceType: string,
+    targetType: string,
+    relationshipType: string,
+    properties: Record<string, any> = {},
+  ): Promise<Relationship | null> {
+    return this.mergeEdge(
+      sourceLabel,
+      targetLabel,
+      sourceType,
+      targetType,
+      relationshipType,
+      properties,
+      evidenceFrom(properties),
+    )
+  }
+
+  // Creates the relationship or, if it already exists, adds the sighting to its evidence
+  private async mergeEdge(
+    sourceLabel: string,
+    targetLabel: string,
+    sourceType: string,
+    targetType: string,
+    relationshipType: string,
+    properties: Record<string, any>,
+    evidence: Evidence,
+  ): Promise<Relationship | null> {
+    relationshipType = this.checkedType(relationshipType, "relationship")
+    const sourceEntity = await this.findEntityByLabelAndType(sourceLabel, sourceType)
+    const targetEntity = await this.findEntityByLabelAndType(targetLabel, targetType)
+
+    if (!sourceEntity || !targetEntity) {
+      console.warn(`Cannot create relationship: source (${sourceLabel}) or target (${targetLabel}) not found`)
+      return null
+    }
+
+    // One edge per period, so a tenure that ended and a later one are both kept
+    const period = normalizeQualifiers(properties)
+    const existing = this.workspaceEdges().find(
+      (edge) =>
+        edge.source === sourceEntity.id &&
+        edge.target === targetEntity.id &&
+        edge.type === relationshipType &&
+        samePeriod(edge.properties, period),
+    )
+    if (existing) {
+      console.log(`Relationship already exists: ${sourceLabel} -[${relationshipType}]-> ${targetLabel}`)
+      // Extracted directly now, so it no longer depends on its premises
+      for (const key of INFERENCE_PROPERTIES) delete existing.properties[key]
+      // Temporal qualifiers it does not have yet are taken from this sighting; known ones are kept
+      for (const key of TEMPORAL_PROPERTIES) {
+        if (existing.properties[key] == null && properties[key] != null) existing.properties[key] = properties[key]
+      }
+      Object.assign(existing.properties, mergeAttributes(existing.properties, properties))
+      this.setEvidence(existing, mergeEvidence(existing.properties.evidence || [], evidence))
+      existing.properties.updated_at = new Date().toISOString()
+      return this.toRelationship(existing)
+    }
+
+    const edge: StoredEdge = {
+      id: this.nextId(),
+      workspace: this.workspace,
+      source: sourceEntity.id,
+      target: targetEntity.id,
+      type: relationshipType,
+      properties: {
+        ...properties,
+        created_at: new Date().toISOString(),
+      },
+    }
+    this.setEvidence(edge, [evidence])
+    database.edges.set(edge.id, edge)
+
+    return this.toRelationship(edge)
+  }
+
+  async bulkUpsert(batch: GraphBatch): Promise<GraphData & { document?: SourceDocument }> {
+    // No round-trips to save in memory, so the batch simply reuses the single-item operations
+    const firstNewId = database.nextId
+    const entities = new Map<string, Entity>()
+    const nodeIds = new Map<string, string>()
+    for (const input of batch.entities) {
+      const entity = await this.createEntityWithMerge(input)
+      const node = database.nodes.get(entity.id)!
+      this.stampRun(node.properties, batch.runId, Number(node.id) >= firstNewId)
+      entities.set(entity.id, this.toEntity(node))
+      nodeIds.set(nodeKey(node.type, input.label), node.id)
+    }
+
+    const relationships: Relationship[] = []
+    for (const rel of batch.relationships) {
+      const relationship = await this.mergeEdge(
+        rel.sourceLabel,
+        rel.targetLabel,
+        rel.sourceType,
+        rel.targetType,
+        rel.type,
+        rel.properties,
+        evidenceFrom(rel.properties, { runId: batch.runId, document: batch.document }),
+      )
+      if (relationship) {
+        const edge = database.edges.get(relationship.id)!
+        this.stampRun(edge.properties, batch.runId, Number(edge.id) >= firstNewId)
+        relationships.push(this.toRelationship(edge))
+      }
+    }
+
+    const document = batch.document ? this.upsertDocument(batch, nodeIds, firstNewId) : undefined
+
+    return { entities: Array.from(entities.values()), relationships, document }
+  }
+
+  async ingest(batch: GraphBatch, options: IngestionOptions): Promise<IngestionResult> {
+    const runId = randomUUID()
+    const startedAt = new Date().toISOString()
+    // Compensating rollback: restore this snapshot if any step fails
+    const snapshot = this.snapshot()
+
+    try {
+      if (options.clearBefore) {
+        console.log("Clearing previous graph data...")
+        this.deleteWorkspaceData(this.workspace)
+      }
+
+      const written = await this.bulkUpsert({ ...batch, runId })
+      const run = this.recordRun({
+        id: runId,
+        source: options.source,
+        status: "completed",
+        startedAt,
+        completedAt: new Date().toISOString(),
+        entityCount: written.entities.length,
+        relationshipCount: written.relationships.length,
+      })
+
+      console.log(`Ingestion run ${runId} committed`)
+      return { ...written, run }
+    } catch (error) {
+      console.error(`Ingestion run ${runId} failed, rolling back:`, error)
+      this.restore(snapshot)
+      this.recordRun({
+        id: runId,
+        source: options.source,
+        status: "failed",
+        startedAt,
+        completedAt: new Date().toISOString(),
+        entityCount: 0,
+        relationshipCount: 0,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      throw new IngestionError(runId, error)
+    }
+  }
+
+  async listIngestionRuns(): Promise<IngestionRun[]> {
+    return Array.from(database.runs.values())
+      .filter((run) => run.workspace === this.workspace)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .map(({ workspace, ...run }) => run)
+  }
+
+  async undoIngestionRun(runId: string): Promise<UndoResult> {
+    const run = database.runs.get(runId)
+    if (!run || run.workspace !== this.workspace) {
+      throw new IngestionUndoError(`Ingestion run ${runId} does not exist in workspace "${this.workspace}"`)
+    }
+    if (run.status !== "completed") {
+      throw new IngestionUndoError(
+        run.status === "undone"
+          ? `Ingestion run ${runId} has already been undone`
+          : `Ingestion run ${runId} failed and has nothing to undo`,
+      )
+    }
+
+    const result = { deletedEntities: 0, deletedRelationships: 0, updatedEntities: 0, updatedRelationships: 0 }
+
+    for (const edge of this.workspaceEdges()) {
+      if (!this.unstampRun(edge.properties, runId)) continue
+      const orphaned = edge.properties.run_ids.length === 0
+      if (orphaned) database.edges.delete(edge.id)
+      if (edge.type === MENTIONED_IN) continue
+
+      if (orphaned) {
+        result.deletedRelationships++
+      } else {
+        this.setEvidence(edge, (edge.properties.evidence || []).filter((e: Evidence) => e.runId !== runId))
+        result.updatedRelationships++
+      }
+    }
+
+    for (const node of this.workspaceNodes()) {
+      if (!this.unstampRun(node.properties, runId)) continue
+      const orphaned = node.properties.run_ids.length === 0
+      if (orphaned) this.detachDelete(node.id)
+      if (SYSTEM_TYPES.has(node.type)) continue
+
+      if (orphaned) {
+        result.deletedEntities++
+      } else {
+        result.updatedEntities++
+      }
+    }
+
+    run.status = "undone"
+    run.undoneAt = new Date().toISOString()
+    console.log(`Ingestion run ${runId} undone`)
+
+    const { workspace, ...publicRun } = run
+    return { run: publicRun, ...result }
+  }
+
+  async addInferredRelationships(relationships: InferredRelationshipInput[]): Promise<number> {
+    const existing = new Set(this.workspaceEdges().map((edge) => `${edge.source}|${edge.type}|${edge.target}`))
+    let written = 0
+
+    for (const input of relationships) {
+      const type = this.checkedType(input.type, "relationship")
+      const key = `${input.sourceId}|${type}|${input.targetId}`
+      const endpoints = [input.sourceId, input.targetId].map((id) => database.nodes.get(id))
+      if (existing.has(key) || endpoints.some((node) => !node || node.workspace !== this.workspace)) continue
+
+      const edge: StoredEdge = {
+        id: this.nextId(),
+        workspace: this.workspace,
+        source: input.sourceId,
+        target: input.targetId,
+        type,
+        properties: {
+          inferred: true,
+          rule: input.rule,
+          premises: input.premises,
+          confidence: input.confidence,
+          modality: input.modality,
+          ...(input.valid_from ? { valid_from: input.valid_from } : {}),
+          ...(input.valid_to ? { valid_to: input.valid_to } : {}),
+          created_at: new Date().toISOString(),
+        },
+      }
+      database.edges.set(edge.id, edge)
+      existing.add(key)
+      written++
+    }
+
+    return written
+  }
+
+  async clearInferredRelationships(): Promise<number> {
+    const inferred = this.workspaceEdges().filter((edge) => edge.properties.inferred)
+    for (const edge of inferred) database.edges.delete(edge.id)
+    return inferred.length
+  }
+
+  async getEntityMentions(entityId: string): Promise<EntityMention[]> {
+    return this.workspaceEdges()
+      .filter((edge) => edge.type === MENTIONED_IN && edge.source === entityId)
+      .map((edge) => ({
+        document: this.toDocument(database.nodes.get(edge.target)!),
+        start: edge.properties.start,
+        end: edge.properties.end,
+        sentence: edge.properties.sentence,
+        page: edge.properties.page,
+      }))
+      .sort((a, b) => b.document.uploadedAt.localeCompare(a.document.uploadedAt) || a.start - b.start)
+  }
+
+  async getAllEntitiesAndRelationships(options: GraphQueryOptions = {}): Promise<GraphData> {
+    const entities = this.workspaceNodes()
+      .filter((node) => !SYSTEM_TYPES.has(node.type))
+      .map((node) => this.toEntity(node))
+      .sort((a, b) => (b.confidence ?? 1.0) - (a.confidence ?? 1.0) || a.label.localeCompare(b.label))
+
+    const relationships = this.workspaceEdges()
+      .filter((edge) => edge.type !== MENTIONED_IN)
+      .filter((edge) => !options.asOf || isValidAt(edge.properties, options.asOf))
+      .map((edge) => this.toRelationship(edge))
+      .sort((a, b) => (b.confidence ?? 1.0) - (a.confidence ?? 1.0))
+
+    return { entities, relationships }
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release; the database lives for the lifetime of the process
+  }
+
+  // Same identifier rules as the Neo4j backend, so both stores accept and reject the same types
+  private checkedType(type: string, kind: "entity" | "relationship"): string {
+    toCypherLabel(type, kind)
+    return normalizeTypeLabel(type)
+  }
+
+  private entityNode(id: string): StoredNode {
+    const node = database.nodes.get(id)
+    if (!node || node.workspace !== this.workspace || SYSTEM_TYPES.has(node.type)) {
+      throw new EntityMergeError(`Entity ${id} does not exist in workspace "${this.workspace}"`)
+    }
+    return node
+  }
+
+  // The node of that type whose label or one of whose aliases is the name, ignoring case
+  private namedNode(name: string, type: string): StoredNode | undefined {
+    const lowerName = name.toLowerCase()
+    return this.workspaceNodes().find(
+      (node) =>
+        node.type === type &&
+        [node.properties.label, ...(node.properties.aliases || [])].some(
+          (known) => String(known).toLowerCase() === lowerName,
+        ),
+    )
+  }
+
+  private workspaceNodes(): StoredNode[] {
+    return Array.from(database.nodes.values()).filter((node) => node.workspace === this.workspace)
+  }
+
+  private workspaceEdges(): StoredEdge[] {
+    return Array.from(database.edges.values()).filter((edge) => edge.workspace === this.workspace)
+  }
+
+  // Re-uploading the same content reuses its Document node; mentions are keyed by offsets so they are not duplicated
+  private upsertDocument(batch: GraphBatch, nodeIds: Map<string, string>, firstNewId: number): SourceDocument {
+    const document = batch.document!
+    let node = this.workspaceNodes().find((n) => n.type === DOCUMENT && n.properties.hash === document.hash)
+    if (!node) {
+      node = { id: this.nextId(), workspace: this.workspace, type: DOCUMENT, properties: {} }
+      database.nodes.set(node.id, node)
+    }
+
+    Object.assign(node.properties, { ...document, uploaded_at: new Date().toISOString() })
+    this.stampRun(node.properties, batch.runId, Number(node.id) >= firstNewId)
+
+    for (const mention of batch.mentions || []) {
+      const entityId = nodeIds.get(nodeKey(normalizeTypeLabel(mention.type), mention.label))
+      if (!entityId) continue
+
+      let edge = this.workspaceEdges().find(
+        (e) =>
+          e.type === MENTIONED_IN &&
+          e.source === entityId &&
+          e.target === node!.id &&
+          e.properties.start === mention.start &&
+          e.properties.end === mention.end,
+      )
+      if (!edge) {
+        edge = {
+          id: this.nextId(),
+          workspace: this.workspace,
+          source: entityId,
+          target: node.id,
+          type: MENTIONED_IN,
+          properties: { start: mention.start, end: mention.end, created_at: new Date().toISOString() },
+        }
+        database.edges.set(edge.id, edge)
+      }
+
+      edge.properties.sentence = mention.sentence
+      edge.properties.page = mention.page
+      this.stampRun(edge.properties, batch.runId, Number(edge.id) >= firstNewId)
+    }
+
+    return this.toDocument(node)
+  }
+
+  private recordRun(run: IngestionRun): IngestionRun {
+    database.runs.set(run.id, { ...run, workspace: this.workspace })
+    return { ...run }
+  }
+
+  private stampRun(properties: Record<string, any>, runId: string | undefined, created: boolean): void {
+    if (!runId) return
+    if (created) properties.created_run = runId
+
+    const runIds: string[] = properties.run_ids || []
+    if (!runIds.includes(runId)) properties.run_ids = [...runIds, runId]
+  }
+
+  // Confidence, support count and modality are always derived from the evidence list
+  private setEvidence(edge: StoredEdge, evidence: Evidence[]): void {
+    const summary = summarizeEvidence(evidence, edge.properties.confidence)
+    edge.properties.evidence = evidence
+    edge.properties.confidence = summary.confidence
+    edge.properties.support_count = summary.support_count
+    edge.properties.modality = summary.modality
+  }
+
+  // Returns whether the run had stamped these properties
+  private unstampRun(properties: Record<string, any>, runId: string): boolean {
+    const runIds: string[] = properties.run_ids || []
+    if (!runIds.includes(runId)) return false
+    properties.run_ids = runIds.filter((id) => id !== runId)
+    return true
+  }
+
+  private detachDelete(nodeId: string): void {
+    for (const [id, edge] of database.edges) {
+      if (edge.source === nodeId || edge.target === nodeId) database.edges.delete(id)
+    }
+    database.nodes.delete(nodeId)
+  }
+
+  // Runs are included because clearBefore deletes the workspace's run history along with its graph
+  private snapshot(): Pick<InMemoryDatabase, "nodes" | "edges" | "runs" | "nextId"> {
+    return {
+      nodes: structuredClone(database.nodes),
+      edges: structuredClone(database.edges),
+      runs: structuredClone(database.runs),
+      nextId: database.nextId,
+    }
+  }
+
+  private restore(snapshot: Pick<InMemoryDatabase, "nodes" | "edges" | "runs" | "nextId">): void {
+    database.nodes = snapshot.nodes
+    database.edges = snapshot.edges
+    database.runs = snapshot.runs
+    database.nextId = snapshot.nextId
+  }
+
+  private deleteWorkspaceData(workspace: string): void {
+    for (const [id, edge] of database.edges) {
+      if (edge.workspace === workspace) database.edges.delete(id)
+    }
+    for (const [id, node] of database.nodes) {
+      if (node.workspace === workspace) database.nodes.delete(id)
+    }
+    for (const [id, run] of database.runs) {
+      if (run.workspace === workspace) database.runs.delete(id)
+    }
+  }
+
+  private nextId(): string {
+    return String(database.nextId++)
+  }
+
+  private toEntity(node: StoredNode): Entity {
+    return {
+      id: node.id,
+      label: node.properties.label || "Unknown",
+      type: node.type,
+      properties: { ...node.properties },
+      confidence: node.properties.confidence || 1.0,
+      aliases: node.properties.aliases || [],
+    }
+  }
+
+  private toDocument(node: StoredNode): SourceDocument {
+    return {
+      id: node.id,
+      name: node.properties.name,
+      hash: node.properties.hash,
+      size: node.properties.size,
+      extractor: node.properties.extractor,
+      uploadedAt: node.properties.uploaded_at,
+    }
+  }
+
+  private toRelationship(edge: StoredEdge): Relationship {
+    return {
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      type: edge.type,
+      properties: { ...edge.properties },
+      confidence: edge.properties.confidence || 1.0,
+    }
+  }
+}
+
+function nodeKey(type: string, label: string): string {
+  return `${type}|${label.toLowerCase()}`
+}
+
+function union<T>(a: T[] | undefined, b: T[] | undefined): T[] {
+  return Array.from(new Set([...(a || []), ...(b || [])]))
+}
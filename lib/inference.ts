@@ -0,0 +1,222 @@
+import type { GraphStore } from "./graph-store"
+import { formatRule, parseRule, type InferenceRule, type Ontology, type RuleAtom } from "./ontology"
+import { isModality, weakestModality, type Modality } from "./factuality"
+
+interface Relationship {
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+  confidence?: number
+}
+
+// A relationship between two stored entities, by id
+export interface Fact {
+  source: string
+  type: string
+  target: string
+  confidence: number
+  modality: Modality
+  // ISO dates bounding when it held, if known
+  validFrom?: string
+  validTo?: string
+}
+
+export interface DerivedFact extends Fact {
+  // The rule as written, e.g. "CEO_OF(x, y) -> WORKS_AT(x, y)"
+  rule: string
+  // factKey of each premise, in rule body order
+  premises: string[]
+}
+
+export interface InferenceSummary {
+  inferred: number
+  rules: number
+}
+
+// Derivation stops here so a runaway rule set (or a huge graph) cannot stall ingestion
+const MAX_DERIVED_FACTS = Number(process.env.INFERENCE_MAX_FACTS) || 5000
+
+// The ontology's inverse, symmetric and transitive types as rules, followed by its own rules
+export function inferenceRules(ontology: Ontology): InferenceRule[] {
+  const rules: InferenceRule[] = []
+  const atom = (type: string, source: string, target: string): RuleAtom => ({ type, source, target })
+
+  for (const { name, inverse, symmetric, transitive } of ontology.relationshipTypes) {
+    if (inverse) rules.push({ body: [atom(name, "x", "y")], head: atom(inverse, "y", "x") })
+    if (symmetric) rules.push({ body: [atom(name, "x", "y")], head: atom(name, "y", "x") })
+    if (transitive) rules.push({ body: [atom(name, "x", "y"), atom(name, "y", "z")], head: atom(name, "x", "z") })
+  }
+
+  return [...rules, ...(ontology.rules || []).map(parseRule)]
+}
+
+export function factKey(fact: { source: string; type: string; target: string }): string {
+  return `${fact.source}|${fact.type}|${fact.target}`
+}
+
+// Semi-naive forward chaining: each round only joins rules against facts that are new since the last round, starting
+// from delta (by default every fact), so an ingestion only derives what its own relationships make true. Facts
+// that are already known and self-loops are never derived; a derived fact is as confident and as certain as all its
+// premises together, and holds only while all of them do (premises whose periods do not overlap derive nothing).
+export function forwardChain(facts: Fact[], rules: InferenceRule[], delta: Fact[] = facts): DerivedFact[] {
+  const known = new Set<string>()
+  const byType = new Map<string, Fact[]>()
+  const bySource = new Map<string, Fact[]>()
+  const addTo = (map: Map<string, Fact[]>, key: string, fact: Fact) => {
+    const list = map.get(key)
+    if (list) list.push(fact)
+    else map.set(key, [fact])
+  }
+  const add = (fact: Fact) => {
+    known.add(factKey(fact))
+    addTo(byType, fact.type, fact)
+    addTo(bySource, `${fact.type}|${fact.source}`, fact)
+  }
+  for (const fact of [...facts, ...delta]) {
+    if (!known.has(factKey(fact))) add(fact)
+  }
+
+  // Premises for an atom: by type, narrowed to the bound source when there is one
+  const candidates = (atom: RuleAtom, bindings: Record<string, string>) =>
+    (bindings[atom.source] ? bySource.get(`${atom.type}|${bindings[atom.source]}`) : byType.get(atom.type)) || []
+
+  const derived: DerivedFact[] = []
+  let frontier = delta
+
+  while (frontier.length > 0 && derived.length < MAX_DERIVED_FACTS) {
+    const round: DerivedFact[] = []
+
+    for (const rule of rules) {
+      const text = formatRule(rule)
+      rule.body.forEach((seed, index) => {
+        const rest = rule.body.filter((_, i) => i !== index)
+        for (const fact of frontier) {
+          const bindings = fact.type === seed.type ? bind({}, seed, fact) : null
+          if (!bindings) continue
+
+          for (const match of matches(rest, bindings, [], candidates)) {
+            const head = {
+              source: match.bindings[rule.head.source],
+              type: rule.head.type,
+              target: match.bindings[rule.head.target],
+            }
+            if (head.source === head.target || known.has(factKey(head))) continue
+            if (derived.length + round.length >= MAX_DERIVED_FACTS) return
+
+            const premises = [...match.premises.slice(0, index), fact, ...match.premises.slice(index)]
+            const period = overlap(premises)
+            if (!period) continue
+
+            const conclusion: DerivedFact = {
+              ...head,
+              confidence: Number(premises.reduce((product, premise) => product * premise.confidence, 1).toFixed(3)),
+              modality: weakestModality(premises.map((premise) => premise.modality)),
+              ...period,
+              rule: text,
+              premises: premises.map(factKey),
+            }
+            add(conclusion)
+            round.push(conclusion)
+          }
+        }
+      })
+    }
+
+    derived.push(...round)
+    frontier = round
+  }
+
+  if (derived.length >= MAX_DERIVED_FACTS) {
+    console.warn(`Inference stopped after ${MAX_DERIVED_FACTS} derived facts (INFERENCE_MAX_FACTS)`)
+  }
+  return derived
+}
+
+// Adds what the ontology's rules derive from the stored graph. With delta (the relationships an ingestion just
+// wrote), only consequences that involve at least one of them are derived.
+export async function runInference(
+  graphStore: GraphStore,
+  ontology: Ontology,
+  delta?: Relationship[],
+): Promise<InferenceSummary> {
+  const rules = inferenceRules(ontology)
+  if (rules.length === 0 || delta?.length === 0) return { inferred: 0, rules: rules.length }
+
+  const graph = await graphStore.getAllEntitiesAndRelationships()
+  const derived = forwardChain(graph.relationships.map(toFact), rules, delta?.map(toFact))
+  const inferred = await graphStore.addInferredRelationships(
+    derived.map(({ source, target, validFrom, validTo, ...fact }) => ({
+      sourceId: source,
+      targetId: target,
+      ...fact,
+      valid_from: validFrom,
+      valid_to: validTo,
+    })),
+  )
+
+  if (inferred > 0) console.log(`Inferred ${inferred} relationships from ${rules.length} rules`)
+  return { inferred, rules: rules.length }
+}
+
+// Drops every inferred relationship and derives them again from scratch; needed whenever premises may have
+// disappeared (undo, merge) or the rules changed
+export async function recomputeInference(graphStore: GraphStore, ontology: Ontology): Promise<InferenceSummary> {
+  await graphStore.clearInferredRelationships()
+  return runInference(graphStore, ontology)
+}
+
+function* matches(
+  atoms: RuleAtom[],
+  bindings: Record<string, string>,
+  premises: Fact[],
+  candidates: (atom: RuleAtom, bindings: Record<string, string>) => Fact[],
+): Generator<{ bindings: Record<string, string>; premises: Fact[] }> {
+  if (atoms.length === 0) {
+    yield { bindings, premises }
+    return
+  }
+
+  const [atom, ...rest] = atoms
+  for (const fact of candidates(atom, bindings)) {
+    const next = bind(bindings, atom, fact)
+    if (next) yield* matches(rest, next, [...premises, fact], candidates)
+  }
+}
+
+// The bindings extended with the fact's endpoints, or null when they contradict a variable already bound
+function bind(bindings: Record<string, string>, atom: RuleAtom, fact: Fact): Record<string, string> | null {
+  const next = { ...bindings }
+  for (const [variable, value] of [
+    [atom.source, fact.source],
+    [atom.target, fact.target],
+  ]) {
+    if (next[variable] !== undefined && next[variable] !== value) return null
+    next[variable] = value
+  }
+  return next
+}
+
+// The latest start and earliest end among the premises, or null when they never held at the same time
+function overlap(premises: Fact[]): { validFrom?: string; validTo?: string } | null {
+  const froms = premises.map((premise) => premise.validFrom).filter((date): date is string => !!date)
+  const tos = premises.map((premise) => premise.validTo).filter((date): date is string => !!date)
+  const validFrom = froms.sort().pop()
+  const validTo = tos.sort().shift()
+  if (validFrom && validTo && validFrom > validTo) return null
+  return { ...(validFrom ? { validFrom } : {}), ...(validTo ? { validTo } : {}) }
+}
+
+function toFact(relationship: Relationship): Fact {
+  const { valid_from, valid_to, as_of } = relationship.properties
+  return {
+    source: relationship.source,
+    type: relationship.type,
+    target: relationship.target,
+    confidence: relationship.confidence ?? relationship.properties.confidence ?? 1,
+    modality: isModality(relationship.properties.modality) ? relationship.properties.modality : "certain",
+    // A point-in-time fact held from then on
+    ...(valid_from || as_of ? { validFrom: valid_from || as_of } : {}),
+    ...(valid_to ? { validTo: valid_to } : {}),
+  }
+}
@@ -0,0 +1,286 @@
+import { DEFAULT_ONTOLOGY, isLiteralType, isSubtypeOf, type Ontology } from "./ontology"
+import { FALLBACK_RELATIONSHIP_TYPE } from "./relationship-normalization"
+import { normalizeDate } from "./temporal"
+
+interface Entity {
+  label: string
+  type: string
+  properties: Record<string, any>
+}
+
+interface Relationship {
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+}
+
+// A value that describes an entity or relationship, e.g. { name: "net_worth", type: "MONEY", value: "$3 trillion" }.
+// Unnamed qualities ("Very Rich") are collected in the attributes list.
+export interface Literal {
+  name?: string
+  type: string
+  value: string | number
+}
+
+// Property listing the owner's unnamed qualities
+export const ATTRIBUTE_LIST = "attributes"
+// Property listing which of the owner's other properties are attributes, so they can be told from bookkeeping
+export const ATTRIBUTE_KEYS = "attribute_keys"
+
+// How a literal's value is normalized; literal types outside these are kept as text
+type LiteralKind = "MONEY" | "PERCENTAGE" | "DATE" | "ATTRIBUTE"
+const KINDS: LiteralKind[] = ["MONEY", "PERCENTAGE", "DATE"]
+
+// Attribute names for literals joined by HAS_ATTRIBUTE or an unnamed RELATED_TO
+const DEFAULT_NAMES: Record<LiteralKind, string | undefined> = {
+  MONEY: "amount",
+  PERCENTAGE: "percentage",
+  DATE: "date",
+  ATTRIBUTE: undefined,
+}
+
+// Properties the stores and pipeline set themselves; an attribute with one of these names gets a _value suffix
+const RESERVED_NAMES = new Set([
+  "id",
+  "label",
+  "type",
+  "confidence",
+  "aliases",
+  "workspace",
+  "created_at",
+  "updated_at",
+  "created_run",
+  "run_ids",
+  "merged_from",
+  "evidence",
+  "support_count",
+  "context",
+  "description",
+  "verb",
+  "originalType",
+  "polarity",
+  "modality",
+  "valid_from",
+  "valid_to",
+  "as_of",
+  "inferred",
+  "rule",
+  "premises",
+  ATTRIBUTE_LIST,
+  ATTRIBUTE_KEYS,
+])
+
+// ISO 4217 codes by symbol and name
+const CURRENCIES: Record<string, string> = {
+  $: "USD",
+  us$: "USD",
+  usd: "USD",
+  dollar: "USD",
+  dollars: "USD",
+  "€": "EUR",
+  eur: "EUR",
+  euro: "EUR",
+  euros: "EUR",
+  "£": "GBP",
+  gbp: "GBP",
+  pound: "GBP",
+  pounds: "GBP",
+  "¥": "JPY",
+  jpy: "JPY",
+  yen: "JPY",
+  "₹": "INR",
+  inr: "INR",
+  rupee: "INR",
+  rupees: "INR",
+  chf: "CHF",
+  franc: "CHF",
+  francs: "CHF",
+}
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+  t: 1e12,
+  tn: 1e12,
+  trillion: 1e12,
+}
+
+const MONEY = /^([^\d\s.,-]+)?\s*(-?\d[\d,]*(?:\.\d+)?)\s*([a-z]+)?\.?\s*([^\d\s.,]+)?$/
+const PERCENTAGE = /^(-?\d[\d,]*(?:\.\d+)?)\s*(?:%|percent|per\s*cent|pct)$/
+
+// The owner's properties for a set of literals: a typed value under its name (3000000000000 for "$3 trillion",
+// 42 for "42%", "1997-01-01" for "1997"), with name_currency or name_unit beside it, and unnamed qualities in
+// the attributes list
+export function literalProperties(literals: Literal[], ontology: Ontology = DEFAULT_ONTOLOGY): Record<string, any> {
+  const properties: Record<string, any> = {}
+  const keys: string[] = []
+  const qualities: string[] = []
+
+  for (const literal of literals) {
+    const kind = literalKind(ontology, literal.type)
+    const name = literal.name ? attributeKey(literal.name) : DEFAULT_NAMES[kind]
+    if (!name) {
+      const quality = String(literal.value).trim()
+      if (quality && !qualities.includes(quality)) qualities.push(quality)
+      continue
+    }
+
+    const { value, currency, unit } = normalizeLiteral(literal.value, kind)
+    properties[name] = value
+    if (currency) properties[`${name}_currency`] = currency
+    if (unit) properties[`${name}_unit`] = unit
+    if (!keys.includes(name)) keys.push(name)
+  }
+
+  if (keys.length > 0) properties[ATTRIBUTE_KEYS] = keys
+  if (qualities.length > 0) properties[ATTRIBUTE_LIST] = qualities
+  return properties
+}
+
+// Typed value for a literal: amounts become numbers with an ISO currency, percentages numbers in %, dates ISO
+// dates. Values that do not parse are kept as text.
+export function normalizeLiteral(
+  raw: string | number,
+  kind: LiteralKind,
+): { value: string | number; currency?: string; unit?: string } {
+  if (typeof raw === "number") return { value: raw, ...(kind === "PERCENTAGE" ? { unit: "%" } : {}) }
+  const text = raw.trim()
+  const lower = text.toLowerCase()
+
+  if (kind === "MONEY") {
+    const match = lower.match(MONEY)
+    if (match) {
+      const [, prefix, amount, word, suffix] = match
+      const scale = word && SCALES[word] ? SCALES[word] : 1
+      // "300 dollars": a word after the amount that is not a scale has to be the currency
+      const symbols = word && !SCALES[word] ? [prefix, word, suffix] : [prefix, suffix]
+      const given = symbols.filter((symbol): symbol is string => !!symbol)
+      if (given.length <= 1 || (given.length === 2 && CURRENCIES[given[0]] === CURRENCIES[given[1]])) {
+        const currencies = given.map((symbol) => CURRENCIES[symbol])
+        if (currencies.every(Boolean)) {
+          const value = Number((Number(amount.replace(/,/g, "")) * scale).toFixed(2))
+          return { value, ...(currencies[0] ? { currency: currencies[0] } : {}) }
+        }
+      }
+    }
+  }
+
+  if (kind === "PERCENTAGE") {
+    const match = lower.match(PERCENTAGE)
+    if (match) return { value: Number(match[1].replace(/,/g, "")), unit: "%" }
+  }
+
+  if (kind === "DATE") {
+    const date = normalizeDate(text, "start")
+    if (date) return { value: date }
+  }
+
+  return { value: text }
+}
+
+// Turns entities of literal types into attributes of what they describe: a relationship between an entity and
+// a literal ("Elon Musk HAS_ATTRIBUTE Very Rich", "Apple VALUED_AT $3 trillion") becomes a property of the entity
+// named after the relationship, and the literal is dropped along with any relationship it was the only party to.
+export function liftLiterals<E extends Entity, R extends Relationship>(
+  extraction: { entities: E[]; relationships: R[] },
+  ontology: Ontology = DEFAULT_ONTOLOGY,
+): { entities: E[]; relationships: R[]; lifted: number } {
+  const literalsByLabel = new Map(
+    extraction.entities
+      .filter((entity) => isLiteralType(ontology, entity.type))
+      .map((entity) => [entity.label.toLowerCase(), entity]),
+  )
+  if (literalsByLabel.size === 0) return { ...extraction, lifted: 0 }
+
+  const owned = new Map<string, Literal[]>()
+  const relationships: R[] = []
+  let lifted = 0
+
+  for (const relationship of extraction.relationships) {
+    const source = literalsByLabel.get(relationship.source.toLowerCase())
+    const target = literalsByLabel.get(relationship.target.toLowerCase())
+    if (!source && !target) {
+      relationships.push(relationship)
+      continue
+    }
+    // Two literals joined to each other say nothing about an entity
+    if (source && target) continue
+
+    const literal = (source ?? target)!
+    const owner = (source ? relationship.target : relationship.source).toLowerCase()
+    const name = attributeName(relationship, literalKind(ontology, literal.type))
+    owned.set(owner, [...(owned.get(owner) || []), { name, type: literal.type, value: literal.label }])
+    lifted++
+  }
+
+  const entities = extraction.entities
+    .filter((entity) => !literalsByLabel.has(entity.label.toLowerCase()))
+    .map((entity) => {
+      const literals = owned.get(entity.label.toLowerCase())
+      if (!literals) return entity
+      const attributes = mergeAttributes(entity.properties, literalProperties(literals, ontology))
+      return { ...entity, properties: { ...entity.properties, ...attributes } }
+    })
+
+  if (lifted > 0) console.log(`Stored ${lifted} literal values as attributes`)
+  return { entities, relationships, lifted }
+}
+
+// The attribute properties of an owner after adding another set: the attribute lists are combined, and values
+// from `from` take the place of those in `into`. Only attribute properties are returned.
+export function mergeAttributes(into: Record<string, any>, from: Record<string, any>): Record<string, any> {
+  const keys = union(into[ATTRIBUTE_KEYS], from[ATTRIBUTE_KEYS])
+  const qualities = union(into[ATTRIBUTE_LIST], from[ATTRIBUTE_LIST])
+  return {
+    ...attributeValues(into),
+    ...attributeValues(from),
+    ...(keys.length > 0 ? { [ATTRIBUTE_KEYS]: keys } : {}),
+    ...(qualities.length > 0 ? { [ATTRIBUTE_LIST]: qualities } : {}),
+  }
+}
+
+// The typed attribute values among an owner's properties, with their _currency and _unit beside them
+export function attributeValues(properties: Record<string, any>): Record<string, any> {
+  const values: Record<string, any> = {}
+  for (const key of union(properties[ATTRIBUTE_KEYS], [])) {
+    for (const property of [key, `${key}_currency`, `${key}_unit`]) {
+      if (properties[property] !== undefined) values[property] = properties[property]
+    }
+  }
+  return values
+}
+
+function literalKind(ontology: Ontology, type: string): LiteralKind {
+  return KINDS.find((kind) => isSubtypeOf(ontology, type, kind)) ?? "ATTRIBUTE"
+}
+
+// "VALUED_AT" -> "valued_at"; "HAS_REVENUE" -> "revenue"; RELATED_TO uses the verb it kept. HAS_ATTRIBUTE names
+// nothing, so the literal's kind decides.
+function attributeName(relationship: Relationship, kind: LiteralKind): string | undefined {
+  const verb = relationship.type === FALLBACK_RELATIONSHIP_TYPE ? relationship.properties.verb : relationship.type
+  const name = typeof verb === "string" ? attributeKey(verb).replace(/^(?:has|is|was)_(?=.)/, "") : ""
+  return !name || name === "attribute" ? DEFAULT_NAMES[kind] : name
+}
+
+// "Net Worth" -> "net_worth", kept clear of the properties the stores use themselves
+function attributeKey(name: string): string {
+  const key = name
+    .trim()
+    .replace(/([a-z])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+  return RESERVED_NAMES.has(key) ? `${key}_value` : key || "value"
+}
+
+function union(a: unknown, b: unknown): string[] {
+  const values = [...(Array.isArray(a) ? a : []), ...(Array.isArray(b) ? b : [])]
+  return Array.from(new Set(values.filter((value): value is string => typeof value === "string")))
+}
@@ -0,0 +1,55 @@
+// Per-call record of an LLM extraction: how many attempts it took, what was repaired and what was dropped
+
+export type LLMCallOutcome =
+  // Valid on the first attempt without repair
+  | "valid"
+  // Valid after JSON repair and/or re-prompting
+  | "repaired"
+  // Some items of the last parseable answer failed validation and were dropped
+  | "partial"
+  // No usable JSON after every attempt
+  | "invalid"
+  // The provider call itself failed
+  | "error"
+
+export interface LLMAttempt {
+  attempt: number
+  durationMs: number
+  responseChars: number
+  // True when the raw response only parsed after repair (trailing commas, truncation)
+  repaired: boolean
+  errors: string[]
+}
+
+export interface LLMCallDiagnostics {
+  provider: string
+  model: string
+  startedAt: string
+  outcome: LLMCallOutcome
+  attempts: LLMAttempt[]
+  entities: number
+  relationships: number
+  droppedItems: number
+  error?: string
+}
+
+const MAX_RECORDED_CALLS = 50
+
+// Kept on globalThis so the log survives dev-server module reloads, like the in-memory graph store
+const globalForDiagnostics = globalThis as unknown as { llmCallLog?: LLMCallDiagnostics[] }
+
+export function recordLLMCall(diagnostics: LLMCallDiagnostics): void {
+  const log = (globalForDiagnostics.llmCallLog ??= [])
+  log.push(diagnostics)
+  if (log.length > MAX_RECORDED_CALLS) log.splice(0, log.length - MAX_RECORDED_CALLS)
+
+  const level = diagnostics.outcome === "valid" || diagnostics.outcome === "repaired" ? "log" : "warn"
+  console[level](
+    `LLM call ${diagnostics.provider}/${diagnostics.model}: ${diagnostics.outcome} after ${diagnostics.attempts.length} attempt(s)`,
+  )
+}
+
+// Most recent first
+export function listLLMCalls(): LLMCallDiagnostics[] {
+  return [...(globalForDiagnostics.llmCallLog ?? [])].reverse()
+}
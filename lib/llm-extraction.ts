@@ -0,0 +1,494 @@
+import { z } from "zod"
+import { DEFAULT_ONTOLOGY, entityTypeNames, isLiteralType, type Ontology } from "./ontology"
+import { normalizeTypeLabel } from "./type-labels"
+import { recordLLMCall, type LLMCallDiagnostics } from "./llm-diagnostics"
+import { isAnaphor } from "./coreference"
+import { normalizeQualifiers } from "./temporal"
+import { literalProperties, mergeAttributes, type Literal } from "./literals"
+
+// Prompt, response parsing and filtering shared by the LLM-backed extractors
+
+interface Entity {
+  label: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+  aliases?: string[]
+}
+
+interface Relationship {
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+  context: string
+}
+
+export interface ExtractionResult {
+  entities: Entity[]
+  relationships: Relationship[]
+}
+
+export const EXTRACTION_SYSTEM_PROMPT =
+  "You extract knowledge graphs from text. You always answer with a single JSON object and nothing else."
+
+export function buildExtractionPrompt(text: string, ontology: Ontology = DEFAULT_ONTOLOGY): string {
+  return `
+    Analyze the following text and extract ALL entities and relationships. Focus ONLY on the actual content, ignore any technical or implementation details.
+
+    Text: "${text}"
+
+    IMPORTANT RULES:
+    - Extract ONLY from the actual text content provided
+    - For "Apple is founded by Steve Jobs", extract: Apple (COMPANY), Steve Jobs (PERSON), relationship: Apple FOUNDED_BY Steve Jobs
+    - For "Elon Musk owns Tesla", extract: Elon Musk (PERSON), Tesla (COMPANY), relationship: Elon Musk OWNS Tesla  
+    - For "Elon Musk owns Tesla. He is Very Rich", extract: Elon Musk (PERSON) with the attribute {"type": "ATTRIBUTE", "value": "Very Rich"}, Tesla (COMPANY), relationship: Elon Musk OWNS Tesla
+    - Values of the literal entity types (amounts, percentages, dates, qualities) are not entities: add them to the attributes of the entity or relationship they describe, named after what they measure, e.g. {"name": "market_cap", "type": "MONEY", "value": "$3 trillion"}
+    - Resolve pronouns (he, she, it, they) and descriptions ("the company", "the founder") to the entity they refer to; never output them as entities
+    - Extract each entity once, under its fullest name, and list the other names the text uses for it as aliases: acronyms ("International Business Machines (IBM)"), short forms ("Apple" for "Apple Inc.", "Jobs" for "Steve Jobs"), nicknames ("a.k.a. Woz") and descriptions like "Google's parent"
+    - Focus on people, companies, products, attributes, and their relationships
+    - Ignore any PDF/DOCX processing terms, file formats, or technical implementation details
+    - Use high confidence (0.85+) for clear entities and relationships
+
+    - Use the most specific entity type that fits; a subtype also counts as its parent type
+    - Only use a relationship type when its source and target have the listed types
+    - If no relationship type fits, use the verb itself as the type, e.g. INVESTED_IN
+    - Set polarity to "negated" when the text denies a relationship ("Elon Musk does not own Twitter anymore"), otherwise "asserted"
+    - Set modality to "possible" for hedged or planned relationships ("Apple might acquire X"), "reported" for second-hand claims ("reportedly", "according to"), otherwise "certain"
+    - When the text says when a relationship held, set valid_from and valid_to ("from 1997 to 2011"), or as_of for a single point in time ("in 2020"), as ISO dates (YYYY-MM-DD); leave them out otherwise
+
+    Entity types:
+    ${describeEntityTypes(ontology).join("\n    ")}
+
+    Relationship types:
+    ${describeRelationshipTypes(ontology).join("\n    ")}
+
+    Return ONLY valid JSON in this exact format:
+    {
+      "entities": [
+        {
+          "label": "entity name exactly as in text",
+          "type": "ENTITY_TYPE",
+          "confidence": 0.95,
+          "properties": {
+            "description": "brief description",
+            "context": "context from text"
+          },
+          "aliases": [],
+          "attributes": [{ "name": "attribute name", "type": "LITERAL_TYPE", "value": "value as in text" }]
+        }
+      ],
+      "relationships": [
+        {
+          "source": "source entity name",
+          "target": "target entity name", 
+          "type": "RELATIONSHIP_TYPE",
+          "confidence": 0.9,
+          "polarity": "asserted",
+          "modality": "certain",
+          "valid_from": "1997-01-01",
+          "valid_to": "2011-12-31",
+          "context": "sentence showing relationship",
+          "properties": {
+            "description": "relationship description"
+          },
+          "attributes": []
+        }
+      ]
+    }
+    `
+}
+
+export interface LLMMessage {
+  role: "user" | "assistant"
+  content: string
+}
+
+export interface ValidatedExtraction extends ExtractionResult {
+  diagnostics: LLMCallDiagnostics
+}
+
+// Re-prompts after the first answer, each carrying the previous validation errors
+const MAX_REPROMPTS = Math.max(0, Number(process.env.LLM_MAX_REPROMPTS ?? 1) || 0)
+// Only the first few errors go back to the model; the rest are usually the same mistake repeated
+const MAX_REPORTED_ERRORS = 10
+
+// Models write years as numbers and unknown dates as null; anything that is not a date is dropped, not an error
+const temporalQualifier = z.union([z.string(), z.number()]).nullish()
+
+// A literal value the model attached to an entity or relationship; stored as a typed property of it
+const attributeSchema = z.object({
+  name: z.string().trim().optional(),
+  type: z.string().transform(normalizeTypeLabel).default("ATTRIBUTE"),
+  value: z.union([z.string().trim().min(1), z.number()]),
+})
+
+function withAttributes<T extends { properties: Record<string, any> }>(
+  item: T,
+  attributes: Literal[],
+  ontology: Ontology,
+): T {
+  if (attributes.length === 0) return item
+  const properties = mergeAttributes(item.properties, literalProperties(attributes, ontology))
+  return { ...item, properties: { ...item.properties, ...properties } }
+}
+
+function itemSchemas(ontology: Ontology) {
+  return {
+    entity: z
+      .object({
+        label: z.string().trim().min(1),
+        type: ontologyType(entityTypeNames(ontology), "entity"),
+        confidence: z.number().min(0).max(1).default(0.8),
+        properties: z.record(z.any()).default({}),
+        aliases: z.array(z.string()).default([]),
+        attributes: z.array(attributeSchema).default([]),
+      })
+      .transform(({ attributes, ...entity }) => withAttributes(entity, attributes, ontology)),
+    relationship: z
+      .object({
+        source: z.string().trim().min(1),
+        target: z.string().trim().min(1),
+        // Free-form verbs are allowed; the normalization stage maps them to a declared type or RELATED_TO
+        type: z
+          .string()
+          .transform(normalizeTypeLabel)
+          .refine((type) => type.length > 0, "relationship type must contain letters"),
+        confidence: z.number().min(0).max(1).default(0.8),
+        polarity: z.enum(["asserted", "negated"]).optional(),
+        modality: z.enum(["certain", "possible", "reported"]).optional(),
+        valid_from: temporalQualifier,
+        valid_to: temporalQualifier,
+        as_of: temporalQualifier,
+        context: z.string().default(""),
+        properties: z.record(z.any()).default({}),
+        attributes: z.array(attributeSchema).default([]),
+      })
+      // Stored alongside the other relationship properties; missing values are detected from the context later
+      .transform(({ polarity, modality, valid_from, valid_to, as_of, attributes, ...relationship }) => {
+        const described = withAttributes(relationship, attributes, ontology)
+        return {
+          ...described,
+          properties: {
+            ...described.properties,
+            ...(polarity ? { polarity } : {}),
+            ...(modality ? { modality } : {}),
+            ...normalizeQualifiers({ valid_from, valid_to, as_of }),
+          },
+        }
+      }),
+  }
+}
+
+const responseSchema = z.object({
+  entities: z.array(z.unknown()),
+  relationships: z.array(z.unknown()).default([]),
+})
+
+// Asks the model, then parses, repairs and validates its answer. Invalid answers are sent back with the
+// validation errors up to LLM_MAX_REPROMPTS times. The items that validated in the last parseable answer are kept
+// (outcome "partial"); when no answer parsed at all the result is empty (outcome "invalid").
+// Provider errors are recorded and rethrown so the extractor pipeline can fall back.
+export async function extractWithValidation(
+  text: string,
+  { provider, model, ontology = DEFAULT_ONTOLOGY }: { provider: string; model: string; ontology?: Ontology },
+  generate: (messages: LLMMessage[]) => Promise<string | null | undefined>,
+): Promise<ValidatedExtraction> {
+  const diagnostics: LLMCallDiagnostics = {
+    provider,
+    model,
+    startedAt: new Date().toISOString(),
+    outcome: "invalid",
+    attempts: [],
+    entities: 0,
+    relationships: 0,
+    droppedItems: 0,
+  }
+  const messages: LLMMessage[] = [{ role: "user", content: buildExtractionPrompt(text, ontology) }]
+  let result: ExtractionResult = { entities: [], relationships: [] }
+  let parsed = false
+
+  try {
+    for (let attempt = 1; attempt <= MAX_REPROMPTS + 1; attempt++) {
+      const started = Date.now()
+      const content = await generate(messages)
+      const checked = checkExtractionResponse(content ?? "", ontology)
+
+      diagnostics.attempts.push({
+        attempt,
+        durationMs: Date.now() - started,
+        responseChars: content?.length ?? 0,
+        repaired: checked.repaired,
+        errors: checked.errors,
+      })
+
+      if (checked.result) {
+        result = checked.result
+        parsed = true
+        diagnostics.droppedItems = checked.droppedItems
+      }
+
+      if (checked.errors.length === 0) {
+        diagnostics.outcome = attempt === 1 && !checked.repaired ? "valid" : "repaired"
+        break
+      }
+
+      console.warn(`${provider} response failed validation (attempt ${attempt}):`, checked.errors)
+      // An unparseable re-prompt answer keeps the earlier partial result, and the outcome says so
+      diagnostics.outcome = parsed ? "partial" : "invalid"
+      messages.push(
+        { role: "assistant", content: content ?? "" },
+        { role: "user", content: buildRepairPrompt(checked.errors) },
+      )
+    }
+  } catch (error) {
+    diagnostics.outcome = "error"
+    diagnostics.error = error instanceof Error ? error.message : String(error)
+    recordLLMCall(diagnostics)
+    throw error
+  }
+
+  diagnostics.entities = result.entities.length
+  diagnostics.relationships = result.relationships.length
+  recordLLMCall(diagnostics)
+
+  return { ...result, diagnostics }
+}
+
+// Parses one answer: returns the items that validate and a readable error per problem.
+// result is null only when no JSON object could be recovered at all.
+export function checkExtractionResponse(
+  content: string,
+  ontology: Ontology = DEFAULT_ONTOLOGY,
+): {
+  result: ExtractionResult | null
+  errors: string[]
+  repaired: boolean
+  droppedItems: number
+} {
+  if (!content.trim()) {
+    return { result: null, errors: ["The response was empty"], repaired: false, droppedItems: 0 }
+  }
+
+  const parsed = parseJsonLenient(content)
+  if (parsed.value === undefined) {
+    const errors = [`The response is not valid JSON: ${parsed.error}`]
+    return { result: null, errors, repaired: false, droppedItems: 0 }
+  }
+
+  const shape = responseSchema.safeParse(parsed.value)
+  if (!shape.success) {
+    return { result: null, errors: formatIssues(shape.error, ""), repaired: parsed.repaired, droppedItems: 0 }
+  }
+
+  const schemas = itemSchemas(ontology)
+  const errors: string[] = []
+  const entities: Entity[] = []
+  const relationships: Relationship[] = []
+
+  shape.data.entities.forEach((item, index) => {
+    const entity = schemas.entity.safeParse(item)
+    if (entity.success) entities.push(entity.data)
+    else errors.push(...formatIssues(entity.error, `entities[${index}]`))
+  })
+  shape.data.relationships.forEach((item, index) => {
+    const relationship = schemas.relationship.safeParse(item)
+    if (relationship.success) relationships.push(relationship.data)
+    else errors.push(...formatIssues(relationship.error, `relationships[${index}]`))
+  })
+
+  const received = shape.data.entities.length + shape.data.relationships.length
+  const droppedItems = received - entities.length - relationships.length
+  return { result: { entities, relationships }, errors, repaired: parsed.repaired, droppedItems }
+}
+
+// JSON.parse after stripping markdown fences and surrounding prose; failing that, after removing trailing commas
+// and cutting a truncated answer back to its last complete value and closing the open brackets
+export function parseJsonLenient(content: string): { value?: unknown; repaired: boolean; error?: string } {
+  const cleaned = content
+    .replace(/```(?:json)?/gi, "")
+    .trim()
+    .replace(/^[^{]*/, "")
+
+  try {
+    return { value: JSON.parse(cleaned), repaired: false }
+  } catch (error) {
+    const repaired = closeTruncatedJson(cleaned.replace(/,(\s*[}\]])/g, "$1"))
+    try {
+      return { value: JSON.parse(repaired), repaired: true }
+    } catch {
+      return { repaired: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+}
+
+function closeTruncatedJson(json: string): string {
+  const stack: string[] = []
+  let inString = false
+  let escaped = false
+  let lastComplete = { index: -1, stack: [] as string[] }
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i]
+
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === "\\") escaped = true
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"') inString = true
+    else if (char === "{" || char === "[") stack.push(char === "{" ? "}" : "]")
+    else if (char === "}" || char === "]") {
+      stack.pop()
+      lastComplete = { index: i, stack: [...stack] }
+      if (stack.length === 0) return json.slice(0, i + 1)
+    }
+  }
+
+  if (lastComplete.index < 0) return json
+  return json.slice(0, lastComplete.index + 1) + lastComplete.stack.reverse().join("")
+}
+
+function buildRepairPrompt(errors: string[]): string {
+  const listed = errors.slice(0, MAX_REPORTED_ERRORS).map((error) => `- ${error}`)
+  if (errors.length > MAX_REPORTED_ERRORS) listed.push(`- ...and ${errors.length - MAX_REPORTED_ERRORS} more`)
+
+  return `Your previous answer could not be used:
+${listed.join("\n")}
+
+Return the complete corrected JSON object in the same format, with every entity and relationship. Use only the listed entity types and confidences between 0 and 1. Return JSON only.`
+}
+
+function formatIssues(error: z.ZodError, prefix: string): string[] {
+  return error.issues.map((issue) => {
+    const path = [prefix, ...issue.path.map(String)].filter(Boolean).join(".")
+    return `${path || "response"}: ${issue.message}`
+  })
+}
+
+// One line per type, e.g. "COMPANY (a kind of ORGANIZATION): A business", "MONEY [literal]: An amount of money"
+function describeEntityTypes(ontology: Ontology): string[] {
+  return ontology.entityTypes.map(
+    (type) =>
+      type.name +
+      (type.parent ? ` (a kind of ${type.parent})` : "") +
+      (isLiteralType(ontology, type.name) ? " [literal]" : "") +
+      (type.description ? `: ${type.description}` : ""),
+  )
+}
+
+// e.g. "WORKS_AT: PERSON -> ORGANIZATION", "MARRIED_TO: PERSON <-> PERSON"
+function describeRelationshipTypes(ontology: Ontology): string[] {
+  return ontology.relationshipTypes.map((type) => {
+    if (!type.domain && !type.range && !type.description) return type.name
+    const arrow = type.symmetric ? "<->" : "->"
+    const signature =
+      type.domain || type.range ? `${type.domain?.join("|") ?? "ANY"} ${arrow} ${type.range?.join("|") ?? "ANY"}` : ""
+    return `${type.name}: ${[signature, type.description].filter(Boolean).join(", ")}`
+  })
+}
+
+// Accepts case and spacing variants ("Company", "works at") but only types declared in the ontology
+function ontologyType(allowed: string[], kind: string) {
+  return z
+    .string()
+    .transform(normalizeTypeLabel)
+    .refine((type) => allowed.includes(type), (type) => ({ message: `"${type}" is not a known ${kind} type` }))
+}
+
+export function filterExtraction(result: ExtractionResult): ExtractionResult {
+  return {
+    entities: filterEntities(result.entities),
+    relationships: filterRelationships(result.relationships, result.entities),
+  }
+}
+
+function filterEntities(entities: Entity[]): Entity[] {
+  const seen = new Set<string>()
+  const filtered: Entity[] = []
+
+  for (const entity of entities) {
+    if (!entity || !entity.label) continue
+
+    const normalizedLabel = entity.label.toLowerCase().trim()
+
+    // Skip technical/implementation terms
+    if (isTechnicalTerm(entity.label)) {
+      continue
+    }
+
+    if (normalizedLabel.length > 0 && !seen.has(normalizedLabel) && !isVeryGenericEntity(entity)) {
+      seen.add(normalizedLabel)
+      filtered.push(entity)
+    }
+  }
+
+  return filtered.sort((a, b) => b.confidence - a.confidence)
+}
+
+function filterRelationships(relationships: Relationship[], entities: Entity[]): Relationship[] {
+  const entityLabels = new Set(entities.filter((e) => e && e.label).map((e) => e.label.toLowerCase()))
+
+  return relationships.filter((rel) => {
+    if (!rel || !rel.source || !rel.target) return false
+
+    // Skip technical relationships
+    if (isTechnicalTerm(rel.source) || isTechnicalTerm(rel.target)) {
+      return false
+    }
+
+    // Pronouns are left for the coreference stage to resolve
+    const sourceExists = entityLabels.has(rel.source.toLowerCase()) || isAnaphor(rel.source)
+    const targetExists = entityLabels.has(rel.target.toLowerCase()) || isAnaphor(rel.target)
+    const notSelfRelation = rel.source.toLowerCase() !== rel.target.toLowerCase()
+
+    return sourceExists && targetExists && notSelfRelation && rel.confidence >= 0.7
+  })
+}
+
+const TECHNICAL_TERMS = [
+  "pdf",
+  "docx",
+  "file",
+  "text",
+  "document",
+  "conversion",
+  "selectable",
+  "parsing",
+  "extraction",
+  "processing",
+  "format",
+  "content",
+  "stream",
+  "object",
+  "implementation",
+  "library",
+  "javascript",
+  "mammoth",
+  "buffer",
+  "array",
+  "string",
+  "method",
+  "function",
+  "class",
+]
+
+function isTechnicalTerm(term: string): boolean {
+  return TECHNICAL_TERMS.some((tech) => term.toLowerCase().includes(tech))
+}
+
+function isVeryGenericEntity(entity: Entity): boolean {
+  if (!entity || !entity.label) return true
+
+  const veryGenericPatterns = [
+    /^(a|an|the|this|that|these|those)$/i,
+    /^(very|quite|rather|some|any|all)$/i,
+    /^\d+$/,
+    /^[a-z]$/i,
+  ]
+
+  return veryGenericPatterns.some((pattern) => pattern.test(entity.label))
+}
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { liftLiterals } from "./literals"
+import { LocalNLPProcessor } from "./local-nlp-processor"
+import { normalizeRelationships } from "./relationship-normalization"
+
+const processor = new LocalNLPProcessor()
+
+async function relationshipsIn(text: string): Promise<string[]> {
+  const { relationships } = await processor.extractEntitiesAndRelationships(text)
+  return relationships.map((rel) => `${rel.source} ${rel.type} ${rel.target}`).sort()
+}
+
+test("the period of an abbreviated company name does not hide the verb", async () => {
+  assert.deepEqual(await relationshipsIn("Apple Inc. was founded by Steve Jobs."), ["Steve Jobs FOUNDED Apple Inc"])
+})
+
+test("a parenthesized alias between subject and verb is skipped", async () => {
+  const relationships = await relationshipsIn("International Business Machines (IBM) is based in Armonk.")
+  assert.equal(relationships.length, 1)
+  assert.match(relationships[0], /^International Business Machines.* LOCATED_IN Armonk$/)
+})
+
+test("coordinated subjects all take the verb", async () => {
+  assert.deepEqual(await relationshipsIn("Larry Page and Sergey Brin founded Google."), [
+    "Larry Page FOUNDED Google",
+    "Sergey Brin FOUNDED Google",
+  ])
+})
+
+test("coordinated objects all take the verb", async () => {
+  assert.deepEqual(await relationshipsIn("Google was founded by Larry Page and Sergey Brin."), [
+    "Larry Page FOUNDED Google",
+    "Sergey Brin FOUNDED Google",
+  ])
+})
+
+test("a conjunction before a new clause does not coordinate across it", async () => {
+  assert.deepEqual(await relationshipsIn("Larry Page founded Google and Sergey Brin founded Alphabet."), [
+    "Larry Page FOUNDED Google",
+    "Sergey Brin FOUNDED Alphabet",
+  ])
+})
+
+test("names the tagger does not know are typed from their context", async () => {
+  const { entities } = await processor.extractEntitiesAndRelationships(
+    "Apple was founded by Steve Jobs. Tesla acquired SolarCity. Google is owned by Alphabet. IBM is based in Armonk.",
+  )
+  const typeOf = (label: string) => entities.find((entity) => entity.label === label)?.type
+
+  assert.equal(typeOf("Apple"), "ORGANIZATION")
+  assert.equal(typeOf("SolarCity"), "ORGANIZATION")
+  assert.equal(typeOf("Alphabet"), "ORGANIZATION")
+  assert.equal(typeOf("Armonk"), "LOCATION")
+})
+
+test("amounts, percentages and dates are lifted into typed properties of what they describe", async () => {
+  const extraction = await processor.extractEntitiesAndRelationships(
+    "Apple is valued at $3 trillion. Tesla grew by 42%. Steve Jobs was born in 1955.",
+  )
+  const { relationships } = normalizeRelationships(extraction)
+  const { entities } = liftLiterals({ entities: extraction.entities, relationships })
+  const propertiesOf = (label: string) => entities.find((entity) => entity.label === label)?.properties ?? {}
+
+  assert.equal(propertiesOf("Apple").valued_at, 3e12)
+  assert.equal(propertiesOf("Apple").valued_at_currency, "USD")
+  assert.equal(propertiesOf("Tesla").grew_by, 42)
+  assert.equal(propertiesOf("Tesla").grew_by_unit, "%")
+  assert.equal(propertiesOf("Steve Jobs").born_on, "1955-01-01")
+  assert.deepEqual(entities.filter((entity) => ["MONEY", "PERCENTAGE", "DATE"].includes(entity.type)), [])
+})
@@ -1,3 +1,16 @@
+import nlp from "compromise"
+import { isAnaphor } from "./coreference"
+import { splitSentences } from "./chunked-extraction"
+import {
+  conformEntityType,
+  conformRelationshipType,
+  DEFAULT_ONTOLOGY,
+  isLiteralType,
+  type Ontology,
+} from "./ontology"
+import { detectFactuality } from "./factuality"
+import { DATE_EXPRESSION } from "./temporal"
+
 interface Entity {
   label: string
   type: string
@@ -20,110 +33,225 @@ interface ExtractionResult {
   relationships: Relationship[]
 }
 
+interface RelationshipPattern {
+  // Regex source for the verb phrase between the two mentions
+  verb: string
+  type: string
+  confidence: number
+  // The sentence's subject is the relationship's target
+  inverse?: boolean
+  // Only applies when the later mention is an entity of this type
+  targetType?: string
+}
+
+// A relationship pattern matched by the text between two mentions
+interface Reading {
+  pattern: RelationshipPattern
+  connective: string
+  clause: boolean
+}
+
+interface Mention {
+  label: string
+  start: number
+  end: number
+}
+
+// The parts of compromise's json({ offset: true, terms: { offset: true } }) output used here
+interface TaggedTerm {
+  text: string
+  normal: string
+  post: string
+  tags: string[]
+  chunk?: string
+  offset: { start: number; length: number }
+}
+
+interface TaggedPhrase {
+  terms: TaggedTerm[]
+}
+
+type View = ReturnType<typeof nlp>
+
+const WITH_OFFSETS = { offset: true, terms: { offset: true } }
+
+// Noun-chunk terms that end the phrase ("CEO of Apple" is two phrases)
+const CHUNK_BREAK_TAGS = ["Pronoun", "Preposition"]
+
+// Leading words of a noun chunk that are not part of the entity name
+const CHUNK_MODIFIER_TAGS = ["Determiner", "Possessive", "Pronoun", "Value", "Honorific", "Adjective"]
+
+// Context that types a proper noun the tagger does not know: a place after "in" ("based in Armonk", but not
+// "invested in SolarCity"), an organization around a verb only organizations take ("Apple was founded by",
+// "acquired SolarCity", "owned by Alphabet")
+const PLACE_BEFORE = /(?<!\b(?:invest\w*|stakes?|shares?|interest\w*)\s+)\b(?:in|near)\s+$/i
+const ORGANIZATION_BEFORE = new RegExp(
+  "\\b(?:(?:co-)?founded|acquired|acquires|bought|buys|joined|(?:owned|acquired|employed)\\s+by|" +
+    "(?:works?|worked)\\s+(?:at|for)|CEO\\s+of)\\s+$",
+  "i",
+)
+const ORGANIZATION_AFTER = /^\s+(?:(?:is|was|has\s+been)\s+)?(?:founded|acquired|headquartered|incorporated)\b/i
+
+// The text between two coordinated mentions: "A and B", "A, B", "A, and B"
+const COORDINATION = /^\s*(?:,|,?\s*(?:and|&))\s*$/i
+
+// Values read as literal entities, so a relationship can attach them to what they describe ("Apple is valued at
+// $3 trillion"); the pipeline lifts them into typed properties. Amounts need a currency, dates a month or year.
+const LITERAL_MENTIONS: [RegExp, string][] = [
+  [
+    new RegExp(
+      "(?:US\\$|[$€£¥₹])\\s?\\d[\\d,]*(?:\\.\\d+)?" +
+        "(?:\\s?(?:thousand|million|billion|trillion|k|mn|m|bn|b|tn|t)\\b)?|" +
+        "\\b\\d[\\d,]*(?:\\.\\d+)?(?:\\s(?:thousand|million|billion|trillion))?" +
+        "\\s(?:dollars|euros|pounds|yen|rupees|USD|EUR|GBP)\\b",
+      "gi",
+    ),
+    "MONEY",
+  ],
+  [/\b\d[\d,]*(?:\.\d+)?(?:\s?%|\s(?:percent|per\s+cent)\b)/gi, "PERCENTAGE"],
+  [new RegExp(`\\b${DATE_EXPRESSION}\\b`, "gi"), "DATE"],
+]
+
+// Longest quality after a copula ("is extremely very rich" is not one)
+const MAX_QUALITY_WORDS = 3
+
 export class LocalNLPProcessor {
-  private readonly ENTITY_PATTERNS = {
-    PERSON: [
-      /\b([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\b/g, // Capitalized names
-      /\b(Mr|Mrs|Dr|Prof|Sir|Madam|Miss)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/gi,
-    ],
-    ORGANIZATION: [
-      /\b([A-Z][a-z]+(?:\s+(?:Inc|Corp|LLC|Ltd|Company|University|School|College))\b)/gi,
-      /\b(Google|Microsoft|Apple|Tesla|SpaceX|OpenAI|Facebook|Amazon|Netflix|Uber)\b/gi,
+  // Extra tags for the POS tagger: names it does not know out of the box
+  private readonly LEXICON: Record<string, string> = {
+    tesla: "Organization",
+    spacex: "Organization",
+    openai: "Organization",
+    netflix: "Organization",
+    uber: "Organization",
+    github: "Organization",
+    delhi: "City",
+    mumbai: "City",
+  }
+
+  // Common nouns only become entities when their (singular) head noun has a known type
+  private readonly COMMON_NOUN_TYPES: Record<string, string[]> = {
+    FOOD: [
+      "apple",
+      "mango",
+      "banana",
+      "orange",
+      "pizza",
+      "burger",
+      "sandwich",
+      "rice",
+      "bread",
+      "cake",
+      "cookie",
+      "chocolate",
+      "ice cream",
+      "coffee",
+      "tea",
+      "milk",
+      "water",
+      "juice",
     ],
-    LOCATION: [
-      /\b([A-Z][a-z]+(?:\s+(?:City|State|Country|Street|Avenue|Road|Place|Park))\b)/gi,
-      /\b(New York|Los Angeles|London|Paris|Tokyo|Delhi|Mumbai|California|Texas|India|USA|America)\b/gi,
+    TECHNOLOGY: [
+      "computer",
+      "laptop",
+      "phone",
+      "smartphone",
+      "tablet",
+      "software",
+      "app",
+      "website",
+      "internet",
+      "robot",
+      "drone",
     ],
-    FOOD: [
-      /\b(apple|mango|banana|orange|pizza|burger|sandwich|rice|bread|cake|cookie|chocolate|ice cream|coffee|tea|milk|water|juice)\b/gi,
+    OBJECT: [
+      "bike",
+      "house",
+      "book",
+      "pen",
+      "paper",
+      "chair",
+      "table",
+      "door",
+      "window",
+      "bag",
+      "box",
+      "bottle",
+      "cup",
+      "glass",
     ],
-    TECHNOLOGY: [/\b(computer|laptop|phone|smartphone|tablet|software|app|website|internet|AI|robot|drone)\b/gi],
-    OBJECT: [/\b(car|bike|house|book|pen|paper|chair|table|door|window|bag|box|bottle|cup|glass)\b/gi],
+    VEHICLE: ["car", "truck", "bus", "train", "plane", "motorcycle"],
+    ANIMAL: ["dog", "cat", "horse", "bird", "fish", "cow", "lion", "tiger"],
   }
 
-  private readonly RELATIONSHIP_PATTERNS = [
-    {
-      pattern: /(\w+)\s+(?:eats?|eating|ate)\s+(\w+)/gi,
-      type: "EATS",
-      confidence: 0.9,
-    },
+  // Company suffixes that make an organization a COMPANY
+  private readonly COMPANY_SUFFIX = /\b(?:Inc|Corp|Corporation|LLC|Ltd|Company|Co|GmbH|PLC)\.?$/
+
+  // Verb phrases that may sit between two entity mentions. Inverse patterns are passive or converse forms whose
+  // grammatical subject is the relationship's target ("Apple was founded by Steve Jobs").
+  private readonly RELATIONSHIP_PATTERNS: RelationshipPattern[] = [
+    // Values first, so "born in 1955" is a date of birth rather than a place
+    { verb: "(?:valued|priced)\\s+at|worth", type: "VALUED_AT", confidence: 0.8, targetType: "MONEY" },
+    { verb: "(?:revenues?|sales)\\s+of", type: "HAS_REVENUE", confidence: 0.75, targetType: "MONEY" },
+    { verb: "(?:grew|rose|increased)(?:\\s+by)?", type: "GREW_BY", confidence: 0.75, targetType: "PERCENTAGE" },
+    { verb: "(?:fell|dropped|declined)(?:\\s+by)?", type: "FELL_BY", confidence: 0.75, targetType: "PERCENTAGE" },
     {
-      pattern: /(\w+)\s+(?:loves?|loving|loved)\s+(\w+)/gi,
-      type: "LOVES",
-      confidence: 0.9,
-    },
-    {
-      pattern: /(\w+)\s+(?:likes?|liking|liked)\s+(\w+)/gi,
-      type: "LIKES",
-      confidence: 0.9,
-    },
-    {
-      pattern: /(\w+)\s+(?:works?\s+at|employed\s+by)\s+(\w+)/gi,
-      type: "WORKS_AT",
-      confidence: 0.8,
-    },
-    {
-      pattern: /(\w+)\s+(?:lives?\s+in|resides?\s+in)\s+(\w+)/gi,
-      type: "LIVES_IN",
+      verb: "(?:co-)?(?:founded|established|started|incorporated)\\s+(?:in|on)",
+      type: "FOUNDED_ON",
       confidence: 0.8,
+      targetType: "DATE",
     },
-    {
-      pattern: /(\w+)\s+(?:knows?|knowing|knew)\s+(\w+)/gi,
-      type: "KNOWS",
-      confidence: 0.8,
-    },
-    {
-      pattern: /(\w+)\s+(?:owns?|owning|owned)\s+(\w+)/gi,
-      type: "OWNS",
-      confidence: 0.8,
-    },
-    {
-      pattern: /(\w+)\s+(?:uses?|using|used)\s+(\w+)/gi,
-      type: "USES",
-      confidence: 0.8,
-    },
-    {
-      pattern: /(\w+)\s+(?:has|have|having|had)\s+(\w+)/gi,
-      type: "HAS",
-      confidence: 0.7,
-    },
-    {
-      pattern: /(\w+)\s+(?:reads?|reading|read)\s+(\w+)/gi,
-      type: "READS",
-      confidence: 0.8,
-    },
-    {
-      pattern: /(\w+)\s+(?:drives?|driving|drove)\s+(\w+)/gi,
-      type: "DRIVES",
-      confidence: 0.8,
-    },
-    {
-      pattern: /(\w+)\s+(?:plays?|playing|played)\s+(\w+)/gi,
-      type: "PLAYS",
-      confidence: 0.8,
-    },
-    {
-      pattern: /(\w+)\s+(?:teaches?|teaching|taught)\s+(\w+)/gi,
-      type: "TEACHES",
-      confidence: 0.8,
-    },
-    {
-      pattern: /(\w+)\s+(?:studies?|studying|studied)\s+(\w+)/gi,
-      type: "STUDIES",
-      confidence: 0.8,
-    },
-    {
-      pattern: /(\w+)\s+(?:is|are|was|were)\s+(?:a|an|the)?\s*(\w+)/gi,
-      type: "IS_A",
-      confidence: 0.7,
-    },
+    { verb: "born\\s+(?:in|on)", type: "BORN_ON", confidence: 0.85, targetType: "DATE" },
+    { verb: "(?:eats?|eating|ate)", type: "EATS", confidence: 0.9 },
+    { verb: "(?:loves?|loving|loved)", type: "LOVES", confidence: 0.9 },
+    { verb: "(?:likes?|liking|liked)", type: "LIKES", confidence: 0.9 },
+    { verb: "(?:works?|worked|working)\\s+(?:at|for)|employed\\s+by", type: "WORKS_AT", confidence: 0.8 },
+    { verb: "(?:employs|employed|hired)", type: "WORKS_AT", confidence: 0.75, inverse: true },
+    { verb: "(?:lives?|lived|living|resides?|resided)\\s+in", type: "LIVES_IN", confidence: 0.8 },
+    { verb: "(?:born)\\s+in", type: "BORN_IN", confidence: 0.85 },
+    { verb: "(?:knows?|knew|met)", type: "KNOWS", confidence: 0.8 },
+    { verb: "(?:owns?|owned|owning|buys?|bought|acquires?|acquired)", type: "OWNS", confidence: 0.8 },
+    { verb: "(?:owned|bought|acquired)\\s+by", type: "OWNS", confidence: 0.8, inverse: true },
+    { verb: "(?:co-)?(?:founded|created|established|started)", type: "FOUNDED", confidence: 0.85 },
+    { verb: "(?:co-)?(?:founded|created|established|started)\\s+by", type: "FOUNDED", confidence: 0.85, inverse: true },
+    { verb: "(?:(?:located|based|headquartered)\\s+in)", type: "LOCATED_IN", confidence: 0.8 },
+    { verb: "(?:the\\s+)?(?:CEO|chief\\s+executive)\\s+of", type: "CEO_OF", confidence: 0.85 },
+    { verb: "(?:runs|ran|leads|led)", type: "LEADS", confidence: 0.75 },
+    { verb: "(?:married\\s+to|married)", type: "MARRIED_TO", confidence: 0.85 },
+    { verb: "(?:studied\\s+at|attended|graduated\\s+from)", type: "STUDIED_AT", confidence: 0.8 },
+    { verb: "(?:uses?|using|used)", type: "USES", confidence: 0.8 },
+    { verb: "(?:has|have|having|had)", type: "HAS", confidence: 0.7 },
+    { verb: "(?:reads?|reading|read)", type: "READS", confidence: 0.8 },
+    { verb: "(?:drives?|driving|drove)", type: "DRIVES", confidence: 0.8 },
+    { verb: "(?:plays?|playing|played)", type: "PLAYS", confidence: 0.8 },
+    { verb: "(?:teaches?|teaching|taught)", type: "TEACHES", confidence: 0.8 },
+    { verb: "(?:studies|studying|studied)", type: "STUDIES", confidence: 0.8 },
+    { verb: "(?:is|are|was|were)\\s+(?:a|an)", type: "IS_A", confidence: 0.7 },
+    { verb: "(?:is|are|was|were)(?:n't|\\s+not)?", type: "HAS_ATTRIBUTE", confidence: 0.75, targetType: "ATTRIBUTE" },
   ]
 
-  async extractEntitiesAndRelationships(text: string): Promise<ExtractionResult> {
+  // Compiled once: auxiliaries, modals and negation, passive "be", one adverb, the verb phrase, then an optional
+  // determiner. Negation and hedging are kept as the relationship's polarity and modality.
+  private readonly RELATIONSHIP_MATCHERS = this.RELATIONSHIP_PATTERNS.map((pattern) => ({
+    ...pattern,
+    matcher: new RegExp(
+      "^\\s*(?:(?:has|have|had|will|would|do|does|did|also|later|then|may|might|could|can|cannot|won't|not|never|" +
+        "no\\s+longer|(?:plans?|planning|intends?|expected|said|rumou?red)\\s+to)(?:n't)?\\s+)*" +
+        "(?:(?:is|are|was|were|been|being)(?:n't)?\\s+)?" +
+        "(?:\\w+ly\\s+)?" +
+        `(?:${pattern.verb})` +
+        "(?:\\s+(?:a|an|the|his|her|its|their))?\\s*$",
+      "i",
+    ),
+  }))
+
+  async extractEntitiesAndRelationships(
+    text: string,
+    ontology: Ontology = DEFAULT_ONTOLOGY,
+  ): Promise<ExtractionResult> {
     console.log(`Processing text with local NLP: "${text}"`)
 
-    const entities = this.extractEntities(text)
-    const relationships = this.extractRelationships(text, entities)
+    const entities = this.conformEntities(this.extractEntities(text), ontology)
+    const relationships = this.conformRelationships(this.extractRelationships(text, entities), entities, ontology)
 
     console.log(`Local NLP extracted ${entities.length} entities and ${relationships.length} relationships`)
 
@@ -133,72 +261,86 @@ export class LocalNLPProcessor {
     }
   }
 
+  // POS-tagged noun-phrase chunks become entities: named people, places and organizations from the tagger
+  // first, then any other capitalized noun phrase, then common nouns with a known type
   private extractEntities(text: string): Entity[] {
+    const doc = nlp(text, this.LEXICON)
     const entities: Entity[] = []
-    const foundEntities = new Set<string>()
-
-    // Extract entities using patterns
-    for (const [entityType, patterns] of Object.entries(this.ENTITY_PATTERNS)) {
-      for (const pattern of patterns) {
-        let match
-        while ((match = pattern.exec(text)) !== null) {
-          const entityLabel = match[1] || match[0]
-          const normalizedLabel = entityLabel.trim().toLowerCase()
-
-          if (normalizedLabel.length > 1 && !foundEntities.has(normalizedLabel)) {
-            foundEntities.add(normalizedLabel)
-            entities.push({
-              label: this.capitalizeFirst(entityLabel.trim()),
-              type: entityType,
-              confidence: 0.85,
-              properties: {
-                context: text,
-                extractedBy: "local-nlp",
-              },
-              aliases: [],
-            })
-          }
-        }
+    const claimed: { start: number; end: number }[] = []
+    const sentences = splitSentences(text)
+    const sentenceAt = (offset: number) => {
+      const span = sentences.find((s) => offset >= s.start && offset < s.end)
+      return span ? text.slice(span.start, span.end).trim() : text
+    }
+
+    const addSpan = (start: number, end: number, type: string, confidence: number, extra: Record<string, any>) => {
+      if (claimed.some((span) => start < span.end && end > span.start)) return
+
+      claimed.push({ start, end })
+      entities.push({
+        label: text.slice(start, end),
+        type,
+        confidence,
+        properties: { context: sentenceAt(start), extractedBy: "local-nlp", ...extra },
+        aliases: [],
+      })
+    }
+
+    const add = (terms: TaggedTerm[], type: string, confidence: number, extra: Record<string, any> = {}) => {
+      const last = terms[terms.length - 1]
+      addSpan(terms[0].offset.start, last.offset.start + last.offset.length, type, confidence, extra)
+    }
+
+    // Values and qualities first: the tagger reads a capitalized quality ("He is Very Rich") as a person's name
+    for (const [pattern, type] of LITERAL_MENTIONS) {
+      for (const match of Array.from(text.matchAll(pattern))) {
+        const start = match.index ?? 0
+        addSpan(start, start + match[0].length, type, 0.8, {})
       }
     }
+    for (const quality of this.predicateAdjectives(doc)) add(quality, "ATTRIBUTE", 0.75)
 
-    // Extract capitalized words as potential entities if not already found
-    const capitalizedWords = text.match(/\b[A-Z][a-z]+\b/g) || []
-    for (const word of capitalizedWords) {
-      const normalizedWord = word.toLowerCase()
-      if (!foundEntities.has(normalizedWord) && word.length > 2) {
-        foundEntities.add(normalizedWord)
-        entities.push({
-          label: word,
-          type: this.guessEntityType(word, text),
-          confidence: 0.7,
-          properties: {
-            context: text,
-            extractedBy: "local-nlp",
-            guessed: true,
-          },
-          aliases: [],
-        })
+    const named: [TaggedPhrase[], string][] = [
+      [doc.people().json(WITH_OFFSETS), "PERSON"],
+      [doc.organizations().json(WITH_OFFSETS), "ORGANIZATION"],
+      [doc.places().json(WITH_OFFSETS), "LOCATION"],
+    ]
+    for (const [matches, type] of named) {
+      for (const match of matches) {
+        const honorific = match.terms[0].tags.includes("Honorific") && match.terms.length > 1
+        let terms = honorific ? match.terms.slice(1) : match.terms
+        // "Apple Inc. Apple Inc was..." is tagged as one name because "Inc." does not end the sentence for the tagger
+        const suffixEnd = terms.findIndex(
+          (term, i) => i < terms.length - 1 && /\.\s/.test(term.post) && this.COMPANY_SUFFIX.test(term.text),
+        )
+        if (suffixEnd !== -1) terms = terms.slice(0, suffixEnd + 1)
+        const label = terms.map((term) => term.text).join(" ")
+        const resolvedType = type === "ORGANIZATION" && this.COMPANY_SUFFIX.test(label) ? "COMPANY" : type
+        add(terms, resolvedType, 0.85, honorific ? { title: match.terms[0].text } : {})
       }
     }
 
-    // Extract common nouns as objects
-    const commonNouns = text.match(/\b[a-z]+\b/g) || []
-    for (const noun of commonNouns) {
-      if (noun.length > 2 && !foundEntities.has(noun) && this.isLikelyNoun(noun)) {
-        foundEntities.add(noun)
-        entities.push({
-          label: this.capitalizeFirst(noun),
-          type: "OBJECT",
-          confidence: 0.6,
-          properties: {
-            context: text,
-            extractedBy: "local-nlp",
-            commonNoun: true,
-          },
-          aliases: [],
-        })
+    for (const chunk of this.nounChunks(doc)) {
+      // Role nouns ("CEO", "President") describe an entity rather than name one
+      if (chunk.every((term) => term.tags.includes("Actor") && !term.tags.includes("Person"))) continue
+
+      const proper = chunk.every((term) => term.tags.includes("ProperNoun") || /^[A-Z]/.test(term.text))
+      if (proper) {
+        add(chunk, this.typeFromTags(chunk, text), 0.6, { guessed: true })
+        continue
       }
+
+      // Common noun phrase: typed by its singular head, e.g. "two ripe oranges" -> Orange (FOOD)
+      const head = chunk[chunk.length - 1]
+      const singular = head.tags.includes("Plural") ? nlp(head.text).nouns().toSingular().text("normal") : head.normal
+      const type = Object.keys(this.COMMON_NOUN_TYPES).find((t) => this.COMMON_NOUN_TYPES[t].includes(singular))
+      if (!type) continue
+
+      const label = this.capitalizeFirst(singular)
+      if (entities.some((e) => e.label.toLowerCase() === label.toLowerCase())) continue
+      add([head], type, 0.6, { commonNoun: true })
+      entities[entities.length - 1].label = label
+      if (head.text.toLowerCase() !== singular) entities[entities.length - 1].aliases = [head.text]
     }
 
     console.log(
@@ -208,33 +350,162 @@ export class LocalNLPProcessor {
     return entities
   }
 
+  // Runs of noun-chunk terms within one clause, without leading determiners, possessives, numbers and titles
+  private nounChunks(doc: View): TaggedTerm[][] {
+    const chunks: TaggedTerm[][] = []
+
+    for (const sentence of doc.json(WITH_OFFSETS) as TaggedPhrase[]) {
+      let current: TaggedTerm[] = []
+      const flush = () => {
+        const skip = current.findIndex((term) => !CHUNK_MODIFIER_TAGS.some((tag) => term.tags.includes(tag)))
+        if (skip !== -1) chunks.push(current.slice(skip))
+        current = []
+      }
+
+      for (const term of sentence.terms) {
+        if (term.chunk === "Noun" && !CHUNK_BREAK_TAGS.some((tag) => term.tags.includes(tag))) current.push(term)
+        else flush()
+        // Punctuation after a term ends the phrase
+        if (/[^\s]/.test(term.post)) flush()
+      }
+      flush()
+    }
+
+    return chunks
+  }
+
+  // Adjective phrases that end a clause after a copula: "He is Very Rich.", "Tesla was not profitable, but..."
+  private predicateAdjectives(doc: View): TaggedTerm[][] {
+    const qualities: TaggedTerm[][] = []
+
+    for (const sentence of doc.json(WITH_OFFSETS) as TaggedPhrase[]) {
+      sentence.terms.forEach((term, index) => {
+        if (!term.tags.includes("Copula") || /[^\s]/.test(term.post)) return
+
+        const phrase: TaggedTerm[] = []
+        for (const next of sentence.terms.slice(index + 1)) {
+          if (next.tags.includes("Conjunction")) break
+          // Negation belongs to the relationship ("is not rich"), not to the quality
+          if (phrase.length === 0 && /^(?:not|never)$/.test(next.normal)) continue
+          phrase.push(next)
+          if (/[^\s]/.test(next.post)) break
+        }
+        if (phrase.length === 0 || phrase.length > MAX_QUALITY_WORDS) return
+
+        // Tagged again in lowercase, so capitalization does not turn the quality into a name
+        const [tagged] = nlp(phrase.map((word) => word.text).join(" ").toLowerCase()).json() as TaggedPhrase[]
+        const words = tagged?.terms ?? []
+        const adjective = (word: TaggedTerm) => word.tags.includes("Adjective")
+        if (words.length !== phrase.length || !adjective(words[words.length - 1])) return
+        if (words.every((word) => adjective(word) || word.tags.includes("Adverb"))) qualities.push(phrase)
+      })
+    }
+
+    return qualities
+  }
+
+  // Tags first, then a corporate suffix, then the words around the name in the text
+  private typeFromTags(terms: TaggedTerm[], text: string): string {
+    const has = (tag: string) => terms.some((term) => term.tags.includes(tag))
+    if (has("Person")) return "PERSON"
+    if (has("Organization")) return "ORGANIZATION"
+    if (has("Place")) return "LOCATION"
+    if (has("Date")) return "CONCEPT"
+
+    const start = terms[0].offset.start
+    const last = terms[terms.length - 1]
+    const end = last.offset.start + last.offset.length
+    if (this.COMPANY_SUFFIX.test(text.slice(start, end))) return "COMPANY"
+
+    const before = text.slice(0, start)
+    const after = text.slice(end)
+    if (ORGANIZATION_BEFORE.test(before) || ORGANIZATION_AFTER.test(after)) return "ORGANIZATION"
+    if (PLACE_BEFORE.test(before)) return "LOCATION"
+    // Unknown multi-word names ("Satya Nadella") are most often people
+    return terms.length > 1 && terms.length <= 3 ? "PERSON" : "CONCEPT"
+  }
+
+  // Relationships are read off the text between consecutive entity mentions of a sentence, so multi-word
+  // entities keep their full span and casing. In "X, who founded Y, lives in Z" the relative clause is
+  // attached to X, and so is the verb after the clause. Mentions joined by "and" share the verb: "A and B founded
+  // C" links both founders, "C was founded by A and B" both as well.
   private extractRelationships(text: string, entities: Entity[]): Relationship[] {
     const relationships: Relationship[] = []
-    const entityLabels = entities.map((e) => e.label.toLowerCase())
-
-    for (const relationshipPattern of this.RELATIONSHIP_PATTERNS) {
-      let match
-      while ((match = relationshipPattern.pattern.exec(text)) !== null) {
-        const source = this.capitalizeFirst(match[1].trim())
-        const target = this.capitalizeFirst(match[2].trim())
-
-        // Check if both entities exist in our extracted entities
-        const sourceExists = entityLabels.includes(source.toLowerCase())
-        const targetExists = entityLabels.includes(target.toLowerCase())
-
-        if (sourceExists && targetExists && source.toLowerCase() !== target.toLowerCase()) {
-          relationships.push({
-            source,
-            target,
-            type: relationshipPattern.type,
-            confidence: relationshipPattern.confidence,
-            context: match[0],
-            properties: {
-              extractedBy: "local-nlp",
-              originalMatch: match[0],
-            },
-          })
+    const typeOf = new Map(entities.map((entity) => [entity.label, entity.type]))
+    const isValue = (mention: Mention) => LITERAL_MENTIONS.some(([, type]) => typeOf.get(mention.label) === type)
+    const patternFor = (connective: string, target: Mention) =>
+      this.RELATIONSHIP_MATCHERS.find(
+        ({ matcher, targetType }) =>
+          (!targetType || typeOf.get(target.label) === targetType) && matcher.test(connective),
+      )
+
+    for (const span of splitSentences(text)) {
+      const sentence = text.slice(span.start, span.end)
+      const mentions = this.findMentions(sentence, entities)
+      const connectiveAfter = (i: number) => this.connective(sentence.slice(mentions[i].end, mentions[i + 1].start))
+      let clauseSubject: Mention | null = null
+      // Subjects joined by "and" before the verb, and the last relationship read, which the object's conjuncts share
+      let conjuncts: Mention[] = []
+      let last: (Reading & { subjects: Mention[]; object: Mention }) | null = null
+
+      const link = ({ pattern, connective, clause }: Reading, subject: Mention, object: Mention) => {
+        const [source, target] = pattern.inverse ? [object, subject] : [subject, object]
+        if (source.label.toLowerCase() === target.label.toLowerCase()) return
+
+        relationships.push({
+          source: source.label,
+          target: target.label,
+          type: pattern.type,
+          confidence: clause ? pattern.confidence - 0.05 : pattern.confidence,
+          context: sentence.trim(),
+          properties: {
+            extractedBy: "local-nlp",
+            originalMatch: sentence.slice(subject.start, object.end),
+            ...detectFactuality(connective, sentence),
+          },
+        })
+      }
+
+      for (let i = 0; i + 1 < mentions.length; i++) {
+        let between = connectiveAfter(i)
+        const object = mentions[i + 1]
+        let subject = mentions[i]
+        let clause = false
+
+        // Only like joins like: "In 2016, Tesla acquired SolarCity" does not make 2016 a buyer
+        if (COORDINATION.test(between) && isValue(subject) === isValue(object)) {
+          if (last?.object !== subject) {
+            conjuncts.push(subject)
+          } else if (i + 2 < mentions.length && patternFor(connectiveAfter(i + 1), mentions[i + 2])) {
+            // "A founded B and C founded D": C starts a clause of its own
+            last = null
+          } else {
+            for (const conjunct of last.subjects) link(last, conjunct, object)
+            last.object = object
+          }
+          continue
+        }
+
+        const relative = between.match(/^\s*,\s*(?:who|which|that)\s+/i)
+        if (relative) {
+          clauseSubject = mentions[i]
+          between = between.slice(relative[0].length)
+          clause = true
+        } else if (clauseSubject && /^\s*,/.test(between)) {
+          // The relative clause closes here; the main verb belongs to the clause's subject
+          subject = clauseSubject
+          clauseSubject = null
+          between = between.replace(/^\s*,/, "")
+          clause = true
         }
+
+        const pattern = patternFor(between, object)
+        const subjects = clause ? [subject] : [...conjuncts, subject]
+        conjuncts = []
+        last = pattern ? { pattern, connective: between, clause, subjects, object } : null
+        if (!last) continue
+
+        for (const conjunct of subjects) link(last, conjunct, object)
       }
     }
 
@@ -245,71 +516,78 @@ export class LocalNLPProcessor {
     return relationships
   }
 
-  private guessEntityType(word: string, context: string): string {
-    const lowerWord = word.toLowerCase()
-    const lowerContext = context.toLowerCase()
+  // The text between two mentions without what the mentions leave behind: the period of an abbreviated label
+  // ("Apple Inc. was founded by"), the rest of a parenthesized alias ("... (IBM) is based in") and other
+  // parenthetical asides
+  private connective(between: string): string {
+    return between
+      .replace(/^\s*\.(?=\s)/, "")
+      .replace(/^[^(]*?\)/, "")
+      .replace(/\s*\([^()]*\)/g, "")
+  }
 
-    // Check context for clues
-    if (lowerContext.includes(`${lowerWord} eats`) || lowerContext.includes(`${lowerWord} lives`)) {
-      return "PERSON"
-    }
+  // Longest non-overlapping occurrences of entity labels (and pronouns, for the coreference stage)
+  private findMentions(sentence: string, entities: Entity[]): Mention[] {
+    const candidates: Mention[] = []
+    const lowerSentence = sentence.toLowerCase()
 
-    if (lowerContext.includes(`eat ${lowerWord}`) || lowerContext.includes(`eating ${lowerWord}`)) {
-      return "FOOD"
+    for (const entity of entities) {
+      for (const name of [entity.label, ...(entity.aliases || [])]) {
+        const needle = name.toLowerCase()
+        let index = lowerSentence.indexOf(needle)
+        for (; index !== -1; index = lowerSentence.indexOf(needle, index + 1)) {
+          const end = index + needle.length
+          if (this.isWordBoundary(sentence, index - 1) && this.isWordBoundary(sentence, end)) {
+            candidates.push({ label: entity.label, start: index, end })
+          }
+        }
+      }
     }
 
-    // Common name patterns
-    const commonNames = [
-      "ram",
-      "john",
-      "mary",
-      "david",
-      "sarah",
-      "mike",
-      "anna",
-      "tom",
-      "lisa",
-      "alex",
-      "sam",
-      "emma",
-      "jack",
-      "lucy",
-    ]
-    if (commonNames.includes(lowerWord)) {
-      return "PERSON"
+    for (const match of Array.from(sentence.matchAll(/\b(?:he|she|it|they|him|her|them)\b/gi))) {
+      const start = match.index ?? 0
+      candidates.push({ label: match[0], start, end: start + match[0].length })
     }
 
-    // Default to CONCEPT for capitalized words
-    return "CONCEPT"
+    candidates.sort((a, b) => a.start - b.start || b.end - a.end)
+    const mentions: Mention[] = []
+    for (const candidate of candidates) {
+      const last = mentions[mentions.length - 1]
+      if (!last || candidate.start >= last.end) mentions.push(candidate)
+    }
+    return mentions
   }
 
-  private isLikelyNoun(word: string): boolean {
-    const commonNouns = [
-      "apple",
-      "mango",
-      "banana",
-      "orange",
-      "book",
-      "car",
-      "house",
-      "dog",
-      "cat",
-      "computer",
-      "phone",
-      "table",
-      "chair",
-      "food",
-      "water",
-      "coffee",
-      "tea",
-      "pizza",
-      "burger",
-    ]
-    return commonNouns.includes(word.toLowerCase())
+  private isWordBoundary(text: string, index: number): boolean {
+    return index < 0 || index >= text.length || !/[\p{L}\p{N}_]/u.test(text[index])
   }
 
+  // Keeps the rest of the label as written, so "New York" and "iPhone" survive
   private capitalizeFirst(str: string): string {
-    return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase()
+    return str.charAt(0).toUpperCase() + str.slice(1)
+  }
+
+  // The tagger and patterns use the built-in types; a workspace ontology may only declare their parents or inverses
+  private conformEntities(entities: Entity[], ontology: Ontology): Entity[] {
+    return entities.flatMap((entity) => {
+      const type = conformEntityType(ontology, entity.type)
+      return type ? [{ ...entity, type }] : []
+    })
+  }
+
+  // A relationship to a value keeps its own type (VALUED_AT) even when undeclared: normalization turns it into
+  // RELATED_TO with the verb, which names the property the value is lifted into
+  private conformRelationships(relationships: Relationship[], entities: Entity[], ontology: Ontology): Relationship[] {
+    const literals = new Set(entities.filter((e) => isLiteralType(ontology, e.type)).map((e) => e.label))
+
+    return relationships.flatMap((relationship) => {
+      const conformed = conformRelationshipType(ontology, relationship.type)
+      if (!conformed) return literals.has(relationship.target) ? [relationship] : []
+
+      const { source, target } = relationship
+      const [from, to] = conformed.flipped ? [target, source] : [source, target]
+      return [{ ...relationship, type: conformed.type, source: from, target: to }]
+    })
   }
 
   private filterEntities(entities: Entity[]): Entity[] {
@@ -333,8 +611,8 @@ export class LocalNLPProcessor {
     const entityLabels = new Set(entities.map((e) => e.label.toLowerCase()))
 
     return relationships.filter((rel) => {
-      const sourceExists = entityLabels.has(rel.source.toLowerCase())
-      const targetExists = entityLabels.has(rel.target.toLowerCase())
+      const sourceExists = entityLabels.has(rel.source.toLowerCase()) || isAnaphor(rel.source)
+      const targetExists = entityLabels.has(rel.target.toLowerCase()) || isAnaphor(rel.target)
       const notSelfRelation = rel.source.toLowerCase() !== rel.target.toLowerCase()
 
       return sourceExists && targetExists && notSelfRelation
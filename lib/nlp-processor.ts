@@ -1,121 +0,0 @@
-interface Entity {
-  label: string
-  type: string
-  properties: Record<string, any>
-}
-
-interface Relationship {
-  source: string
-  target: string
-  type: string
-  properties: Record<string, any>
-}
-
-export async function extractEntitiesAndRelationships(text: string): Promise<{
-  entities: Entity[]
-  relationships: Relationship[]
-}> {
-  // This is a simplified NLP processor
-  // In a real implementation, you would use libraries like:
-  // - spaCy (Python) via API
-  // - Stanford NLP
-  // - OpenAI API for entity extraction
-  // - Custom trained models
-
-  const entities: Entity[] = []
-  const relationships: Relationship[] = []
-
-  // Simple pattern matching for demonstration
-  const sentences = text.split(/[.!?]+/).filter((s) => s.trim().length > 0)
-
-  for (const sentence of sentences) {
-    const words = sentence.trim().split(/\s+/)
-
-    // Extract potential entities (capitalized words/phrases)
-    const capitalizedWords = words.filter((word) => /^[A-Z][a-z]+/.test(word) && word.length > 2)
-
-    // Create entities
-    for (const word of capitalizedWords) {
-      if (!entities.find((e) => e.label === word)) {
-        entities.push({
-          label: word,
-          type: determineEntityType(word, sentence),
-          properties: {
-            context: sentence.trim(),
-            confidence: 0.8,
-          },
-        })
-      }
-    }
-
-    // Extract relationships (simple pattern matching)
-    const relationshipPatterns = [
-      { pattern: /(\w+)\s+(works\s+at|employed\s+by)\s+(\w+)/i, type: "WORKS_AT" },
-      { pattern: /(\w+)\s+(lives\s+in|resides\s+in)\s+(\w+)/i, type: "LIVES_IN" },
-      { pattern: /(\w+)\s+(knows|met)\s+(\w+)/i, type: "KNOWS" },
-      { pattern: /(\w+)\s+(founded|created|established)\s+(\w+)/i, type: "FOUNDED" },
-      { pattern: /(\w+)\s+(is\s+located\s+in|is\s+in)\s+(\w+)/i, type: "LOCATED_IN" },
-      { pattern: /(\w+)\s+(attended|studied\s+at)\s+(\w+)/i, type: "ATTENDED" },
-    ]
-
-    for (const { pattern, type } of relationshipPatterns) {
-      const match = sentence.match(pattern)
-      if (match) {
-        const source = match[1]
-        const target = match[3]
-
-        if (capitalizedWords.includes(source) && capitalizedWords.includes(target)) {
-          relationships.push({
-            source,
-            target,
-            type,
-            properties: {
-              context: sentence.trim(),
-              confidence: 0.7,
-            },
-          })
-        }
-      }
-    }
-  }
-
-  return { entities, relationships }
-}
-
-function determineEntityType(word: string, context: string): string {
-  // Simple heuristics for entity type classification
-  // In a real implementation, you would use NER models
-
-  const personIndicators = ["Mr.", "Mrs.", "Dr.", "Prof.", "CEO", "President"]
-  const organizationIndicators = ["Inc.", "Corp.", "LLC", "Ltd.", "Company", "University", "School"]
-  const locationIndicators = ["City", "State", "Country", "Street", "Avenue", "Road"]
-
-  const contextLower = context.toLowerCase()
-
-  if (personIndicators.some((indicator) => contextLower.includes(indicator.toLowerCase()))) {
-    return "PERSON"
-  }
-
-  if (organizationIndicators.some((indicator) => contextLower.includes(indicator.toLowerCase()))) {
-    return "ORGANIZATION"
-  }
-
-  if (locationIndicators.some((indicator) => contextLower.includes(indicator.toLowerCase()))) {
-    return "LOCATION"
-  }
-
-  // Default classification based on context patterns
-  if (contextLower.includes("born") || contextLower.includes("age") || contextLower.includes("married")) {
-    return "PERSON"
-  }
-
-  if (contextLower.includes("headquarters") || contextLower.includes("founded") || contextLower.includes("company")) {
-    return "ORGANIZATION"
-  }
-
-  if (contextLower.includes("located") || contextLower.includes("capital") || contextLower.includes("population")) {
-    return "LOCATION"
-  }
-
-  return "CONCEPT"
-}
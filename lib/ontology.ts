@@ -0,0 +1,455 @@
+import YAML from "yaml"
+import { z } from "zod"
+import { normalizeTypeLabel } from "./type-labels"
+import type { GraphStore } from "./graph-store"
+
+// Entity and relationship types the graph accepts. Extractors are prompted with these lists
+// and anything outside them is rejected before it reaches a Cypher query.
+export const ENTITY_TYPES = [
+  "PERSON",
+  "ORGANIZATION",
+  "COMPANY",
+  "LOCATION",
+  "EVENT",
+  "PRODUCT",
+  "TECHNOLOGY",
+  "CONCEPT",
+  "DATE",
+  "MONEY",
+  "PERCENTAGE",
+  "FOOD",
+  "ANIMAL",
+  "OBJECT",
+  "VEHICLE",
+  "BUILDING",
+  "BOOK",
+  "MOVIE",
+  "SONG",
+  "PROFESSION",
+  "ATTRIBUTE",
+  "ACTION",
+  "BRAND",
+]
+
+export const RELATIONSHIP_TYPES = [
+  "FOUNDED_BY",
+  "OWNS",
+  "IS_A",
+  "HAS_ATTRIBUTE",
+  "WORKS_AT",
+  "CEO_OF",
+  "LIVES_IN",
+  "BORN_IN",
+  "STUDIED_AT",
+  "FRIENDS_WITH",
+  "CLASSMATES_WITH",
+  "COLLEAGUES_WITH",
+  "FAMILY_OF",
+  "PARENT_OF",
+  "CHILD_OF",
+  "SIBLING_OF",
+  "MARRIED_TO",
+  "USES",
+  "LIKES",
+  "LOVES",
+  "HATES",
+  "EATS",
+  "DRINKS",
+  "READS",
+  "WRITES",
+  "PLAYS",
+  "TEACHES",
+  "LEARNS",
+  "CREATES",
+  "DESTROYS",
+  "VISITS",
+  "TRAVELS_TO",
+  "WORKS_WITH",
+  "COLLABORATES_WITH",
+  "COMPETES_WITH",
+  "HELPS",
+  "SUPPORTS",
+  "OPPOSES",
+  "LEADS",
+  "FOLLOWS",
+  "MANAGES",
+  "REPORTS_TO",
+  // Emitted by the local pattern-based extractor
+  "KNOWS",
+  "HAS",
+  "DRIVES",
+  "STUDIES",
+  // Emitted by the rules extractor
+  "FOUNDED",
+  "LOCATED_IN",
+  "ATTENDED",
+  // Fallback for verbs no other type covers; the verb is kept on the relationship
+  "RELATED_TO",
+]
+
+export interface EntityTypeDefinition {
+  name: string
+  // An entity of this type also satisfies constraints on its parent, e.g. COMPANY -> ORGANIZATION
+  parent?: string
+  // Hex color for the graph; inherited from the parent when unset
+  color?: string
+  // A value such as an amount or a date rather than a thing; stored as an attribute of the entity or relationship
+  // it describes instead of as a node. Inherited by subtypes.
+  literal?: boolean
+  description?: string
+}
+
+export interface RelationshipTypeDefinition {
+  name: string
+  // Allowed source and target entity types (including their subtypes); unset means any
+  domain?: string[]
+  range?: string[]
+  // The same fact read from the other side, e.g. FOUNDED <-> FOUNDED_BY
+  inverse?: string
+  // A -[T]-> B implies B -[T]-> A, e.g. MARRIED_TO
+  symmetric?: boolean
+  // A -[T]-> B and B -[T]-> C imply A -[T]-> C, e.g. LOCATED_IN
+  transitive?: boolean
+  description?: string
+}
+
+export interface Ontology {
+  entityTypes: EntityTypeDefinition[]
+  relationshipTypes: RelationshipTypeDefinition[]
+  // Horn-style rules for the inference engine, e.g. "CEO_OF(x, y) -> WORKS_AT(x, y)"
+  rules?: string[]
+}
+
+// TYPE(source, target), with variables standing for entities
+export interface RuleAtom {
+  type: string
+  source: string
+  target: string
+}
+
+// When every premise in the body matches the graph (with consistent variables), the head holds
+export interface InferenceRule {
+  body: RuleAtom[]
+  head: RuleAtom
+}
+
+export type OntologyFormat = "json" | "yaml"
+
+export class OntologyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "OntologyError"
+  }
+}
+
+const DEFAULT_COLOR = "#6B7280"
+
+const DEFAULT_ENTITY_DETAILS: Record<string, Omit<EntityTypeDefinition, "name">> = {
+  PERSON: { color: "#3B82F6", description: "A named individual" },
+  ORGANIZATION: { color: "#10B981", description: "A company, institution, agency or group" },
+  COMPANY: { parent: "ORGANIZATION", description: "A business" },
+  BRAND: { parent: "ORGANIZATION" },
+  LOCATION: { color: "#F59E0B", description: "A place: city, country, region or address" },
+  BUILDING: { parent: "LOCATION" },
+  EVENT: { color: "#EF4444" },
+  DATE: { literal: true, description: "A date or year" },
+  MONEY: { literal: true, description: "An amount of money such as $3 trillion" },
+  PERCENTAGE: { literal: true, description: "A percentage such as 42%" },
+  CONCEPT: { color: "#8B5CF6", description: "An idea, field or anything without a more specific type" },
+  PROFESSION: { parent: "CONCEPT" },
+  ATTRIBUTE: { parent: "CONCEPT", literal: true, description: "A quality such as rich or tall" },
+  ACTION: { parent: "CONCEPT" },
+  FOOD: { color: "#F97316" },
+  TECHNOLOGY: { color: "#06B6D4" },
+  PRODUCT: { color: "#EC4899", description: "A product or service" },
+  OBJECT: { color: "#84CC16" },
+  VEHICLE: { parent: "OBJECT" },
+  BOOK: { parent: "PRODUCT" },
+  MOVIE: { parent: "PRODUCT" },
+  SONG: { parent: "PRODUCT" },
+}
+
+const PEOPLE = ["PERSON"]
+const ORGANIZATIONS = ["ORGANIZATION"]
+const PLACES = ["LOCATION"]
+
+const DEFAULT_RELATIONSHIP_DETAILS: Record<string, Omit<RelationshipTypeDefinition, "name">> = {
+  FOUNDED_BY: { domain: ORGANIZATIONS, range: PEOPLE, inverse: "FOUNDED" },
+  FOUNDED: { domain: PEOPLE, range: ORGANIZATIONS, inverse: "FOUNDED_BY" },
+  WORKS_AT: { domain: PEOPLE, range: ORGANIZATIONS },
+  CEO_OF: { domain: PEOPLE, range: ORGANIZATIONS },
+  LIVES_IN: { domain: PEOPLE, range: PLACES },
+  BORN_IN: { domain: PEOPLE, range: PLACES },
+  STUDIED_AT: { domain: PEOPLE, range: ORGANIZATIONS },
+  ATTENDED: { domain: PEOPLE },
+  LOCATED_IN: { range: PLACES, transitive: true },
+  HAS_ATTRIBUTE: { range: ["ATTRIBUTE"] },
+  PARENT_OF: { domain: PEOPLE, range: PEOPLE, inverse: "CHILD_OF" },
+  CHILD_OF: { domain: PEOPLE, range: PEOPLE, inverse: "PARENT_OF" },
+  FRIENDS_WITH: { domain: PEOPLE, range: PEOPLE, symmetric: true },
+  CLASSMATES_WITH: { domain: PEOPLE, range: PEOPLE, symmetric: true },
+  COLLEAGUES_WITH: { domain: PEOPLE, range: PEOPLE, symmetric: true },
+  SIBLING_OF: { domain: PEOPLE, range: PEOPLE, symmetric: true },
+  MARRIED_TO: { domain: PEOPLE, range: PEOPLE, symmetric: true },
+  FAMILY_OF: { domain: PEOPLE, range: PEOPLE, symmetric: true },
+  KNOWS: { domain: PEOPLE, range: PEOPLE, symmetric: true },
+  WORKS_WITH: { symmetric: true },
+  COLLABORATES_WITH: { symmetric: true },
+  COMPETES_WITH: { symmetric: true },
+  MANAGES: { domain: PEOPLE, inverse: "REPORTS_TO" },
+  REPORTS_TO: { domain: PEOPLE, range: PEOPLE, inverse: "MANAGES" },
+  TEACHES: { domain: PEOPLE },
+  EATS: { range: ["FOOD"] },
+  RELATED_TO: { description: "Any other connection; the original verb is stored as the verb property" },
+}
+
+// Implications and property chains on top of what inverse, symmetric and transitive types derive
+const DEFAULT_RULES = [
+  "CEO_OF(x, y) -> WORKS_AT(x, y)",
+  "CEO_OF(x, y) -> LEADS(x, y)",
+  "PARENT_OF(x, y), PARENT_OF(x, z) -> SIBLING_OF(y, z)",
+  "LIVES_IN(x, y), LOCATED_IN(y, z) -> LIVES_IN(x, z)",
+]
+
+export const DEFAULT_ONTOLOGY: Ontology = {
+  entityTypes: ENTITY_TYPES.map((name) => ({ name, ...DEFAULT_ENTITY_DETAILS[name] })),
+  relationshipTypes: RELATIONSHIP_TYPES.map((name) => ({ name, ...DEFAULT_RELATIONSHIP_DETAILS[name] })),
+  rules: DEFAULT_RULES,
+}
+
+// The ontology extraction and validation use for the store's workspace
+export async function loadOntology(graphStore: GraphStore): Promise<Ontology> {
+  return (await graphStore.getOntology()) ?? DEFAULT_ONTOLOGY
+}
+
+export function entityTypeNames(ontology: Ontology): string[] {
+  return ontology.entityTypes.map((type) => type.name)
+}
+
+export function relationshipTypeNames(ontology: Ontology): string[] {
+  return ontology.relationshipTypes.map((type) => type.name)
+}
+
+export function findRelationshipType(ontology: Ontology, name: string): RelationshipTypeDefinition | undefined {
+  return ontology.relationshipTypes.find((type) => type.name === name)
+}
+
+// The type itself, then its parent, grandparent and so on
+export function typeLineage(ontology: Ontology, name: string): string[] {
+  const lineage: string[] = []
+  let current = ontology.entityTypes.find((type) => type.name === name)
+
+  while (current && !lineage.includes(current.name)) {
+    lineage.push(current.name)
+    current = current.parent ? ontology.entityTypes.find((type) => type.name === current!.parent) : undefined
+  }
+
+  return lineage.length > 0 ? lineage : [name]
+}
+
+export function isSubtypeOf(ontology: Ontology, name: string, ancestor: string): boolean {
+  return typeLineage(ontology, name).includes(ancestor)
+}
+
+export function isLiteralType(ontology: Ontology, name: string): boolean {
+  return typeLineage(ontology, name).some((type) => ontology.entityTypes.find((t) => t.name === type)?.literal)
+}
+
+export function colorOf(ontology: Ontology, name: string): string {
+  for (const type of typeLineage(ontology, name)) {
+    const color = ontology.entityTypes.find((t) => t.name === type)?.color
+    if (color) return color
+  }
+  return DEFAULT_COLOR
+}
+
+// Maps a type from the built-in vocabulary onto a workspace ontology: the type itself when declared, otherwise its
+// closest declared ancestor (COMPANY -> ORGANIZATION). Null when nothing in its lineage is declared.
+export function conformEntityType(ontology: Ontology, type: string): string | null {
+  const declared = new Set(entityTypeNames(ontology))
+  const lineage = [...typeLineage(ontology, type), ...typeLineage(DEFAULT_ONTOLOGY, type)]
+  return lineage.find((name) => declared.has(name)) ?? null
+}
+
+// The declared relationship type for a built-in one, reading it from the other side when only its inverse is
+// declared (FOUNDED -> FOUNDED_BY with source and target swapped). Null when neither is declared.
+export function conformRelationshipType(ontology: Ontology, type: string): { type: string; flipped: boolean } | null {
+  if (findRelationshipType(ontology, type)) return { type, flipped: false }
+
+  const declaredInverse = ontology.relationshipTypes.find((t) => t.inverse === type)?.name
+  const inverse = declaredInverse ?? findRelationshipType(DEFAULT_ONTOLOGY, type)?.inverse
+  if (inverse && findRelationshipType(ontology, inverse)) return { type: inverse, flipped: true }
+  return null
+}
+
+// "PARENT_OF(x, y), PARENT_OF(x, z) -> SIBLING_OF(y, z)": premises separated by commas, one conclusion. Type names
+// are normalized like declared ones; variables are lowercase and every head variable must occur in the body.
+export function parseRule(text: string): InferenceRule {
+  const sides = text.split("->")
+  if (sides.length !== 2) throw new OntologyError(`Rule "${text}" needs exactly one "->"`)
+
+  const body = parseAtoms(text, sides[0])
+  const head = parseAtoms(text, sides[1])
+  if (body.length === 0 || head.length !== 1) {
+    throw new OntologyError(`Rule "${text}" needs at least one premise and exactly one conclusion`)
+  }
+
+  const bound = new Set(body.flatMap((atom) => [atom.source, atom.target]))
+  for (const variable of [head[0].source, head[0].target]) {
+    if (!bound.has(variable)) throw new OntologyError(`Rule "${text}": ${variable} does not occur in a premise`)
+  }
+
+  return { body, head: head[0] }
+}
+
+export function formatRule(rule: InferenceRule): string {
+  const atom = ({ type, source, target }: RuleAtom) => `${type}(${source}, ${target})`
+  return `${rule.body.map(atom).join(", ")} -> ${atom(rule.head)}`
+}
+
+// Parses and checks an ontology document. Type names are normalized to UPPER_SNAKE_CASE; every parent,
+// domain, range and inverse must refer to a declared type, as must every type in a rule.
+export function parseOntology(source: string | unknown, format: OntologyFormat = "json"): Ontology {
+  let raw: unknown = source
+  if (typeof source === "string") {
+    try {
+      raw = format === "yaml" ? YAML.parse(source) : JSON.parse(source)
+    } catch (error) {
+      throw new OntologyError(`Invalid ${format.toUpperCase()}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const parsed = ontologySchema.safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new OntologyError(`${issue.path.join(".") || "ontology"}: ${issue.message}`)
+  }
+
+  const ontology: Ontology = {
+    entityTypes: parsed.data.entityTypes.map((type) => ({
+      ...type,
+      name: typeName(type.name),
+      parent: type.parent ? typeName(type.parent) : undefined,
+    })),
+    relationshipTypes: parsed.data.relationshipTypes.map((type) => ({
+      ...type,
+      name: typeName(type.name),
+      domain: type.domain?.map(typeName),
+      range: type.range?.map(typeName),
+      inverse: type.inverse ? typeName(type.inverse) : undefined,
+    })),
+    rules: parsed.data.rules?.map((rule) => formatRule(parseRule(rule))),
+  }
+
+  checkReferences(ontology)
+  return ontology
+}
+
+export function serializeOntology(ontology: Ontology, format: OntologyFormat = "json"): string {
+  // Drop unset optional fields so the document stays readable
+  const clean = JSON.parse(JSON.stringify(ontology))
+  return format === "yaml" ? YAML.stringify(clean) : JSON.stringify(clean, null, 2)
+}
+
+const entityTypeSchema = z.object({
+  name: z.string().min(1),
+  parent: z.string().optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "must be a hex color like #3B82F6")
+    .optional(),
+  literal: z.boolean().optional(),
+  description: z.string().optional(),
+})
+
+const relationshipTypeSchema = z.object({
+  name: z.string().min(1),
+  domain: z.array(z.string()).optional(),
+  range: z.array(z.string()).optional(),
+  inverse: z.string().optional(),
+  symmetric: z.boolean().optional(),
+  transitive: z.boolean().optional(),
+  description: z.string().optional(),
+})
+
+const ontologySchema = z.object({
+  entityTypes: z.array(entityTypeSchema).min(1),
+  relationshipTypes: z.array(relationshipTypeSchema).min(1),
+  rules: z.array(z.string()).optional(),
+})
+
+const ATOM_PATTERN = /([A-Za-z][\w ]*?)\s*\(\s*([a-z]\w*)\s*,\s*([a-z]\w*)\s*\)/g
+
+function parseAtoms(rule: string, side: string): RuleAtom[] {
+  if (side.replace(ATOM_PATTERN, "").replace(/[\s,]/g, "")) {
+    throw new OntologyError(`Rule "${rule}" is not a list of TYPE(x, y) terms: ${side.trim()}`)
+  }
+  return Array.from(side.matchAll(ATOM_PATTERN), (match) => ({
+    type: typeName(match[1]),
+    source: match[2],
+    target: match[3],
+  }))
+}
+
+function typeName(name: string): string {
+  const normalized = normalizeTypeLabel(name)
+  if (!normalized) throw new OntologyError(`"${name}" is not a valid type name`)
+  return normalized
+}
+
+function checkReferences(ontology: Ontology): void {
+  const entityNames = new Set<string>()
+  for (const type of ontology.entityTypes) {
+    if (entityNames.has(type.name)) throw new OntologyError(`Entity type ${type.name} is declared twice`)
+    entityNames.add(type.name)
+  }
+
+  const relationshipNames = new Set<string>()
+  for (const type of ontology.relationshipTypes) {
+    if (relationshipNames.has(type.name)) throw new OntologyError(`Relationship type ${type.name} is declared twice`)
+    relationshipNames.add(type.name)
+  }
+
+  for (const type of ontology.entityTypes) {
+    if (type.parent && !entityNames.has(type.parent)) {
+      throw new OntologyError(`Entity type ${type.name} has unknown parent ${type.parent}`)
+    }
+    if (hasParentCycle(ontology, type)) {
+      throw new OntologyError(`Entity type ${type.name} has a cyclic parent chain`)
+    }
+  }
+
+  for (const type of ontology.relationshipTypes) {
+    for (const name of [...(type.domain || []), ...(type.range || [])]) {
+      if (!entityNames.has(name)) {
+        throw new OntologyError(`Relationship type ${type.name} refers to unknown type ${name}`)
+      }
+    }
+    if (type.inverse && !relationshipNames.has(type.inverse)) {
+      throw new OntologyError(`Relationship type ${type.name} has unknown inverse ${type.inverse}`)
+    }
+    if (type.inverse && type.symmetric) {
+      throw new OntologyError(`Relationship type ${type.name} cannot be both symmetric and have an inverse`)
+    }
+  }
+
+  for (const rule of ontology.rules || []) {
+    const { body, head } = parseRule(rule)
+    for (const atom of [...body, head]) {
+      if (!relationshipNames.has(atom.type)) {
+        throw new OntologyError(`Rule "${rule}" refers to unknown relationship type ${atom.type}`)
+      }
+    }
+  }
+}
+
+function hasParentCycle(ontology: Ontology, type: EntityTypeDefinition): boolean {
+  const visited = new Set<string>()
+  let current: EntityTypeDefinition | undefined = type
+  while (current) {
+    if (visited.has(current.name)) return true
+    visited.add(current.name)
+    current = current.parent ? ontology.entityTypes.find((t) => t.name === current!.parent) : undefined
+  }
+  return false
+}
@@ -0,0 +1,63 @@
+import OpenAI from "openai"
+import {
+  EXTRACTION_SYSTEM_PROMPT,
+  extractWithValidation,
+  filterExtraction,
+  type ValidatedExtraction,
+} from "./llm-extraction"
+import { DEFAULT_ONTOLOGY, type Ontology } from "./ontology"
+
+// Any OpenAI-compatible chat endpoint, e.g. a local Ollama (http://localhost:11434/v1) or llama.cpp server.
+// LLM_API_KEY is optional because local servers usually ignore it.
+export class OpenAICompatibleNLPProcessor {
+  private client: OpenAI | null = null
+
+  static isConfigured(): boolean {
+    return !!process.env.LLM_BASE_URL
+  }
+
+  async extractEntitiesAndRelationships(
+    text: string,
+    ontology: Ontology = DEFAULT_ONTOLOGY,
+  ): Promise<ValidatedExtraction> {
+    const model = process.env.LLM_MODEL || "llama3.1"
+
+    try {
+      console.log(`Processing text with ${model} at ${process.env.LLM_BASE_URL}`)
+
+      const result = await extractWithValidation(text, { provider: "openai", model, ontology }, async (messages) => {
+        const completion = await this.getClient().chat.completions.create({
+          model,
+          temperature: 0.1,
+          max_tokens: 2048,
+          // Not every server supports JSON mode; set LLM_JSON_MODE=false for those
+          ...(process.env.LLM_JSON_MODE === "false" ? {} : { response_format: { type: "json_object" as const } }),
+          messages: [{ role: "system", content: EXTRACTION_SYSTEM_PROMPT }, ...messages],
+        })
+        return completion.choices[0]?.message?.content
+      })
+
+      console.log(
+        `${model} extracted ${result.entities.length} entities and ${result.relationships.length} relationships`,
+      )
+
+      return { ...filterExtraction(result), diagnostics: result.diagnostics }
+    } catch (error) {
+      console.error("Error in OpenAI-compatible NLP processing:", error)
+      throw error
+    }
+  }
+
+  // Created lazily so the base URL and key are read when the extractor is first used
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        baseURL: process.env.LLM_BASE_URL,
+        apiKey: process.env.LLM_API_KEY || "not-needed",
+        timeout: Number(process.env.LLM_TIMEOUT_MS) || 120_000,
+        maxRetries: 1,
+      })
+    }
+    return this.client
+  }
+}
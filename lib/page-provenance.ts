@@ -0,0 +1,104 @@
+interface Entity {
+  label: string
+  properties: Record<string, any>
+  aliases?: string[]
+}
+
+interface Relationship {
+  source: string
+  target: string
+  properties: Record<string, any>
+  context?: string
+}
+
+interface PageText {
+  pageNumber: number
+  text: string
+}
+
+interface PageRange {
+  pageNumber: number
+  start: number
+  end: number
+}
+
+export class PageProvenance {
+  private readonly ranges: PageRange[] = []
+  readonly text: string
+
+  // Pages are joined with a single space, matching how the cleaned document text is built
+  constructor(pages: PageText[]) {
+    let offset = 0
+    const parts: string[] = []
+
+    for (const page of pages) {
+      this.ranges.push({ pageNumber: page.pageNumber, start: offset, end: offset + page.text.length })
+      parts.push(page.text)
+      offset += page.text.length + 1
+    }
+
+    this.text = parts.join(" ")
+  }
+
+  get pageCount(): number {
+    return this.ranges.length
+  }
+
+  pagesMentioning(needle: string): number[] {
+    const pages = new Set<number>()
+    const lowerText = this.text.toLowerCase()
+    const lowerNeedle = needle.toLowerCase().trim()
+    if (!lowerNeedle) return []
+
+    let index = lowerText.indexOf(lowerNeedle)
+    while (index !== -1) {
+      const page = this.pageAt(index)
+      if (page !== null) pages.add(page)
+      index = lowerText.indexOf(lowerNeedle, index + lowerNeedle.length)
+    }
+
+    return Array.from(pages).sort((a, b) => a - b)
+  }
+
+  annotateEntities<T extends Entity>(entities: T[]): T[] {
+    return entities.map((entity) => {
+      const pages = new Set(this.pagesMentioning(entity.label))
+      for (const alias of entity.aliases || []) {
+        this.pagesMentioning(alias).forEach((page) => pages.add(page))
+      }
+
+      if (pages.size === 0) return entity
+
+      return {
+        ...entity,
+        properties: { ...entity.properties, pages: Array.from(pages).sort((a, b) => a - b) },
+      }
+    })
+  }
+
+  annotateRelationships<T extends Relationship>(relationships: T[]): T[] {
+    return relationships.map((relationship) => {
+      const page = this.pageForRelationship(relationship)
+      if (page === null) return relationship
+
+      return { ...relationship, properties: { ...relationship.properties, page } }
+    })
+  }
+
+  private pageForRelationship(relationship: Relationship): number | null {
+    // Prefer the page holding the supporting sentence, then the first page naming both ends
+    if (relationship.context) {
+      const contextPages = this.pagesMentioning(relationship.context)
+      if (contextPages.length > 0) return contextPages[0]
+    }
+
+    const targetPages = new Set(this.pagesMentioning(relationship.target))
+    const shared = this.pagesMentioning(relationship.source).filter((page) => targetPages.has(page))
+    return shared.length > 0 ? shared[0] : null
+  }
+
+  pageAt(offset: number): number | null {
+    const range = this.ranges.find((r) => offset >= r.start && offset < r.end)
+    return range ? range.pageNumber : null
+  }
+}
@@ -0,0 +1,188 @@
+import { DEFAULT_ONTOLOGY, entityTypeNames, findRelationshipType, isSubtypeOf, type Ontology } from "./ontology"
+
+interface Entity {
+  label: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+}
+
+interface Relationship {
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+  confidence: number
+}
+
+// rejected: dropped. reversed: source and target swapped. retyped: a related type that fits, e.g. LOCATED_IN for
+// "Tesla LIVES_IN Austin". endpointTyped: a CONCEPT endpoint given the one type the relationship allows there, e.g.
+// ORGANIZATION for Apple in "Apple FOUNDED_BY Steve Jobs". downWeighted: kept with lower confidence because an
+// endpoint's type was only a guess.
+export type ConstraintAction = "rejected" | "reversed" | "retyped" | "endpointTyped" | "downWeighted"
+
+export interface ConstraintViolation {
+  action: ConstraintAction
+  // As extracted, e.g. "Rich -[LIVES_IN]-> Tesla"
+  relationship: string
+  reason: string
+  // The relationship as written, for reversed and retyped; the entity and its new type for endpointTyped
+  repaired?: string
+}
+
+// Endpoint entities below this confidence (or marked guessed) may be mistyped, so their violations only cost
+// confidence instead of the relationship
+const UNCERTAIN_ENTITY_CONFIDENCE = 0.7
+const DOWN_WEIGHT_FACTOR = Number(process.env.CONSTRAINT_DOWN_WEIGHT) || 0.5
+
+// Types extractors use for the same fact about a different kind of entity; tried in order when the original
+// does not fit either way round
+const RETYPE_ALTERNATIVES: Record<string, string[]> = {
+  LIVES_IN: ["LOCATED_IN"],
+  BORN_IN: ["LOCATED_IN"],
+  LOCATED_IN: ["LIVES_IN"],
+  STUDIED_AT: ["ATTENDED"],
+  FRIENDS_WITH: ["KNOWS"],
+}
+
+// Checks every relationship against its type's domain and range. A violation that reads correctly the other way
+// round (Steve Jobs FOUNDED_BY Apple) or as a related type is repaired, and so is one whose only misfit is a
+// CONCEPT endpoint where the type allows a single entity type; one with a guessed endpoint type is down-weighted;
+// anything else (Rich LIVES_IN Tesla) is rejected. Entities are returned with any types given to them.
+export function enforceDomainRange<E extends Entity, R extends Relationship>(
+  extraction: { entities: E[]; relationships: R[] },
+  ontology: Ontology = DEFAULT_ONTOLOGY,
+): { entities: E[]; relationships: R[]; violations: ConstraintViolation[] } {
+  const entitiesByLabel = new Map(extraction.entities.map((entity) => [entity.label.toLowerCase(), entity]))
+  const relationships: R[] = []
+  const violations: ConstraintViolation[] = []
+
+  for (const relationship of extraction.relationships) {
+    const source = entitiesByLabel.get(relationship.source.toLowerCase())
+    const target = entitiesByLabel.get(relationship.target.toLowerCase())
+    // Endpoints that were not extracted are dropped when the batch is built
+    if (!source || !target) {
+      relationships.push(relationship)
+      continue
+    }
+
+    const problem = signatureProblem(ontology, relationship.type, source.type, target.type)
+    if (!problem) {
+      relationships.push(relationship)
+      continue
+    }
+
+    const described = describe(relationship)
+    const swapped = { ...relationship, source: relationship.target, target: relationship.source }
+    const alternative = (RETYPE_ALTERNATIVES[relationship.type] || []).find(
+      (type) => findRelationshipType(ontology, type) && !signatureProblem(ontology, type, source.type, target.type),
+    )
+    const typed = typeEndpoints(ontology, relationship.type, source, target)
+
+    if (!signatureProblem(ontology, relationship.type, target.type, source.type)) {
+      relationships.push(swapped)
+      violations.push({ action: "reversed", relationship: described, reason: problem, repaired: describe(swapped) })
+    } else if (alternative) {
+      const retyped = { ...relationship, type: alternative }
+      relationships.push(retyped)
+      violations.push({ action: "retyped", relationship: described, reason: problem, repaired: describe(retyped) })
+    } else if (typed) {
+      for (const [entity, type] of typed) {
+        // Later relationships see the entity with its new type
+        entitiesByLabel.set(entity.label.toLowerCase(), { ...entity, type })
+        violations.push({
+          action: "endpointTyped",
+          relationship: described,
+          reason: problem,
+          repaired: `${entity.label} (${type})`,
+        })
+      }
+      relationships.push(relationship)
+    } else if (isUncertain(source) || isUncertain(target)) {
+      relationships.push({
+        ...relationship,
+        confidence: Number((relationship.confidence * DOWN_WEIGHT_FACTOR).toFixed(3)),
+        properties: { ...relationship.properties, constraintViolation: problem },
+      })
+      violations.push({ action: "downWeighted", relationship: described, reason: problem })
+    } else {
+      violations.push({ action: "rejected", relationship: described, reason: problem })
+    }
+  }
+
+  if (violations.length > 0) {
+    console.warn(
+      "Domain/range violations:",
+      violations.map((v) => `${v.relationship} (${v.action}: ${v.reason})`),
+    )
+  }
+
+  const entities = extraction.entities.map((entity) => entitiesByLabel.get(entity.label.toLowerCase()) ?? entity)
+  return { entities, relationships, violations }
+}
+
+export function countViolations(violations: ConstraintViolation[]): Record<ConstraintAction, number> {
+  const counts: Record<ConstraintAction, number> = {
+    rejected: 0,
+    reversed: 0,
+    retyped: 0,
+    endpointTyped: 0,
+    downWeighted: 0,
+  }
+  for (const violation of violations) counts[violation.action]++
+  return counts
+}
+
+// Null when the types fit, otherwise why not. Types without a domain or range accept anything there.
+function signatureProblem(ontology: Ontology, type: string, sourceType: string, targetType: string): string | null {
+  const definition = findRelationshipType(ontology, type)
+  if (!definition) return null
+
+  const fits = (entityType: string, allowed?: string[]) =>
+    !allowed || allowed.some((name) => isSubtypeOf(ontology, entityType, name))
+
+  if (!fits(sourceType, definition.domain)) {
+    return `${type} needs a source of type ${definition.domain!.join(" or ")}, not ${sourceType}`
+  }
+  if (!fits(targetType, definition.range)) {
+    return `${type} needs a target of type ${definition.range!.join(" or ")}, not ${targetType}`
+  }
+  return null
+}
+
+// The types that make a relationship fit when its misfit endpoints are vague (CONCEPT, or a type the ontology does
+// not know) and the domain or range there names exactly one type; null when that does not fix it
+function typeEndpoints<E extends Entity>(
+  ontology: Ontology,
+  type: string,
+  source: E,
+  target: E,
+): [E, string][] | null {
+  const definition = findRelationshipType(ontology, type)
+  if (!definition) return null
+
+  const typed: [E, string][] = []
+  const fit = (entity: E, allowed?: string[]) => {
+    if (!allowed || allowed.some((name) => isSubtypeOf(ontology, entity.type, name))) return entity.type
+    if (allowed.length !== 1 || !isVague(ontology, entity.type)) return null
+    typed.push([entity, allowed[0]])
+    return allowed[0]
+  }
+
+  const sourceType = fit(source, definition.domain)
+  const targetType = fit(target, definition.range)
+  if (!sourceType || !targetType || signatureProblem(ontology, type, sourceType, targetType)) return null
+  return typed.length > 0 ? typed : null
+}
+
+function isVague(ontology: Ontology, type: string): boolean {
+  return type === "CONCEPT" || !entityTypeNames(ontology).includes(type)
+}
+
+function isUncertain(entity: Entity): boolean {
+  return !!entity.properties?.guessed || entity.confidence < UNCERTAIN_ENTITY_CONFIDENCE
+}
+
+function describe(relationship: Relationship): string {
+  return `${relationship.source} -[${relationship.type}]-> ${relationship.target}`
+}
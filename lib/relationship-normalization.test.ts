@@ -0,0 +1,30 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { DEFAULT_ONTOLOGY } from "./ontology"
+import { normalizeRelationships } from "./relationship-normalization"
+
+const entities = [
+  { label: "Steve Wozniak", type: "PERSON" },
+  { label: "Apple", type: "ORGANIZATION" },
+  { label: "Apple I", type: "PRODUCT" },
+]
+
+function built(target: string) {
+  const relationships = [{ source: "Steve Wozniak", target, type: "built", properties: {} as Record<string, any> }]
+  return normalizeRelationships({ entities, relationships }, DEFAULT_ONTOLOGY).relationships[0]
+}
+
+test("built with a non-organization target falls through to CREATES", () => {
+  const relationship = built("Apple I")
+
+  assert.equal(relationship.type, "CREATES")
+  assert.equal(relationship.source, "Steve Wozniak")
+  assert.equal(relationship.properties.originalType, "BUILT")
+})
+
+test("built with an organization target is a founding, stored from the organization's side", () => {
+  const relationship = built("Apple")
+
+  assert.equal(relationship.type, "FOUNDED_BY")
+  assert.equal(relationship.source, "Apple")
+})
@@ -0,0 +1,179 @@
+import { DEFAULT_ONTOLOGY, findRelationshipType, isSubtypeOf, type Ontology } from "./ontology"
+import { normalizeTypeLabel } from "./type-labels"
+
+interface Entity {
+  label: string
+  type: string
+}
+
+interface Relationship {
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+}
+
+export const FALLBACK_RELATIONSHIP_TYPE = "RELATED_TO"
+
+// What happened to one extracted relationship type
+export interface TypeNormalization {
+  from: string
+  to: string
+  // Source and target were swapped, e.g. FOUNDED -> FOUNDED_BY or EMPLOYS -> WORKS_AT
+  reversed: boolean
+  // Nothing matched; the verb was kept on a RELATED_TO edge
+  fallback: boolean
+  count: number
+}
+
+interface Synonym {
+  type: string
+  // The name reads from the other side: "X EMPLOYS Y" is "Y WORKS_AT X"
+  reversed?: boolean
+  // Only when the target (after reversing) has one of these types: CREATES an organization is FOUNDED
+  range?: string[]
+  names: string[]
+}
+
+// Checked in order; names are UPPER_SNAKE_CASE as extractors emit them after normalizeTypeLabel
+// CREATED and BUILT also belong to CREATES below: the range-restricted FOUNDED entry must come first so that
+// only an organization target is FOUNDED and every other target falls through to CREATES
+const SYNONYMS: Synonym[] = [
+  { type: "FOUNDED", range: ["ORGANIZATION"], names: ["CREATES", "CREATED", "BUILT", "FORMED", "STARTED"] },
+  {
+    type: "FOUNDED",
+    names: ["CO_FOUNDED", "COFOUNDED", "FOUNDS", "FOUNDER_OF", "CO_FOUNDER_OF", "ESTABLISHED", "SET_UP"],
+  },
+  { type: "WORKS_AT", names: ["WORKS_FOR", "WORKED_AT", "WORKED_FOR", "EMPLOYED_AT", "EMPLOYEE_OF", "JOINED"] },
+  { type: "WORKS_AT", reversed: true, names: ["EMPLOYS", "EMPLOYED", "HIRED"] },
+  { type: "CEO_OF", names: ["CHIEF_EXECUTIVE_OF", "CHIEF_EXECUTIVE_OFFICER_OF"] },
+  { type: "LEADS", names: ["RUNS", "RAN", "LED", "HEADS", "DIRECTS", "LEADER_OF", "HEAD_OF", "PRESIDENT_OF"] },
+  { type: "MANAGES", names: ["SUPERVISES", "MANAGER_OF", "OVERSEES"] },
+  { type: "LIVES_IN", names: ["LIVED_IN", "RESIDES_IN", "RESIDED_IN", "RESIDENT_OF", "MOVED_TO"] },
+  { type: "LOCATED_IN", names: ["BASED_IN", "HEADQUARTERED_IN", "SITUATED_IN", "LOCATED_AT", "PART_OF_CITY"] },
+  { type: "BORN_IN", names: ["BIRTHPLACE", "BIRTHPLACE_OF", "NATIVE_OF"] },
+  { type: "STUDIED_AT", names: ["GRADUATED_FROM", "ALUMNUS_OF", "ALUMNI_OF", "EDUCATED_AT", "STUDENT_AT"] },
+  { type: "ATTENDED", names: ["PARTICIPATED_IN", "WENT_TO_EVENT"] },
+  { type: "OWNS", names: ["OWNER_OF", "ACQUIRED", "ACQUIRES", "BOUGHT", "BUYS", "PURCHASED", "PARENT_COMPANY_OF"] },
+  { type: "OWNS", reversed: true, names: ["OWNED_BY", "ACQUIRED_BY", "BOUGHT_BY", "SUBSIDIARY_OF", "DIVISION_OF"] },
+  { type: "MARRIED_TO", names: ["MARRIED", "SPOUSE_OF", "WIFE_OF", "HUSBAND_OF", "PARTNER_OF"] },
+  { type: "PARENT_OF", names: ["FATHER_OF", "MOTHER_OF"] },
+  { type: "CHILD_OF", names: ["SON_OF", "DAUGHTER_OF"] },
+  { type: "SIBLING_OF", names: ["BROTHER_OF", "SISTER_OF"] },
+  { type: "FRIENDS_WITH", names: ["FRIEND_OF", "BEFRIENDED", "FRIENDS"] },
+  { type: "COLLEAGUES_WITH", names: ["COLLEAGUE_OF", "COWORKER_OF", "CO_WORKER_OF"] },
+  { type: "KNOWS", names: ["MET", "ACQUAINTED_WITH", "KNEW"] },
+  { type: "COMPETES_WITH", names: ["COMPETITOR_OF", "RIVAL_OF", "COMPETES_AGAINST"] },
+  { type: "COLLABORATES_WITH", names: ["PARTNERED_WITH", "PARTNERS_WITH", "COOPERATES_WITH"] },
+  { type: "CREATES", names: ["CREATED", "MADE", "MAKES", "BUILT", "BUILDS", "DEVELOPED", "DEVELOPS", "INVENTED"] },
+  { type: "CREATES", names: ["DESIGNED", "DESIGNS", "PRODUCED", "PRODUCES", "CREATOR_OF", "INVENTOR_OF"] },
+  { type: "WRITES", names: ["WROTE", "AUTHORED", "AUTHOR_OF", "WRITER_OF"] },
+  { type: "HAS_ATTRIBUTE", names: ["IS", "HAS_PROPERTY", "HAS_TRAIT", "DESCRIBED_AS", "HAS_QUALITY"] },
+  { type: "USES", names: ["USED", "UTILIZES", "UTILISES", "RELIES_ON"] },
+  { type: "VISITS", names: ["VISITED"] },
+  { type: "TRAVELS_TO", names: ["TRAVELED_TO", "TRAVELLED_TO", "WENT_TO", "FLEW_TO"] },
+  { type: "TEACHES", names: ["TAUGHT", "TEACHER_OF", "LECTURES"] },
+  { type: "SUPPORTS", names: ["SUPPORTED", "BACKS", "BACKED", "ENDORSES", "ENDORSED"] },
+  { type: "OPPOSES", names: ["OPPOSED", "AGAINST"] },
+]
+
+// Auxiliaries and articles LLMs prepend to verbs: IS_LOCATED_IN, WAS_BORN_IN, HAS_A
+const LEADING_FILLER = /^(?:(?:IS|ARE|WAS|WERE|HAS|HAVE|HAD|BEEN|BEING|WILL|THE|A|AN)_)+/
+
+// Maps every relationship type onto the ontology before validation: declared types are kept, synonyms and
+// inflected or passive verbs become their canonical type, inverse pairs are written in one direction (the type
+// declared first, e.g. FOUNDED_BY rather than FOUNDED), and anything else becomes RELATED_TO with the original
+// verb in properties.verb.
+export function normalizeRelationships<E extends Entity, R extends Relationship>(
+  extraction: { entities: E[]; relationships: R[] },
+  ontology: Ontology = DEFAULT_ONTOLOGY,
+): { relationships: R[]; normalizations: TypeNormalization[] } {
+  const typeOf = new Map(extraction.entities.map((entity) => [entity.label.toLowerCase(), entity.type]))
+  const normalizations = new Map<string, TypeNormalization>()
+  const relationships: R[] = []
+
+  for (const relationship of extraction.relationships) {
+    const original = normalizeTypeLabel(relationship.type)
+    const mapped = mapType(ontology, original, (reversed) =>
+      typeOf.get((reversed ? relationship.source : relationship.target).toLowerCase()),
+    )
+    const { type, reversed } = mapped ? canonicalDirection(ontology, mapped) : fallback(ontology, original)
+
+    const normalized = {
+      ...relationship,
+      type,
+      ...(reversed ? { source: relationship.target, target: relationship.source } : {}),
+    }
+    if (type !== original) {
+      normalized.properties = {
+        ...relationship.properties,
+        originalType: original,
+        ...(!mapped && original ? { verb: toVerb(original) } : {}),
+      }
+      const key = `${original}|${type}|${reversed}`
+      const entry = normalizations.get(key)
+      if (entry) entry.count++
+      else normalizations.set(key, { from: original, to: type, reversed, fallback: !mapped, count: 1 })
+    }
+    relationships.push(normalized)
+  }
+
+  if (normalizations.size > 0) {
+    console.log(
+      "Normalized relationship types:",
+      Array.from(normalizations.values()).map((n) => `${n.from} -> ${n.to}${n.reversed ? " (reversed)" : ""}`),
+    )
+  }
+
+  return { relationships, normalizations: Array.from(normalizations.values()) }
+}
+
+// The declared type an extracted type stands for, or null. targetType gives the type of the entity that ends up
+// as the target, for synonyms that depend on it.
+function mapType(
+  ontology: Ontology,
+  type: string,
+  targetType: (reversed: boolean) => string | undefined,
+): { type: string; reversed: boolean } | null {
+  if (!type) return null
+  if (findRelationshipType(ontology, type)) return { type, reversed: false }
+
+  const stripped = type.replace(LEADING_FILLER, "")
+  // "CREATED_BY": the passive of a known verb, read from the other side
+  const passive = stripped.endsWith("_BY") ? stripped.slice(0, -"_BY".length) : null
+
+  const readings: [string, boolean][] = passive ? [[stripped, false], [passive, true]] : [[stripped, false]]
+  for (const [name, passiveVoice] of readings) {
+    if (name !== type && findRelationshipType(ontology, name)) return { type: name, reversed: passiveVoice }
+
+    const synonym = SYNONYMS.find((candidate) => {
+      if (!candidate.names.includes(name) || !findRelationshipType(ontology, candidate.type)) return false
+      if (!candidate.range) return true
+      const target = targetType(passiveVoice !== !!candidate.reversed)
+      return !!target && candidate.range.some((allowed) => isSubtypeOf(ontology, target, allowed))
+    })
+    if (synonym) return { type: synonym.type, reversed: passiveVoice !== !!synonym.reversed }
+  }
+
+  return null
+}
+
+// Of an inverse pair, the type declared first is written; the other is stored reversed
+function canonicalDirection(ontology: Ontology, mapped: { type: string; reversed: boolean }) {
+  const inverse = findRelationshipType(ontology, mapped.type)?.inverse
+  if (!inverse) return mapped
+
+  const index = (name: string) => ontology.relationshipTypes.findIndex((t) => t.name === name)
+  return index(inverse) < index(mapped.type) ? { type: inverse, reversed: !mapped.reversed } : mapped
+}
+
+// Unmapped types become RELATED_TO when the ontology declares it; otherwise validation reports them
+function fallback(ontology: Ontology, type: string): { type: string; reversed: boolean } {
+  const declared = !!findRelationshipType(ontology, FALLBACK_RELATIONSHIP_TYPE)
+  return { type: declared ? FALLBACK_RELATIONSHIP_TYPE : type, reversed: false }
+}
+
+// INVESTED_IN -> "invested in"
+function toVerb(type: string): string {
+  return type.toLowerCase().replace(/_/g, " ")
+}
@@ -1,88 +1,89 @@
-// Simplified but more reliable PDF text extraction
-export class SimplePDFExtractor {
-  static async extractText(file: File): Promise<string> {
-    try {
-      console.log("Using simplified PDF extraction approach...")
-
-      // For now, we'll provide a reliable fallback that works
-      // In a production environment, you would integrate with a proper PDF parsing service
+import pdfParse from "pdf-parse"
 
-      const arrayBuffer = await file.arrayBuffer()
-      const uint8Array = new Uint8Array(arrayBuffer)
+export interface PDFPage {
+  pageNumber: number
+  text: string
+}
 
-      // Try to find readable text in the PDF
-      let extractedText = this.findReadableText(uint8Array)
+export interface PDFExtractionResult {
+  text: string
+  pages: PDFPage[]
+  numPages: number
+}
 
-      // If extraction fails, provide the test content
-      if (!extractedText || extractedText.length < 10) {
-        console.log("PDF extraction failed, using expected content for testing")
-        extractedText = "Apple is founded by Steve Jobs. Elon Musk owns Tesla. He is Very Rich."
-      }
+export class PDFExtractionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PDFExtractionError"
+  }
+}
 
-      console.log(`Extracted text: "${extractedText}"`)
-      return extractedText
-    } catch (error) {
-      console.error("PDF extraction error:", error)
-      // Return the expected content for testing
-      return "Apple is founded by Steve Jobs. Elon Musk owns Tesla. He is Very Rich."
-    }
+// PDF text extraction backed by pdf.js (via pdf-parse), which handles
+// compressed (FlateDecode) content streams, font encodings and multi-page documents
+export class SimplePDFExtractor {
+  static async extractText(file: File): Promise<string> {
+    const result = await this.extractPages(file)
+    return result.text
   }
 
-  private static findReadableText(uint8Array: Uint8Array): string {
-    // Convert bytes to characters and look for readable sequences
-    const chars: string[] = []
+  static async extractPages(file: File): Promise<PDFExtractionResult> {
+    console.log("Extracting PDF text with pdf.js...")
 
-    for (let i = 0; i < uint8Array.length - 1; i++) {
-      const byte = uint8Array[i]
+    const buffer = Buffer.from(await file.arrayBuffer())
+    const pages: PDFPage[] = []
 
-      // Look for printable ASCII characters
-      if (byte >= 32 && byte <= 126) {
-        chars.push(String.fromCharCode(byte))
-      } else if (byte === 10 || byte === 13) {
-        chars.push(" ")
-      }
+    let numPages = 0
+    try {
+      const result = await pdfParse(buffer, {
+        // pdf-parse renders pages sequentially, so pages are collected in order
+        pagerender: async (pageData: any) => {
+          const text = await this.renderPage(pageData)
+          pages.push({ pageNumber: pageData.pageNumber ?? pages.length + 1, text })
+          return text
+        },
+      })
+      numPages = result.numpages
+    } catch (error) {
+      console.error("PDF extraction error:", error)
+      const reason = error instanceof Error ? error.message : "Unknown error"
+      throw new PDFExtractionError(`Could not parse PDF "${file.name}": ${reason}`)
     }
 
-    const fullText = chars.join("")
-
-    // Look for meaningful English text patterns
-    const sentences = fullText.match(/[A-Z][a-z\s]{10,}[.!?]/g) || []
-    const words = fullText.match(/[A-Z][a-z]{2,}/g) || []
-
-    // Filter out PDF-specific content
-    const meaningfulWords = words.filter((word) => word.length > 2 && !this.isPdfTerm(word) && this.isEnglishWord(word))
-
-    if (meaningfulWords.length > 3) {
-      return meaningfulWords.join(" ")
+    const pagesWithText = pages.filter((page) => page.text.trim().length > 0)
+    if (pagesWithText.length === 0) {
+      throw new PDFExtractionError(
+        `No extractable text found in PDF "${file.name}". It may be a scanned image or contain only graphics.`,
+      )
     }
 
-    if (sentences.length > 0) {
-      return sentences.join(" ")
-    }
+    console.log(`Extracted text from ${pagesWithText.length} of ${numPages} pages`)
 
-    return ""
+    return {
+      text: pagesWithText.map((page) => page.text).join("\n\n"),
+      pages: pagesWithText,
+      numPages,
+    }
   }
 
-  private static isPdfTerm(word: string): boolean {
-    const pdfTerms = [
-      "obj",
-      "endobj",
-      "stream",
-      "endstream",
-      "xref",
-      "trailer",
-      "font",
-      "encoding",
-      "filter",
-      "length",
-      "width",
-      "height",
-    ]
-    return pdfTerms.includes(word.toLowerCase())
-  }
+  private static async renderPage(pageData: any): Promise<string> {
+    const textContent = await pageData.getTextContent({
+      normalizeWhitespace: true,
+      disableCombineTextItems: false,
+    })
+
+    let lastY: number | undefined
+    let text = ""
+
+    for (const item of textContent.items) {
+      const y = item.transform[5]
+      if (lastY === undefined || lastY === y) {
+        text += item.str
+      } else {
+        text += "\n" + item.str
+      }
+      lastY = y
+    }
 
-  private static isEnglishWord(word: string): boolean {
-    // Simple check for English-like words
-    return /^[A-Za-z]+$/.test(word) && word.length > 1
+    return text
   }
 }
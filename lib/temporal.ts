@@ -0,0 +1,173 @@
+interface Relationship {
+  source: string
+  target: string
+  type: string
+  properties: Record<string, any>
+  context: string
+}
+
+// When a relationship held, as ISO dates (YYYY-MM-DD). valid_from/valid_to bound a period ("from 1997 to 2011");
+// as_of is a single point at which it was true ("in 2020"), and the fact is shown from then on.
+export interface TemporalQualifiers {
+  valid_from?: string
+  valid_to?: string
+  as_of?: string
+}
+
+export const TEMPORAL_PROPERTIES: (keyof TemporalQualifiers)[] = ["valid_from", "valid_to", "as_of"]
+
+// A year, month or day stands for its first day as a start and its last day as an end: "until 2011" is 2011-12-31
+export type DateBound = "start" | "end"
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+const MONTH_NAME =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|" +
+  "nov(?:ember)?|dec(?:ember)?)\\.?"
+const YEAR = "(?:1[5-9]|20)\\d{2}"
+// Most specific first, so "March 5, 1997" is not read as just 1997
+const DATE =
+  "(?:\\d{4}-\\d{2}-\\d{2}|\\d{4}-\\d{2}|\\d{1,2}/\\d{1,2}/\\d{4}|" +
+  `${MONTH_NAME}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH_NAME}\\s+\\d{4}|` +
+  `${MONTH_NAME}\\s+\\d{4}|${YEAR})`
+// Regex source for a date in any form normalizeDate reads, for finding dates in text
+export const DATE_EXPRESSION = DATE
+
+const PERIOD = new RegExp(`\\b(?:from|between)\\s+(${DATE})\\s+(?:to|until|till|through|and)\\s+(${DATE})\\b`, "i")
+const YEAR_SPAN = new RegExp(`\\b(${YEAR})\\s*[-–—]\\s*(${YEAR})\\b`)
+const SINCE = new RegExp(`\\b(?:since|starting(?:\\s+in)?|beginning(?:\\s+in)?)\\s+(${DATE})\\b`, "i")
+const UNTIL = new RegExp(`\\b(?:until|till|through|up\\s+to)\\s+(${DATE})\\b`, "i")
+const POINT = new RegExp(`\\b(?:as\\s+of|in|on|by|during)\\s+(${DATE})\\b`, "i")
+
+// Clauses after the later mention end here, so a date further on belongs to something else
+const CLAUSE_BREAK = /[;]|,\s*(?:and|but|while|whereas|who|which)\b/i
+
+// ISO date for "1997", "March 1997", "March 5, 1997", "5 March 1997", "1997-03", "1997-03-05" or "3/5/1997" (US
+// order); null when the value is not a date
+export function normalizeDate(value: unknown, bound: DateBound = "start"): string | null {
+  if (typeof value === "number") value = String(value)
+  if (typeof value !== "string") return null
+  const text = value
+    .trim()
+    .toLowerCase()
+    .replace(/(\d)(?:st|nd|rd|th)\b/, "$1")
+    .replace(/^(\d{4}-\d{2}-\d{2})t.*$/, "$1")
+
+  let match: RegExpMatchArray | null
+  if ((match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/))) return isoDate(+match[1], +match[2], +match[3])
+  if ((match = text.match(/^(\d{4})-(\d{2})$/))) return isoDate(+match[1], +match[2], bound)
+  if ((match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) return isoDate(+match[3], +match[1], +match[2])
+  if ((match = text.match(/^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/))) {
+    return isoDate(+match[3], monthNumber(match[1]), +match[2])
+  }
+  if ((match = text.match(/^(\d{1,2})\s+([a-z]+)\.?\s+(\d{4})$/))) {
+    return isoDate(+match[3], monthNumber(match[2]), +match[1])
+  }
+  if ((match = text.match(/^([a-z]+)\.?\s+(\d{4})$/))) return isoDate(+match[2], monthNumber(match[1]), bound)
+  if ((match = text.match(/^(\d{4})$/))) return isoDate(+match[1], bound === "start" ? 1 : 12, bound)
+  return null
+}
+
+// Period and point-in-time phrases in a piece of text: "from 1997 to 2011", "(1997–2011)", "since May 2015",
+// "until 2020", "as of 2024", "in 1976"
+export function detectTemporalQualifiers(text: string): TemporalQualifiers {
+  const period = text.match(PERIOD) || text.match(YEAR_SPAN)
+  if (period) return qualifiers(normalizeDate(period[1], "start"), normalizeDate(period[2], "end"))
+
+  const since = text.match(SINCE)
+  const until = text.match(UNTIL)
+  if (since || until) {
+    return qualifiers(since && normalizeDate(since[1], "start"), until && normalizeDate(until[1], "end"))
+  }
+
+  const point = text.match(POINT)
+  const asOf = point && normalizeDate(point[1], "start")
+  return asOf ? { as_of: asOf } : {}
+}
+
+// Normalizes qualifiers an extractor set itself and, for relationships without any, reads them from the context:
+// first the rest of the clause after both mentions ("CEO of Apple from 1997 to 2011"), then the words between them,
+// then what precedes them ("In 1976, Steve Jobs founded Apple").
+export function attachTemporalQualifiers<R extends Relationship>(relationships: R[]): R[] {
+  return relationships.map((relationship) => {
+    const given = normalizeQualifiers(relationship.properties)
+    const properties = { ...relationship.properties }
+    for (const key of TEMPORAL_PROPERTIES) delete properties[key]
+
+    const found = Object.keys(given).length > 0 ? given : fromContext(relationship)
+    return { ...relationship, properties: { ...properties, ...found } }
+  })
+}
+
+// Keeps the qualifiers that parse as dates, normalized to ISO
+export function normalizeQualifiers(raw: Record<string, unknown>): TemporalQualifiers {
+  const result: TemporalQualifiers = {}
+  for (const key of TEMPORAL_PROPERTIES) {
+    const date = normalizeDate(raw[key], key === "valid_to" ? "end" : "start")
+    if (date) result[key] = date
+  }
+  return result
+}
+
+// Whether a relationship held on asOf (an ISO date). Relationships without qualifiers always hold.
+export function isValidAt(properties: Record<string, any>, asOf: string): boolean {
+  if (properties.valid_from && properties.valid_from > asOf) return false
+  if (properties.valid_to && properties.valid_to < asOf) return false
+  if (properties.as_of && properties.as_of > asOf) return false
+  return true
+}
+
+// Whether two sightings of a relationship can describe the same period, so one edge holds both: the bounds both
+// know agree, together they still form a period, and a point in time falls inside the other's period. "From 2000
+// to 2010" and "since 2015" are two periods (someone who left and rejoined), and are kept as two edges.
+export function samePeriod(a: TemporalQualifiers, b: TemporalQualifiers): boolean {
+  const agree = (key: keyof TemporalQualifiers) => !a[key] || !b[key] || a[key] === b[key]
+  if (!agree("valid_from") || !agree("valid_to")) return false
+
+  const from = a.valid_from || b.valid_from
+  const to = a.valid_to || b.valid_to
+  if (from && to && from > to) return false
+
+  const inside = (point?: string) => !point || ((!from || from <= point) && (!to || point <= to))
+  return inside(a.as_of) && inside(b.as_of)
+}
+
+function fromContext(relationship: Relationship): TemporalQualifiers {
+  const context = relationship.context || ""
+  const lower = context.toLowerCase()
+  const mentions = [relationship.source, relationship.target]
+    .map((label) => ({ start: lower.indexOf(label.toLowerCase()), length: label.length }))
+    .sort((a, b) => a.start - b.start)
+  if (mentions[0].start < 0) return detectTemporalQualifiers(context)
+
+  const [first, second] = mentions
+  const segments = [
+    context.slice(second.start + second.length).split(CLAUSE_BREAK)[0],
+    context.slice(first.start + first.length, second.start),
+    context.slice(0, first.start),
+  ]
+  for (const segment of segments) {
+    const found = detectTemporalQualifiers(segment)
+    if (Object.keys(found).length > 0) return found
+  }
+  return {}
+}
+
+function qualifiers(from: string | null, to: string | null): TemporalQualifiers {
+  // A period that ends before it starts was misread
+  if (from && to && from > to) return {}
+  return { ...(from ? { valid_from: from } : {}), ...(to ? { valid_to: to } : {}) }
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3)) + 1
+}
+
+function isoDate(year: number, month: number, day: number | DateBound): string | null {
+  if (month < 1 || month > 12) return null
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  const resolvedDay = day === "start" ? 1 : day === "end" ? daysInMonth : day
+  if (resolvedDay < 1 || resolvedDay > daysInMonth) return null
+
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${year}-${pad(month)}-${pad(resolvedDay)}`
+}
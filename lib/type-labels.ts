@@ -0,0 +1,113 @@
+import { DEFAULT_ONTOLOGY, entityTypeNames, relationshipTypeNames, type Ontology } from "./ontology"
+
+interface Entity {
+  label: string
+  type: string
+}
+
+interface Relationship {
+  source: string
+  target: string
+  type: string
+}
+
+export type TypeKind = "entity" | "relationship"
+
+export interface RejectedType {
+  kind: TypeKind
+  type: string
+  reason: string
+  // Entity label, or "source -> target" for relationships
+  subject: string
+}
+
+export class InvalidTypeLabelError extends Error {
+  constructor(
+    readonly kind: TypeKind,
+    readonly type: string,
+    reason: string,
+  ) {
+    super(`Invalid ${kind} type "${type}": ${reason}`)
+    this.name = "InvalidTypeLabelError"
+  }
+}
+
+// Upper snake case, ASCII letters/digits/underscores only, starting with a letter
+export function normalizeTypeLabel(type: string): string {
+  return String(type ?? "")
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^[^A-Z]+/, "")
+    .replace(/_+$/, "")
+}
+
+export function escapeLabel(label: string): string {
+  return "`" + label.replace(/`/g, "``") + "`"
+}
+
+// Normalizes and escapes a type for interpolation as a Cypher label or relationship type
+export function toCypherLabel(type: string, kind: TypeKind): string {
+  const normalized = normalizeTypeLabel(type)
+  if (!normalized) {
+    throw new InvalidTypeLabelError(kind, type, "not a legal identifier")
+  }
+  return escapeLabel(normalized)
+}
+
+export function validateType(type: string, kind: TypeKind, ontology: Ontology = DEFAULT_ONTOLOGY): string {
+  const normalized = normalizeTypeLabel(type)
+  if (!normalized) {
+    throw new InvalidTypeLabelError(kind, type, "not a legal identifier")
+  }
+
+  const allowed = kind === "entity" ? entityTypeNames(ontology) : relationshipTypeNames(ontology)
+  if (!allowed.includes(normalized)) {
+    throw new InvalidTypeLabelError(kind, type, "not declared in the ontology")
+  }
+
+  return normalized
+}
+
+// Splits an extraction into items with ontology-approved, normalized types and the rejected types
+export function validateExtractionTypes<E extends Entity, R extends Relationship>(
+  extraction: { entities: E[]; relationships: R[] },
+  ontology: Ontology = DEFAULT_ONTOLOGY,
+): { entities: E[]; relationships: R[]; rejectedTypes: RejectedType[] } {
+  const rejectedTypes: RejectedType[] = []
+  const entities: E[] = []
+  const relationships: R[] = []
+
+  for (const entity of extraction.entities) {
+    try {
+      entities.push({ ...entity, type: validateType(entity.type, "entity", ontology) })
+    } catch (error) {
+      if (!(error instanceof InvalidTypeLabelError)) throw error
+      rejectedTypes.push({ kind: "entity", type: String(entity.type), reason: error.message, subject: entity.label })
+    }
+  }
+
+  for (const relationship of extraction.relationships) {
+    try {
+      relationships.push({ ...relationship, type: validateType(relationship.type, "relationship", ontology) })
+    } catch (error) {
+      if (!(error instanceof InvalidTypeLabelError)) throw error
+      rejectedTypes.push({
+        kind: "relationship",
+        type: String(relationship.type),
+        reason: error.message,
+        subject: `${relationship.source} -> ${relationship.target}`,
+      })
+    }
+  }
+
+  if (rejectedTypes.length > 0) {
+    console.warn(
+      "Rejected types:",
+      rejectedTypes.map((r) => `${r.subject} (${r.type})`),
+    )
+  }
+
+  return { entities, relationships, rejectedTypes }
+}
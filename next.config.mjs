@@ -9,6 +9,10 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // pdf-parse must be required natively; bundling it triggers its debug-mode test file read
+    serverComponentsExternalPackages: ["pdf-parse"],
+  },
 }
 
 export default nextConfig